@@ -3,8 +3,13 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  // Las importaciones usan la extensión .js de NodeNext; en los tests apuntan al fuente .ts
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    // ts-jest compila a CommonJS: el modo NodeNext del tsconfig solo lo admite con isolatedModules
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'CommonJS', moduleResolution: 'Node' } }],
   },
   collectCoverageFrom: [
     'src/**/*.ts',
@@ -1,4 +1,112 @@
-import { SupabaseConfig } from '../types/supabase.js';
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { SupabaseConfig, DatabasePoolConfig, QueryResultsConfig, MigrationsConfig, MigrationLintBlock, ProjectProfiles } from '../types/supabase.js';
+import { validateInput } from '../utils/validation.js';
+
+export const DEFAULT_PROJECT = 'default';
+
+const ProfileSchema = z.object({
+  url: z.string(),
+  serviceRoleKey: z.string(),
+  dbUrl: z.string(),
+  jwtSecret: z.string().optional(),
+  anonKey: z.string().optional(),
+  readOnly: z.boolean().optional(),
+  pool: z.object({
+    max: z.number().int().optional(),
+    idleTimeoutMs: z.number().int().optional(),
+    connectionTimeoutMs: z.number().int().optional(),
+    statementTimeoutMs: z.number().int().optional(),
+    healthCheckIntervalMs: z.number().int().optional(),
+    connectRetries: z.number().int().optional()
+  }).optional(),
+  results: z.object({
+    maxResponseBytes: z.number().int().optional(),
+    pageSize: z.number().int().optional(),
+    cursorTtlMs: z.number().int().optional(),
+    maxOpenCursors: z.number().int().optional()
+  }).optional(),
+  migrations: z.object({
+    dir: z.string().optional(),
+    rollbacksDir: z.string().optional(),
+    schemas: z.array(z.string()).optional(),
+    seedsDir: z.string().optional(),
+    lintBlock: z.enum(['error', 'warning', 'off']).optional()
+  }).optional()
+});
+
+const ProfilesFileSchema = z.object({
+  default: z.string().optional(),
+  projects: z.record(ProfileSchema)
+});
+
+const readIntEnv = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`${name} debe ser un número entero`);
+  }
+  return parsed;
+};
+
+export const loadPoolConfig = (): DatabasePoolConfig => ({
+  max: readIntEnv('SUPABASE_DB_POOL_MAX', 10),
+  idleTimeoutMs: readIntEnv('SUPABASE_DB_POOL_IDLE_TIMEOUT_MS', 30000),
+  connectionTimeoutMs: readIntEnv('SUPABASE_DB_CONNECTION_TIMEOUT_MS', 10000),
+  statementTimeoutMs: readIntEnv('SUPABASE_DB_STATEMENT_TIMEOUT_MS', 0),
+  healthCheckIntervalMs: readIntEnv('SUPABASE_DB_HEALTH_CHECK_INTERVAL_MS', 30000),
+  connectRetries: readIntEnv('SUPABASE_DB_CONNECT_RETRIES', 3)
+});
+
+export const loadResultsConfig = (): QueryResultsConfig => ({
+  maxResponseBytes: readIntEnv('SUPABASE_QUERY_MAX_RESPONSE_BYTES', 1000000),
+  pageSize: readIntEnv('SUPABASE_QUERY_PAGE_SIZE', 1000),
+  cursorTtlMs: readIntEnv('SUPABASE_QUERY_CURSOR_TTL_MS', 300000),
+  maxOpenCursors: readIntEnv('SUPABASE_QUERY_MAX_CURSORS', 5)
+});
+
+// Por defecto, la estructura de Supabase CLI relativa al directorio de trabajo
+export const loadMigrationsConfig = (
+  dir?: string,
+  rollbacksDir?: string,
+  schemas?: string[],
+  seedsDir?: string,
+  lintBlock?: MigrationLintBlock
+): MigrationsConfig => {
+  const migrationsDir = path.resolve(dir || process.env.SUPABASE_MIGRATIONS_DIR || 'supabase/migrations');
+  const rollbacks = rollbacksDir || process.env.SUPABASE_ROLLBACKS_DIR;
+  const seeds = seedsDir || process.env.SUPABASE_SEEDS_DIR;
+  const block = lintBlock ?? (process.env.SUPABASE_MIGRATIONS_LINT_BLOCK || 'error');
+  if (block !== 'error' && block !== 'warning' && block !== 'off') {
+    throw new Error('SUPABASE_MIGRATIONS_LINT_BLOCK debe ser error, warning u off');
+  }
+  return {
+    dir: migrationsDir,
+    rollbacksDir: rollbacks ? path.resolve(rollbacks) : path.join(path.dirname(migrationsDir), 'rollbacks'),
+    schemas: schemas ?? (process.env.SUPABASE_MIGRATIONS_SCHEMAS || 'public')
+      .split(',')
+      .map(schema => schema.trim())
+      .filter(schema => schema !== ''),
+    seedsDir: seeds ? path.resolve(seeds) : path.join(path.dirname(migrationsDir), 'seeds'),
+    lintBlock: block
+  };
+};
+
+// Aplicar los valores definidos en un perfil sobre la configuración base
+const mergeDefined = <T extends object>(base: T, overrides: Partial<Record<keyof T, number | undefined>> | undefined): T => {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      merged[key as keyof T] = value as T[keyof T];
+    }
+  }
+  return merged;
+};
 
 export const loadConfig = (): SupabaseConfig => {
   const requiredEnvVars = [
@@ -21,10 +129,85 @@ export const loadConfig = (): SupabaseConfig => {
     serviceRoleKey,
     dbUrl: process.env.SUPABASE_DB_URL!,
     jwtSecret: process.env.SUPABASE_JWT_SECRET || '',
-    anonKey
+    anonKey,
+    readOnly: process.env.SUPABASE_READ_ONLY === 'true',
+    pool: loadPoolConfig(),
+    results: loadResultsConfig(),
+    migrations: loadMigrationsConfig()
   };
 };
 
+// Sustituir referencias ${VAR} por variables de entorno para no guardar secretos en el fichero
+const interpolateEnv = (value: string): string =>
+  value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const envValue = process.env[name];
+    if (envValue === undefined) {
+      throw new Error(`Variable de entorno '${name}' referenciada en el fichero de perfiles no definida`);
+    }
+    return envValue;
+  });
+
+const readProfilesFile = (filePath: string): unknown => {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Fichero de perfiles no encontrado: ${resolvedPath}`);
+  }
+
+  const content = fs.readFileSync(resolvedPath, 'utf8');
+  const extension = path.extname(resolvedPath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? yaml.load(content) : JSON.parse(content);
+};
+
+// Cargar los proyectos: desde SUPABASE_PROFILES_FILE si existe, o un único proyecto desde las variables de entorno
+export const loadProfiles = (): ProjectProfiles => {
+  const profilesFile = process.env.SUPABASE_PROFILES_FILE;
+
+  if (!profilesFile) {
+    return {
+      defaultProject: DEFAULT_PROJECT,
+      projects: { [DEFAULT_PROJECT]: loadConfig() }
+    };
+  }
+
+  const file = validateInput(ProfilesFileSchema, readProfilesFile(profilesFile));
+  const basePool = loadPoolConfig();
+  const baseResults = loadResultsConfig();
+  const globalReadOnly = process.env.SUPABASE_READ_ONLY === 'true';
+  const projects: Record<string, SupabaseConfig> = {};
+
+  for (const [name, profile] of Object.entries(file.projects)) {
+    projects[name] = {
+      url: interpolateEnv(profile.url),
+      serviceRoleKey: interpolateEnv(profile.serviceRoleKey).replace(/\s+/g, ''),
+      dbUrl: interpolateEnv(profile.dbUrl),
+      jwtSecret: profile.jwtSecret ? interpolateEnv(profile.jwtSecret) : '',
+      anonKey: profile.anonKey ? interpolateEnv(profile.anonKey).replace(/\s+/g, '') : '',
+      readOnly: profile.readOnly ?? globalReadOnly,
+      pool: mergeDefined(basePool, profile.pool),
+      results: mergeDefined(baseResults, profile.results),
+      migrations: loadMigrationsConfig(
+        profile.migrations?.dir ? interpolateEnv(profile.migrations.dir) : undefined,
+        profile.migrations?.rollbacksDir ? interpolateEnv(profile.migrations.rollbacksDir) : undefined,
+        profile.migrations?.schemas,
+        profile.migrations?.seedsDir ? interpolateEnv(profile.migrations.seedsDir) : undefined,
+        profile.migrations?.lintBlock
+      )
+    };
+  }
+
+  const names = Object.keys(projects);
+  if (names.length === 0) {
+    throw new Error('El fichero de perfiles no define ningún proyecto');
+  }
+
+  const defaultProject = file.default ?? names[0]!;
+  if (!projects[defaultProject]) {
+    throw new Error(`El proyecto por defecto '${defaultProject}' no existe en el fichero de perfiles`);
+  }
+
+  return { defaultProject, projects };
+};
+
 export const validateConfig = (config: SupabaseConfig): void => {
   const errors: string[] = [];
   
@@ -40,6 +223,26 @@ export const validateConfig = (config: SupabaseConfig): void => {
     errors.push('SUPABASE_DB_URL debe ser una URL de PostgreSQL válida');
   }
   
+  if (config.pool.max < 1) {
+    errors.push('SUPABASE_DB_POOL_MAX debe ser al menos 1');
+  }
+  
+  if (config.pool.idleTimeoutMs < 0 || config.pool.connectionTimeoutMs < 0 || config.pool.statementTimeoutMs < 0) {
+    errors.push('Los timeouts del pool no pueden ser negativos');
+  }
+  
+  if (config.pool.connectRetries < 0) {
+    errors.push('SUPABASE_DB_CONNECT_RETRIES no puede ser negativo');
+  }
+  
+  if (config.results.maxResponseBytes < 1024) {
+    errors.push('SUPABASE_QUERY_MAX_RESPONSE_BYTES debe ser al menos 1024');
+  }
+  
+  if (config.results.pageSize < 1 || config.results.maxOpenCursors < 0 || config.results.cursorTtlMs < 1000) {
+    errors.push('SUPABASE_QUERY_PAGE_SIZE debe ser al menos 1, SUPABASE_QUERY_MAX_CURSORS no puede ser negativo y SUPABASE_QUERY_CURSOR_TTL_MS debe ser al menos 1000');
+  }
+  
   if (errors.length > 0) {
     throw new Error(`Errores de configuración: ${errors.join(', ')}`);
   }
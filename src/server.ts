@@ -6,24 +6,49 @@ import {
   ListToolsRequestSchema,
   Tool 
 } from '@modelcontextprotocol/sdk/types.js';
-import { initConnection, closeConnection } from './utils/connection.js';
-import { SupabaseConfig } from './types/supabase.js';
-import { logger, logError, logInfo } from './utils/logger.js';
-import { loadConfig, validateConfig } from './config/env.js';
+import { initConnections, closeConnection, getConnection, runWithProject } from './utils/connection.js';
+import { logError, logInfo } from './utils/logger.js';
+import { loadProfiles, validateConfig } from './config/env.js';
+import { ToolRegistry } from './tools/registry.js';
 
 // Importar todas las herramientas
-import { authTools, handleCreateAuthUser, handleListAuthUsers, handleDeleteAuthUser, handleUpdateAuthUser, handleGetAuthUser, handleResetUserPassword } from './tools/auth.js';
-import { databaseTools, handleDatabaseQuery, handleCreateTable, handleListTables, handleDescribeTable, handleDropTable, handleCreateIndex } from './tools/database.js';
-import { migrationTools, handleCreateMigration, handleListMigrations, handleApplyMigration, handleRollbackMigration, handleGetMigrationStatus } from './tools/migrations.js';
-import { storageTools, handleCreateBucket, handleListBuckets, handleUploadFile, handleDownloadFile, handleDeleteFile, handleListFiles } from './tools/storage.js';
-import { rlsTools, handleCreateRLSPolicy, handleListRLSPolicies, handleDeleteRLSPolicy, handleEnableRLS, handleDisableRLS } from './tools/rls.js';
-import { edgeFunctionTools, handleCreateEdgeFunction, handleListEdgeFunctions, handleDeleteEdgeFunction, handleInvokeEdgeFunction } from './tools/edge-functions.js';
-import { realtimeTools, handleCreateRealtimeSubscription, handleListRealtimeSubscriptions, handleDeleteRealtimeSubscription } from './tools/realtime.js';
-import { adminTools, handleGetDatabaseStats, handleGetUserStats, handleBackupDatabase, handleRestoreDatabase, handleGetSystemInfo } from './tools/admin.js';
-import { logsTools, handleGetLogs, handleGetMetrics, handleGetErrorLogs } from './tools/logs.js';
+import { authTools } from './tools/auth.js';
+import { databaseTools } from './tools/database.js';
+import { migrationTools } from './tools/migrations.js';
+import { schemaDiffTools } from './tools/schema-diff.js';
+import { seedTools } from './tools/seeds.js';
+import { branchTools } from './tools/branches.js';
+import { storageTools } from './tools/storage.js';
+import { rlsTools } from './tools/rls.js';
+import { grantTools } from './tools/grants.js';
+import { edgeFunctionTools } from './tools/edge-functions.js';
+import { realtimeTools } from './tools/realtime.js';
+import { adminTools } from './tools/admin.js';
+import { logsTools } from './tools/logs.js';
+import { projectTools } from './tools/projects.js';
+
+// Añadir el argumento opcional `project` que enruta la llamada a otro proyecto del fichero de perfiles
+const withProjectArgument = (tool: Tool): Tool => ({
+  ...tool,
+  inputSchema: {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      project: {
+        type: 'string',
+        description: 'Proyecto en el que ejecutar la herramienta (por defecto, el proyecto activo)'
+      }
+    }
+  }
+});
+
+const toTextContent = (result: unknown) => ({
+  content: [{ type: 'text', text: JSON.stringify(result) }]
+});
 
 class SupabaseMCPServer {
   private server: Server;
+  private registry: ToolRegistry;
   private allTools: Tool[];
 
   constructor() {
@@ -33,18 +58,28 @@ class SupabaseMCPServer {
       description: 'Servidor MCP completo para Supabase Self-Hosted'
     });
 
-    // Combinar todas las herramientas
-    this.allTools = [
+    // Registrar todas las herramientas
+    this.registry = new ToolRegistry().register(
       ...authTools,
       ...databaseTools,
       ...migrationTools,
+      ...schemaDiffTools,
+      ...seedTools,
+      ...branchTools,
       ...storageTools,
       ...rlsTools,
+      ...grantTools,
       ...edgeFunctionTools,
       ...realtimeTools,
       ...adminTools,
-      ...logsTools
-    ];
+      ...logsTools,
+      ...projectTools
+    );
+
+    const projectToolNames = new Set(projectTools.map(tool => tool.name));
+    this.allTools = this.registry.list().map(tool =>
+      projectToolNames.has(tool.name) ? tool : withProjectArgument(tool)
+    );
 
     this.setupHandlers();
   }
@@ -61,129 +96,30 @@ class SupabaseMCPServer {
     // Handler para ejecutar herramientas
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+      const { project, ...toolArgs } = args ?? {};
       
-      logInfo(`Ejecutando herramienta: ${name}`);
+      logInfo(`Ejecutando herramienta: ${name}${typeof project === 'string' ? ` (proyecto ${project})` : ''}`);
       
       try {
-        switch (name) {
-          // Herramientas de autenticación
-          case 'create_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateAuthUser(args)) }] };
-          case 'list_auth_users':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListAuthUsers(args)) }] };
-          case 'delete_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteAuthUser(args)) }] };
-          case 'update_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleUpdateAuthUser(args)) }] };
-          case 'get_auth_user':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetAuthUser(args)) }] };
-          case 'reset_user_password':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleResetUserPassword(args)) }] };
-
-          // Herramientas de base de datos
-          case 'database_query':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDatabaseQuery(args)) }] };
-          case 'create_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateTable(args)) }] };
-          case 'list_tables':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListTables(args)) }] };
-          case 'describe_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDescribeTable(args)) }] };
-          case 'drop_table':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDropTable(args)) }] };
-          case 'create_index':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateIndex(args)) }] };
-
-          // Herramientas de migraciones
-          case 'create_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateMigration(args)) }] };
-          case 'list_migrations':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListMigrations()) }] };
-          case 'apply_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleApplyMigration(args)) }] };
-          case 'rollback_migration':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleRollbackMigration(args)) }] };
-          case 'get_migration_status':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetMigrationStatus()) }] };
-
-          // Herramientas de storage
-          case 'create_storage_bucket':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateBucket(args)) }] };
-          case 'list_storage_buckets':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListBuckets()) }] };
-          case 'upload_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleUploadFile(args)) }] };
-          case 'download_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDownloadFile(args)) }] };
-          case 'delete_file':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteFile(args)) }] };
-          case 'list_files':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListFiles(args)) }] };
-
-          // Herramientas de RLS
-          case 'create_rls_policy':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateRLSPolicy(args)) }] };
-          case 'list_rls_policies':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListRLSPolicies(args)) }] };
-          case 'delete_rls_policy':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteRLSPolicy(args)) }] };
-          case 'enable_rls':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleEnableRLS(args)) }] };
-          case 'disable_rls':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDisableRLS(args)) }] };
-
-          // Herramientas de Edge Functions
-          case 'create_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateEdgeFunction(args)) }] };
-          case 'list_edge_functions':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListEdgeFunctions()) }] };
-          case 'delete_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteEdgeFunction(args)) }] };
-          case 'invoke_edge_function':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleInvokeEdgeFunction(args)) }] };
-
-          // Herramientas de Realtime
-          case 'create_realtime_subscription':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleCreateRealtimeSubscription(args)) }] };
-          case 'list_realtime_subscriptions':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleListRealtimeSubscriptions()) }] };
-          case 'delete_realtime_subscription':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleDeleteRealtimeSubscription(args)) }] };
-
-          // Herramientas de administración
-          case 'get_database_stats':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetDatabaseStats()) }] };
-          case 'get_user_stats':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetUserStats()) }] };
-          case 'backup_database':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleBackupDatabase(args)) }] };
-          case 'restore_database':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleRestoreDatabase(args)) }] };
-          case 'get_system_info':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetSystemInfo()) }] };
-
-          // Herramientas de logs
-          case 'get_logs':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetLogs(args)) }] };
-          case 'get_metrics':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetMetrics(args)) }] };
-          case 'get_error_logs':
-            return { content: [{ type: 'text', text: JSON.stringify(await handleGetErrorLogs(args)) }] };
-
-          default:
-            throw new Error(`Herramienta desconocida: ${name}`);
-        }
+        const tool = this.registry.get(name);
+
+        return await runWithProject(typeof project === 'string' ? project : undefined, async () => {
+          if (getConnection().getConfig().readOnly && !tool.readOnly && !tool.enforcesReadOnly) {
+            return toTextContent({
+              success: false,
+              error: `Herramienta '${name}' bloqueada: el servidor está en modo de solo lectura`,
+              readOnly: true
+            });
+          }
+
+          return toTextContent(await this.registry.call(name, toolArgs));
+        });
       } catch (error) {
         logError(error as Error, `tool_${name}`);
-        return { 
-          content: [{ 
-            type: 'text', 
-            text: JSON.stringify({ 
-              success: false, 
-              error: (error as Error).message 
-            }) 
-          }] 
-        };
+        return toTextContent({
+          success: false,
+          error: (error as Error).message
+        });
       }
     });
   }
@@ -203,12 +139,18 @@ class SupabaseMCPServer {
 // Función principal
 async function main(): Promise<void> {
   try {
-    // Cargar y validar configuración
-    const config = loadConfig();
-    validateConfig(config);
+    // Cargar y validar configuración de todos los proyectos
+    const profiles = loadProfiles();
+    for (const [projectName, config] of Object.entries(profiles.projects)) {
+      try {
+        validateConfig(config);
+      } catch (error) {
+        throw new Error(`Proyecto '${projectName}': ${(error as Error).message}`);
+      }
+    }
     
-    // Inicializar conexión
-    await initConnection(config);
+    // Inicializar conexión del proyecto por defecto (el resto se conectan bajo demanda)
+    await initConnections(profiles);
     
     // Crear e iniciar servidor
     const server = new SupabaseMCPServer();
@@ -1,75 +1,12 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
+import { BackupDatabaseArgs, BackupDatabaseSchema, RestoreDatabaseArgs, RestoreDatabaseSchema, EmptyArgsSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import { quoteIdentifier } from '../utils/sql.js';
 import fs from 'fs';
 import path from 'path';
 
-export const adminTools: Tool[] = [
-  {
-    name: 'get_database_stats',
-    description: 'Obtener estadísticas de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'get_user_stats',
-    description: 'Obtener estadísticas de usuarios',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'backup_database',
-    description: 'Crear backup de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tables: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tablas específicas a respaldar (opcional)'
-        },
-        format: {
-          type: 'string',
-          enum: ['sql', 'json'],
-          description: 'Formato del backup',
-          default: 'sql'
-        }
-      }
-    }
-  },
-  {
-    name: 'restore_database',
-    description: 'Restaurar backup de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        backupPath: {
-          type: 'string',
-          description: 'Ruta del archivo de backup'
-        },
-        dropExisting: {
-          type: 'boolean',
-          description: 'Eliminar datos existentes antes de restaurar',
-          default: false
-        }
-      },
-      required: ['backupPath']
-    }
-  },
-  {
-    name: 'get_system_info',
-    description: 'Obtener información del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  }
-];
-
 export const handleGetDatabaseStats = async () => {
   const connection = getConnection();
   
@@ -110,8 +47,8 @@ export const handleGetDatabaseStats = async () => {
       WHERE datname = current_database();`
     ];
     
-    const [dbInfo, tableCount, connections, transactionStats] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+    const [dbInfo, tableCount, connections, transactionStats] = await connection.withClient(client =>
+      Promise.all(queries.map(query => client.query(query)))
     );
     
     if (!dbInfo?.rows?.[0] || !tableCount?.rows?.[0] || !connections?.rows?.[0] || !transactionStats?.rows?.[0]) {
@@ -177,11 +114,7 @@ export const handleGetUserStats = async () => {
   }
 };
 
-export const handleBackupDatabase = async (args: unknown) => {
-  const { tables, format = 'sql' } = args as {
-    tables?: string[];
-    format?: 'sql' | 'json';
-  };
+export const handleBackupDatabase = async ({ tables, format }: BackupDatabaseArgs) => {
   const connection = getConnection();
   
   try {
@@ -194,69 +127,74 @@ export const handleBackupDatabase = async (args: unknown) => {
     }
     
     const backupPath = path.join(backupDir, `backup_${timestamp}.${format}`);
+    const requestedTables = (tables ?? []).map(table => sanitizeSQLIdentifier(table));
     
-    if (format === 'sql') {
-      // Backup SQL
-      let sqlContent = `-- Backup creado el ${new Date().toISOString()}\n\n`;
+    // Una sola transacción de solo lectura: ninguna sentencia del volcado puede escribir
+    await connection.withTransaction(async (client) => {
+      if (format === 'sql') {
+        // Backup SQL
+        let sqlContent = `-- Backup creado el ${new Date().toISOString()}\n\n`;
       
-      // Obtener lista de tablas
-      const tablesToBackup = tables || [];
-      if (tablesToBackup.length === 0) {
-        const tableResult = await connection.getPgClient().query(`
-          SELECT table_name 
-          FROM information_schema.tables 
-          WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
-        `);
-        tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
-      }
+        // Obtener lista de tablas
+        const tablesToBackup = [...requestedTables];
+        if (tablesToBackup.length === 0) {
+          const tableResult = await client.query(`
+            SELECT table_name 
+            FROM information_schema.tables 
+            WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
+          `);
+          tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
+        }
       
-      // Generar SQL para cada tabla
-      for (const table of tablesToBackup) {
-        const result = await connection.getPgClient().query(`SELECT * FROM ${table}`);
+        // Generar SQL para cada tabla
+        for (const table of tablesToBackup) {
+          const tableName = quoteIdentifier(table);
+          const result = await client.query(`SELECT * FROM ${tableName}`);
         
-        if (result.rows.length > 0) {
-          const columns = result.fields.map(field => field.name);
-          sqlContent += `-- Datos de la tabla ${table}\n`;
-          sqlContent += `DELETE FROM ${table};\n`;
+          if (result.rows.length > 0) {
+            const columns = result.fields.map(field => field.name);
+            sqlContent += `-- Datos de la tabla ${table}\n`;
+            sqlContent += `DELETE FROM ${tableName};\n`;
           
-          for (const row of result.rows) {
-            const values = columns.map(col => {
-              const value = row[col];
-              if (value === null) return 'NULL';
-              if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
-              return String(value);
-            });
-            sqlContent += `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${values.join(', ')});\n`;
+            for (const row of result.rows) {
+              const values = columns.map(col => {
+                const value = row[col];
+                if (value === null) return 'NULL';
+                if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+                return String(value);
+              });
+              sqlContent += `INSERT INTO ${tableName} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${values.join(', ')});\n`;
+            }
+            sqlContent += '\n';
           }
-          sqlContent += '\n';
         }
-      }
       
-      fs.writeFileSync(backupPath, sqlContent);
-    } else {
-      // Backup JSON
-      const backupData: any = {
-        timestamp: new Date().toISOString(),
-        tables: {}
-      };
+        fs.writeFileSync(backupPath, sqlContent);
+      } else {
+        // Backup JSON
+        const backupData: any = {
+          timestamp: new Date().toISOString(),
+          tables: {}
+        };
       
-      const tablesToBackup = tables || [];
-      if (tablesToBackup.length === 0) {
-        const tableResult = await connection.getPgClient().query(`
-          SELECT table_name 
-          FROM information_schema.tables 
-          WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
-        `);
-        tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
-      }
+        const tablesToBackup = [...requestedTables];
+        if (tablesToBackup.length === 0) {
+          const tableResult = await client.query(`
+            SELECT table_name 
+            FROM information_schema.tables 
+            WHERE table_schema = 'public' AND table_type = 'BASE TABLE';
+          `);
+          tablesToBackup.push(...tableResult.rows.map(row => row.table_name));
+        }
       
-      for (const table of tablesToBackup) {
-        const result = await connection.getPgClient().query(`SELECT * FROM ${table}`);
-        backupData.tables[table] = result.rows;
-      }
+        for (const table of tablesToBackup) {
+          const result = await client.query(`SELECT * FROM ${quoteIdentifier(table)}`);
+          backupData.tables[table] = result.rows;
+        }
       
-      fs.writeFileSync(backupPath, JSON.stringify(backupData, null, 2));
-    }
+        fs.writeFileSync(backupPath, JSON.stringify(backupData, null, 2));
+      }
+    }, { readOnly: true });
     
     logInfo(`Backup creado exitosamente: ${backupPath}`);
     
@@ -274,11 +212,7 @@ export const handleBackupDatabase = async (args: unknown) => {
   }
 };
 
-export const handleRestoreDatabase = async (args: unknown) => {
-  const { backupPath, dropExisting = false } = args as {
-    backupPath: string;
-    dropExisting?: boolean;
-  };
+export const handleRestoreDatabase = async ({ backupPath, dropExisting }: RestoreDatabaseArgs) => {
   const connection = getConnection();
   
   try {
@@ -292,36 +226,38 @@ export const handleRestoreDatabase = async (args: unknown) => {
     const backupContent = fs.readFileSync(backupPath, 'utf8');
     const format = path.extname(backupPath).slice(1);
     
-    if (format === 'sql') {
-      // Restaurar desde SQL
-      const statements = backupContent.split(';').filter(stmt => stmt.trim());
+    await connection.withClient(async (client) => {
+      if (format === 'sql') {
+        // Restaurar desde SQL
+        const statements = backupContent.split(';').filter(stmt => stmt.trim());
       
-      for (const statement of statements) {
-        if (statement.trim() && !statement.trim().startsWith('--')) {
-          await connection.getPgClient().query(statement);
+        for (const statement of statements) {
+          if (statement.trim() && !statement.trim().startsWith('--')) {
+            await client.query(statement);
+          }
         }
-      }
-    } else if (format === 'json') {
-      // Restaurar desde JSON
-      const backupData = JSON.parse(backupContent);
+      } else if (format === 'json') {
+        // Restaurar desde JSON
+        const backupData = JSON.parse(backupContent);
       
-      for (const [tableName, rows] of Object.entries(backupData.tables)) {
-        if (dropExisting) {
-          await connection.getPgClient().query(`DELETE FROM ${tableName}`);
-        }
+        for (const [tableName, rows] of Object.entries(backupData.tables)) {
+          if (dropExisting) {
+            await client.query(`DELETE FROM ${tableName}`);
+          }
         
-        for (const row of rows as any[]) {
-          const columns = Object.keys(row);
-          const values = columns.map(col => row[col]);
-          const placeholders = values.map((_, i) => `$${i + 1}`);
+          for (const row of rows as any[]) {
+            const columns = Object.keys(row);
+            const values = columns.map(col => row[col]);
+            const placeholders = values.map((_, i) => `$${i + 1}`);
           
-          await connection.getPgClient().query(
-            `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`,
-            values
-          );
+            await client.query(
+              `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`,
+              values
+            );
+          }
         }
       }
-    }
+    });
     
     logInfo(`Base de datos restaurada exitosamente desde: ${backupPath}`);
     
@@ -371,8 +307,8 @@ export const handleGetSystemInfo = async () => {
       );`
     ];
     
-    const [version, serverInfo, settings] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+    const [version, serverInfo, settings] = await connection.withClient(client =>
+      Promise.all(queries.map(query => client.query(query)))
     );
     
     if (!version?.rows?.[0] || !serverInfo?.rows?.[0] || !settings?.rows) {
@@ -395,4 +331,77 @@ export const handleGetSystemInfo = async () => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const handleGetConnectionHealth = async () => {
+  const connection = getConnection();
+  
+  try {
+    const health = await connection.checkHealth();
+    const { pool } = connection.getConfig();
+    
+    return {
+      success: true,
+      health,
+      poolConfig: pool
+    };
+  } catch (error) {
+    logError(error as Error, 'get_connection_health');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const adminTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_database_stats',
+    description: 'Obtener estadísticas de la base de datos',
+    schema: EmptyArgsSchema,
+    handler: handleGetDatabaseStats,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'get_user_stats',
+    description: 'Obtener estadísticas de usuarios',
+    schema: EmptyArgsSchema,
+    handler: handleGetUserStats,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'backup_database',
+    description: 'Crear backup de la base de datos',
+    schema: BackupDatabaseSchema,
+    handler: handleBackupDatabase,
+    // Escribe el fichero de backup en el servidor
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'restore_database',
+    description: 'Restaurar backup de la base de datos',
+    schema: RestoreDatabaseSchema,
+    handler: handleRestoreDatabase,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'get_system_info',
+    description: 'Obtener información del sistema',
+    schema: EmptyArgsSchema,
+    handler: handleGetSystemInfo,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'get_connection_health',
+    description: 'Comprobar la salud de la conexión y el estado del pool de PostgreSQL',
+    schema: EmptyArgsSchema,
+    handler: handleGetConnectionHealth,
+    readOnly: true,
+    destructive: false
+  })
+];
@@ -1,133 +1,10 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, isValidEmail, isValidPassword } from '../utils/validation.js';
-import { CreateAuthUserArgs, CreateAuthUserSchema } from '../types/mcp.js';
+import { isValidEmail, isValidPassword } from '../utils/validation.js';
+import { CreateAuthUserArgs, CreateAuthUserSchema, ListAuthUsersArgs, ListAuthUsersSchema, AuthUserIdArgs, AuthUserIdSchema, UpdateAuthUserArgs, UpdateAuthUserSchema, ResetUserPasswordArgs, ResetUserPasswordSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
 
-export const authTools: Tool[] = [
-  {
-    name: 'create_auth_user',
-    description: 'Crear un nuevo usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: {
-          type: 'string',
-          description: 'Email del usuario'
-        },
-        password: {
-          type: 'string',
-          description: 'Contraseña del usuario'
-        },
-        emailConfirm: {
-          type: 'boolean',
-          description: 'Confirmar email automáticamente',
-          default: false
-        },
-        role: {
-          type: 'string',
-          description: 'Rol del usuario',
-          default: 'authenticated'
-        }
-      },
-      required: ['email', 'password']
-    }
-  },
-  {
-    name: 'list_auth_users',
-    description: 'Listar todos los usuarios de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Límite de usuarios a devolver',
-          default: 100
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación',
-          default: 0
-        }
-      }
-    }
-  },
-  {
-    name: 'delete_auth_user',
-    description: 'Eliminar un usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario a eliminar'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'update_auth_user',
-    description: 'Actualizar un usuario de autenticación',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario'
-        },
-        email: {
-          type: 'string',
-          description: 'Nuevo email'
-        },
-        password: {
-          type: 'string',
-          description: 'Nueva contraseña'
-        },
-        emailConfirmed: {
-          type: 'boolean',
-          description: 'Estado de confirmación de email'
-        },
-        role: {
-          type: 'string',
-          description: 'Nuevo rol'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'get_auth_user',
-    description: 'Obtener información de un usuario específico',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'ID del usuario'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'reset_user_password',
-    description: 'Resetear la contraseña de un usuario',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: {
-          type: 'string',
-          description: 'Email del usuario'
-        }
-      },
-      required: ['email']
-    }
-  }
-];
-
-export const handleCreateAuthUser = async (args: unknown) => {
-  const { email, password, emailConfirm, role } = validateInput(CreateAuthUserSchema, args);
+export const handleCreateAuthUser = async ({ email, password, emailConfirm, role }: CreateAuthUserArgs) => {
   const connection = getConnection();
   
   try {
@@ -187,8 +64,7 @@ export const handleCreateAuthUser = async (args: unknown) => {
   }
 };
 
-export const handleListAuthUsers = async (args: unknown) => {
-  const { limit = 100, offset = 0 } = args as { limit?: number; offset?: number };
+export const handleListAuthUsers = async ({ limit, offset }: ListAuthUsersArgs) => {
   const connection = getConnection();
   
   try {
@@ -230,8 +106,7 @@ export const handleListAuthUsers = async (args: unknown) => {
   }
 };
 
-export const handleDeleteAuthUser = async (args: unknown) => {
-  const { userId } = args as { userId: string };
+export const handleDeleteAuthUser = async ({ userId }: AuthUserIdArgs) => {
   const connection = getConnection();
   
   try {
@@ -262,14 +137,7 @@ export const handleDeleteAuthUser = async (args: unknown) => {
   }
 };
 
-export const handleUpdateAuthUser = async (args: unknown) => {
-  const { userId, email, password, emailConfirmed, role } = args as {
-    userId: string;
-    email?: string;
-    password?: string;
-    emailConfirmed?: boolean;
-    role?: string;
-  };
+export const handleUpdateAuthUser = async ({ userId, email, password, emailConfirmed, role }: UpdateAuthUserArgs) => {
   const connection = getConnection();
   
   try {
@@ -325,8 +193,7 @@ export const handleUpdateAuthUser = async (args: unknown) => {
   }
 };
 
-export const handleGetAuthUser = async (args: unknown) => {
-  const { userId } = args as { userId: string };
+export const handleGetAuthUser = async ({ userId }: AuthUserIdArgs) => {
   const connection = getConnection();
   
   try {
@@ -362,8 +229,7 @@ export const handleGetAuthUser = async (args: unknown) => {
   }
 };
 
-export const handleResetUserPassword = async (args: unknown) => {
-  const { email } = args as { email: string };
+export const handleResetUserPassword = async ({ email }: ResetUserPasswordArgs) => {
   const connection = getConnection();
   
   try {
@@ -402,4 +268,55 @@ export const handleResetUserPassword = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const authTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_auth_user',
+    description: 'Crear un nuevo usuario de autenticación',
+    schema: CreateAuthUserSchema,
+    handler: handleCreateAuthUser,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_auth_users',
+    description: 'Listar todos los usuarios de autenticación',
+    schema: ListAuthUsersSchema,
+    handler: handleListAuthUsers,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'delete_auth_user',
+    description: 'Eliminar un usuario de autenticación',
+    schema: AuthUserIdSchema,
+    handler: handleDeleteAuthUser,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'update_auth_user',
+    description: 'Actualizar un usuario de autenticación',
+    schema: UpdateAuthUserSchema,
+    handler: handleUpdateAuthUser,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'get_auth_user',
+    description: 'Obtener información de un usuario específico',
+    schema: AuthUserIdSchema,
+    handler: handleGetAuthUser,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'reset_user_password',
+    description: 'Resetear la contraseña de un usuario',
+    schema: ResetUserPasswordSchema,
+    handler: handleResetUserPassword,
+    readOnly: false,
+    destructive: false
+  })
+];
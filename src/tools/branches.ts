@@ -0,0 +1,379 @@
+import { defineTool, ToolDefinition } from './registry.js';
+import { Client } from 'pg';
+import { getConnection } from '../utils/connection.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import {
+  BranchNameArgs,
+  BranchNameArgsSchema,
+  CreateBranchArgs,
+  CreateBranchSchema,
+  EmptyArgsSchema,
+  MergeBranchArgs,
+  MergeBranchSchema
+} from '../types/mcp.js';
+import { SchemaSnapshot } from '../types/supabase.js';
+import { logError, logInfo } from '../utils/logger.js';
+import { Queryable, introspectSchema } from '../utils/introspection.js';
+import { buildSchemaMigration, diffSchemas, retargetSnapshot } from '../utils/schema-diff.js';
+import { quoteIdentifier } from '../utils/sql.js';
+import { listMigrationFiles, nextMigrationVersion, slugifyMigrationName, writeMigration } from '../utils/migration-files.js';
+import {
+  BranchRecord,
+  CopiedTable,
+  branchConnectionString,
+  branchTarget,
+  cloneSchemaSQL,
+  copySampleData,
+  deleteBranchRecord,
+  ensureBranchRegistry,
+  findBranchConflicts,
+  getBranchRecord,
+  insertBranchRecord,
+  listBranchRecords
+} from '../utils/branches.js';
+
+// Conexión independiente a la base de datos de una rama
+const withBranchDatabase = async <T>(database: string, fn: (client: Client) => Promise<T>): Promise<T> => {
+  const client = new Client({ connectionString: branchConnectionString(getConnection().getConfig().dbUrl, database) });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+};
+
+const branchExists = async (client: Queryable, record: Pick<BranchRecord, 'kind' | 'target'>): Promise<boolean> => {
+  const result = record.kind === 'schema'
+    ? await client.query('SELECT 1 FROM pg_namespace WHERE nspname = $1;', [record.target])
+    : await client.query('SELECT 1 FROM pg_database WHERE datname = $1;', [record.target]);
+  return result.rows.length > 0;
+};
+
+// Estructura actual de la rama, proyectada sobre el esquema de origen
+const snapshotBranch = async (client: Queryable, record: BranchRecord): Promise<SchemaSnapshot> =>
+  record.kind === 'schema'
+    ? retargetSnapshot(await introspectSchema(client, record.target), record.sourceSchema)
+    : withBranchDatabase(record.target, branchClient => introspectSchema(branchClient, record.sourceSchema));
+
+// Cambios de la rama y del origen desde la creación de la rama
+const compareBranch = async (client: Queryable, record: BranchRecord) => {
+  const branch = await snapshotBranch(client, record);
+  const source = await introspectSchema(client, record.sourceSchema);
+  const migration = buildSchemaMigration(record.branchSnapshot, branch);
+  const sourceDiff = diffSchemas(record.sourceSnapshot, source);
+  return {
+    migration,
+    sourceDiff,
+    conflicts: findBranchConflicts(migration.diff.changes, sourceDiff.changes)
+  };
+};
+
+const dropBranchObjects = async (client: Queryable, record: Pick<BranchRecord, 'kind' | 'target'>): Promise<void> => {
+  await client.query(record.kind === 'schema'
+    ? `DROP SCHEMA IF EXISTS ${quoteIdentifier(record.target)} CASCADE;`
+    : `DROP DATABASE IF EXISTS ${quoteIdentifier(record.target)};`);
+};
+
+const loadBranch = async (client: Queryable, name: string): Promise<BranchRecord> => {
+  const record = await getBranchRecord(client, name);
+  if (!record) {
+    throw new Error(`La rama '${name}' no existe`);
+  }
+  return record;
+};
+
+export const handleCreateBranch = async ({ name, sourceSchema, kind, template, withData, sampleRows }: CreateBranchArgs) => {
+  const connection = getConnection();
+
+  try {
+    const source = sanitizeSQLIdentifier(sourceSchema || 'public');
+    const target = branchTarget(name);
+
+    return await connection.withClient(async (client) => {
+      await ensureBranchRegistry(client);
+      if (await getBranchRecord(client, name) || await branchExists(client, { kind, target })) {
+        return {
+          success: false,
+          error: `La rama '${name}' ya existe`
+        };
+      }
+
+      const sourceSnapshot = await introspectSchema(client, source);
+      if (sourceSnapshot.tables.length === 0 && sourceSnapshot.views.length === 0 && sourceSnapshot.functions.length === 0) {
+        return {
+          success: false,
+          error: `El esquema ${source} no existe o está vacío`
+        };
+      }
+
+      let warnings: string[] = [];
+      let copied: CopiedTable[] = [];
+      let branchSnapshot: SchemaSnapshot;
+
+      if (kind === 'schema') {
+        const clone = cloneSchemaSQL(sourceSnapshot, target);
+        warnings = clone.warnings;
+
+        await client.query('BEGIN');
+        try {
+          // Las referencias sin cualificar (secuencias de columnas serial, tablas en políticas) se resuelven en la rama
+          await client.query(`SET LOCAL search_path TO ${quoteIdentifier(target)}, public;`);
+          await client.query(clone.sql);
+          if (withData) {
+            const sample = await copySampleData(client, sourceSnapshot.tables, target, sampleRows);
+            copied = sample.copied;
+            if (sample.cycles.length > 0) {
+              warnings.push(`Claves foráneas circulares entre ${sample.cycles.join(', ')}: solo se copian las filas cuyo padre ya está en la rama`);
+            }
+          }
+          branchSnapshot = retargetSnapshot(await introspectSchema(client, target), source);
+          await insertBranchRecord(client, { name, kind, target, sourceSchema: source, withData, sourceSnapshot, branchSnapshot });
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw error;
+        }
+      } else {
+        // CREATE DATABASE no se puede ejecutar dentro de una transacción
+        const templateClause = template ? ` TEMPLATE ${quoteIdentifier(sanitizeSQLIdentifier(template))}` : '';
+        await client.query(`CREATE DATABASE ${quoteIdentifier(target)}${templateClause};`);
+        try {
+          if (!template) {
+            // Sin plantilla la base de datos nace vacía: se recrea solo la estructura del esquema
+            const clone = buildSchemaMigration({ schema: source, tables: [], views: [], functions: [] }, sourceSnapshot);
+            warnings = clone.diff.warnings;
+            await withBranchDatabase(target, async (branchClient) => {
+              await branchClient.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(source)};\n${clone.up}`);
+            });
+          }
+          branchSnapshot = await withBranchDatabase(target, branchClient => introspectSchema(branchClient, source));
+          await insertBranchRecord(client, { name, kind, target, sourceSchema: source, withData: !!template, sourceSnapshot, branchSnapshot });
+        } catch (error) {
+          await dropBranchObjects(client, { kind, target });
+          throw error;
+        }
+      }
+
+      logInfo(`Rama '${name}' creada en ${kind === 'schema' ? 'el esquema' : 'la base de datos'} ${target}`);
+
+      return {
+        success: true,
+        branch: {
+          name,
+          kind,
+          target,
+          sourceSchema: source,
+          template: template ?? null,
+          ...(kind === 'database' ? { connectionString: branchConnectionString(connection.getConfig().dbUrl, target) } : {}),
+          tables: branchSnapshot.tables.length,
+          views: branchSnapshot.views.length,
+          functions: branchSnapshot.functions.length
+        },
+        copied,
+        warnings,
+        message: `Rama '${name}' creada en ${kind === 'schema' ? 'el esquema' : 'la base de datos'} ${target}`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'create_branch');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleListBranches = async () => {
+  const connection = getConnection();
+
+  try {
+    return await connection.withClient(async (client) => {
+      const records = await listBranchRecords(client);
+
+      const branches = [];
+      for (const record of records) {
+        branches.push({
+          name: record.name,
+          kind: record.kind,
+          target: record.target,
+          sourceSchema: record.sourceSchema,
+          withData: record.withData,
+          createdAt: record.createdAt,
+          // false si el esquema o la base de datos se eliminó fuera de drop_branch
+          exists: await branchExists(client, record)
+        });
+      }
+
+      return {
+        success: true,
+        branches,
+        count: branches.length
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'list_branches');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleDiffBranch = async ({ name }: BranchNameArgs) => {
+  const connection = getConnection();
+
+  try {
+    return await connection.withClient(async (client) => {
+      const record = await loadBranch(client, name);
+      const { migration, sourceDiff, conflicts } = await compareBranch(client, record);
+
+      return {
+        success: true,
+        branch: name,
+        diff: migration.diff,
+        migration: {
+          up: migration.up,
+          down: migration.down
+        },
+        sourceChanged: !sourceDiff.identical,
+        sourceChanges: sourceDiff.changes,
+        conflicts
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'diff_branch');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleMergeBranch = async ({ name, migrationName, force, dropBranch }: MergeBranchArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+
+    return await connection.withClient(async (client) => {
+      const record = await loadBranch(client, name);
+      const { migration, sourceDiff, conflicts } = await compareBranch(client, record);
+
+      if (migration.diff.identical) {
+        return {
+          success: false,
+          error: `La rama '${name}' no tiene cambios respecto al momento en que se creó`
+        };
+      }
+      if (conflicts.length > 0 && !force) {
+        return {
+          success: false,
+          error: `El esquema ${record.sourceSchema} cambió los mismos objetos que la rama; revisa los conflictos o usa force`,
+          conflicts
+        };
+      }
+
+      const slug = slugifyMigrationName(migrationName ?? `merge_${name}`);
+      const version = nextMigrationVersion(listMigrationFiles(migrations).map(file => file.version));
+      const file = writeMigration(migrations, version, slug, migration.up, migration.down || undefined);
+
+      if (dropBranch) {
+        await dropBranchObjects(client, record);
+        await deleteBranchRecord(client, name);
+      }
+
+      logInfo(`Rama '${name}' convertida en la migración '${file.fileName}'`);
+
+      return {
+        success: true,
+        migration: {
+          version,
+          name: slug,
+          path: file.path,
+          rollbackPath: file.rollbackPath ?? null
+        },
+        diff: migration.diff,
+        sourceChanged: !sourceDiff.identical,
+        conflicts,
+        branchDropped: dropBranch,
+        message: `Rama '${name}' convertida en la migración '${file.fileName}'; aplícala con apply_migration o migrate_up`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'merge_branch');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleDropBranch = async ({ name }: BranchNameArgs) => {
+  const connection = getConnection();
+
+  try {
+    return await connection.withClient(async (client) => {
+      // Solo se eliminan esquemas y bases de datos registrados como ramas
+      const record = await loadBranch(client, name);
+      await dropBranchObjects(client, record);
+      await deleteBranchRecord(client, name);
+
+      logInfo(`Rama '${name}' eliminada`);
+
+      return {
+        success: true,
+        message: `Rama '${name}' eliminada (${record.kind === 'schema' ? 'esquema' : 'base de datos'} ${record.target})`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'drop_branch');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const branchTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_branch',
+    description: 'Crear una rama desechable: clonar la estructura de un esquema (y opcionalmente una muestra de datos) en un esquema branch_<nombre> o en una base de datos nueva a partir de una plantilla',
+    schema: CreateBranchSchema,
+    handler: handleCreateBranch,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_branches',
+    description: 'Listar las ramas creadas con create_branch',
+    schema: EmptyArgsSchema,
+    handler: handleListBranches,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'diff_branch',
+    description: 'Mostrar los cambios de estructura de una rama desde su creación, el SQL up/down equivalente y los conflictos con cambios del esquema de origen',
+    schema: BranchNameArgsSchema,
+    handler: handleDiffBranch,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'merge_branch',
+    description: 'Convertir los cambios de una rama en una migración nueva del directorio de migraciones (sin aplicarla)',
+    schema: MergeBranchSchema,
+    handler: handleMergeBranch,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'drop_branch',
+    description: 'Eliminar una rama y su esquema o base de datos',
+    schema: BranchNameArgsSchema,
+    handler: handleDropBranch,
+    readOnly: false,
+    destructive: true
+  })
+];
@@ -1,186 +1,160 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
+import { FieldDef } from 'pg';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { DatabaseQueryArgs, DatabaseQuerySchema, CreateTableArgs, CreateTableSchema } from '../types/mcp.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import { DatabaseQueryArgs, DatabaseQuerySchema, CloseQueryCursorArgs, CloseQueryCursorSchema, CreateTableArgs, CreateTableSchema, AlterTableArgs, AlterTableSchema, ListTablesArgs, ListTablesSchema, DescribeTableArgs, DescribeTableSchema, DropTableArgs, DropTableSchema, CreateIndexArgs, CreateIndexSchema, ExplainQueryArgs, ExplainQuerySchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
+import { classifySQL, STATEMENT_CLASSES, StatementClass } from '../utils/sql.js';
+import { introspectTable } from '../utils/introspection.js';
+import { buildAlterTableStatement, buildCreateTableStatement, buildUpdatedAtTrigger } from '../utils/ddl.js';
+import { formatRows, ResultFormat } from '../utils/result-format.js';
+import { CursorManager } from '../utils/cursors.js';
+import { parseExplainOutput, findSeqScans, findMisestimates, walkPlan } from '../utils/query-plan.js';
 
-export const databaseTools: Tool[] = [
-  {
-    name: 'database_query',
-    description: 'Ejecutar consultas SQL en la base de datos de Supabase',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'La consulta SQL a ejecutar'
-        },
-        params: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Parámetros para la consulta SQL'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['query']
-    }
-  },
-  {
-    name: 'create_table',
-    description: 'Crear una nueva tabla en la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        columns: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              name: { type: 'string' },
-              type: { type: 'string' },
-              nullable: { type: 'boolean', default: true },
-              defaultValue: { type: 'string' },
-              isUnique: { type: 'boolean', default: false },
-              isPrimaryKey: { type: 'boolean', default: false }
-            },
-            required: ['name', 'type']
-          }
-        },
-        enableRLS: {
-          type: 'boolean',
-          description: 'Habilitar Row Level Security',
-          default: true
-        }
-      },
-      required: ['name', 'columns']
-    }
-  },
-  {
-    name: 'list_tables',
-    description: 'Listar todas las tablas en la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      }
+// Clases permitidas: las pedidas en la llamada, limitadas a lectura en modo de solo lectura
+const resolveAllowedClasses = (readOnly: boolean, requested?: StatementClass[]): StatementClass[] => {
+  const base = requested && requested.length > 0 ? requested : STATEMENT_CLASSES;
+  return readOnly ? base.filter(cls => cls === 'read') : base;
+};
+
+// Sentencias de lectura que se pueden recorrer con un cursor de servidor
+const PAGINABLE_COMMANDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+
+const describeFields = (fields: FieldDef[] | undefined) =>
+  fields?.map(field => ({
+    name: field.name,
+    dataTypeID: field.dataTypeID
+  }));
+
+// Leer una página del cursor ajustada al tamaño máximo; lo que no cabe queda para la siguiente llamada
+const readCursorPage = async (cursors: CursorManager, id: string, limit: number, format: ResultFormat | undefined, maxBytes: number) => {
+  const page = await cursors.next(id, limit);
+  const resultFormat = format ?? page.format;
+  const formatted = formatRows(page.rows, page.fields.map(field => field.name), resultFormat, maxBytes);
+  
+  cursors.giveBack(id, page.rows.slice(formatted.count));
+  const hasMore = page.hasMore || formatted.truncated;
+  if (!hasMore) {
+    await cursors.close(id);
+  }
+  
+  return {
+    rowCount: formatted.count,
+    format: resultFormat,
+    ...(resultFormat === 'json' ? { rows: formatted.data } : { data: formatted.data }),
+    fields: describeFields(page.fields),
+    page: {
+      offset: page.offset,
+      size: formatted.count,
+      bytes: formatted.bytes,
+      truncatedBySize: formatted.truncated,
+      hasMore,
+      cursor: hasMore ? id : null,
+      expiresAt: hasMore ? cursors.expiresAt(id) : null
     }
-  },
-  {
-    name: 'describe_table',
-    description: 'Obtener información detallada de una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['tableName']
+  };
+};
+
+export const handleDatabaseQuery = async ({ query, params, schema, allow, limit, cursor, format, maxResponseBytes }: DatabaseQueryArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const { readOnly, results } = connection.getConfig();
+    const cursors = connection.getCursors();
+    const pageSize = limit ?? results.pageSize;
+    const maxBytes = Math.min(maxResponseBytes ?? results.maxResponseBytes, results.maxResponseBytes);
+    
+    // Continuar una consulta paginada
+    if (cursor) {
+      return {
+        success: true,
+        command: 'FETCH',
+        ...await readCursorPage(cursors, cursor, pageSize, format, maxBytes)
+      };
     }
-  },
-  {
-    name: 'drop_table',
-    description: 'Eliminar una tabla de la base de datos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla a eliminar'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
+    
+    const sql = query ?? '';
+    const allowedClasses = resolveAllowedClasses(readOnly, allow);
+    const statements = classifySQL(sql);
+    const blocked = statements.find(statement => !allowedClasses.includes(statement.class));
+    
+    if (blocked) {
+      logInfo(`Sentencia bloqueada (${blocked.class}): ${blocked.command}`, 'database_query');
+      return {
+        success: false,
+        error: `Sentencia ${blocked.index + 1} bloqueada: ${blocked.command} está clasificada como '${blocked.class}' y solo se permite ${allowedClasses.join(', ') || 'ninguna clase'}`,
+        blocked: {
+          index: blocked.index,
+          statement: blocked.statement,
+          command: blocked.command,
+          class: blocked.class,
+          reason: blocked.reason
         },
-        cascade: {
-          type: 'boolean',
-          description: 'Usar CASCADE para eliminar dependencias',
-          default: false
-        }
-      },
-      required: ['tableName']
+        allowedClasses,
+        readOnly
+      };
     }
-  },
-  {
-    name: 'create_index',
-    description: 'Crear un índice en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        columns: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Columnas para el índice'
-        },
-        indexName: {
-          type: 'string',
-          description: 'Nombre del índice (opcional)'
-        },
-        unique: {
-          type: 'boolean',
-          description: 'Crear índice único',
-          default: false
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['tableName', 'columns']
+    
+    logInfo(`Ejecutando consulta en esquema ${schema}: ${sql.substring(0, 100)}...`);
+    
+    const statementSummary = statements.map(statement => ({
+      command: statement.command,
+      class: statement.class
+    }));
+    
+    // Una única lectura se sirve con un cursor de servidor para no cargar todo el resultado en memoria
+    const single = statements.length === 1 ? statements[0] : undefined;
+    if (single && single.class === 'read' && PAGINABLE_COMMANDS.has(single.command) && results.maxOpenCursors > 0) {
+      const id = await cursors.open(single.statement, params, { readOnly, format: format ?? 'json' });
+      return {
+        success: true,
+        command: single.command,
+        statements: statementSummary,
+        ...await readCursorPage(cursors, id, pageSize, format, maxBytes)
+      };
     }
+    
+    // En modo de solo lectura, las funciones con efectos secundarios también fallan dentro de una transacción READ ONLY
+    const result = readOnly
+      ? await connection.withTransaction(client => client.query(sql, params), { readOnly: true })
+      : await connection.query(sql, params);
+    
+    const resultFormat = format ?? 'json';
+    const formatted = formatRows(result.rows ?? [], result.fields?.map(field => field.name) ?? [], resultFormat, maxBytes);
+    
+    return {
+      success: true,
+      rowCount: result.rowCount,
+      ...(resultFormat === 'json' ? { rows: formatted.data } : { data: formatted.data }),
+      format: resultFormat,
+      command: result.command,
+      statements: statementSummary,
+      fields: describeFields(result.fields),
+      // Sin cursor no hay continuación: las filas que no caben se descartan
+      ...(formatted.truncated ? { truncated: true, returnedRows: formatted.count } : {})
+    };
+  } catch (error) {
+    logError(error as Error, 'database_query');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
   }
-];
+};
 
-export const handleDatabaseQuery = async (args: unknown) => {
-  const { query, params, schema } = validateInput(DatabaseQuerySchema, args);
+export const handleCloseQueryCursor = async ({ cursor }: CloseQueryCursorArgs) => {
   const connection = getConnection();
   
   try {
-    logInfo(`Ejecutando consulta en esquema ${schema}: ${query.substring(0, 100)}...`);
-    
-    const result = await connection.getPgClient().query(query, params);
+    const closed = await connection.getCursors().close(cursor);
     
     return {
       success: true,
-      rowCount: result.rowCount,
-      rows: result.rows,
-      command: result.command,
-      fields: result.fields?.map(field => ({
-        name: field.name,
-        dataTypeID: field.dataTypeID
-      }))
+      closed,
+      message: closed ? 'Cursor cerrado' : 'El cursor no existe o ya estaba cerrado'
     };
   } catch (error) {
-    logError(error as Error, 'database_query');
+    logError(error as Error, 'close_query_cursor');
     return {
       success: false,
       error: (error as Error).message
@@ -188,61 +162,114 @@ export const handleDatabaseQuery = async (args: unknown) => {
   }
 };
 
-export const handleCreateTable = async (args: unknown) => {
-  const { name, schema, columns, enableRLS } = validateInput(CreateTableSchema, args);
+export const handleCreateTable = async (args: CreateTableArgs) => {
+  const { name, schema, enableRLS, timestamps } = args;
   const connection = getConnection();
   
   try {
     const sanitizedName = sanitizeSQLIdentifier(name);
     const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
     
-    // Construir la consulta CREATE TABLE
-    const columnDefinitions = columns.map(col => {
-      const colName = sanitizeSQLIdentifier(col.name);
-      let definition = `${colName} ${col.type}`;
-      
-      if (!col.nullable) {
-        definition += ' NOT NULL';
-      }
-      
-      if (col.defaultValue) {
-        definition += ` DEFAULT ${col.defaultValue}`;
+    // Construir la consulta CREATE TABLE con columnas y restricciones de tabla
+    const createTableQuery = buildCreateTableStatement(args, sanitizedSchema, sanitizedName);
+    
+    await connection.withTransaction(async (client) => {
+      // CREATE TABLE IF NOT EXISTS no toca una tabla existente: el trigger se instalaría sobre columnas que quizá no tiene
+      if (timestamps) {
+        const existing = await client.query<{ exists: boolean }>(
+          'SELECT to_regclass($1) IS NOT NULL AS exists;',
+          [`${sanitizedSchema}.${sanitizedName}`]
+        );
+        if (existing.rows[0]?.exists) {
+          throw new Error(`La tabla ${sanitizedSchema}.${sanitizedName} ya existe; timestamps solo se aplica al crearla, usa alter_table para añadir las columnas`);
+        }
       }
+
+      await client.query(createTableQuery);
       
-      if (col.isUnique) {
-        definition += ' UNIQUE';
+      // Mantener updated_at en cada UPDATE
+      if (timestamps) {
+        for (const statement of buildUpdatedAtTrigger(sanitizedSchema, sanitizedName)) {
+          await client.query(statement);
+        }
       }
       
-      if (col.isPrimaryKey) {
-        definition += ' PRIMARY KEY';
+      // Habilitar RLS si se especifica
+      if (enableRLS) {
+        const enableRLSQuery = `ALTER TABLE ${sanitizedSchema}.${sanitizedName} ENABLE ROW LEVEL SECURITY;`;
+        await client.query(enableRLSQuery);
       }
-      
-      return definition;
-    }).join(', ');
+    });
     
-    const createTableQuery = `
-      CREATE TABLE IF NOT EXISTS ${sanitizedSchema}.${sanitizedName} (
-        ${columnDefinitions}
-      );
-    `;
+    logInfo(`Tabla ${sanitizedSchema}.${sanitizedName} creada exitosamente`);
+    
+    return {
+      success: true,
+      message: `Tabla ${sanitizedSchema}.${sanitizedName} creada exitosamente`,
+      rlsEnabled: enableRLS,
+      timestamps,
+      statement: createTableQuery
+    };
+  } catch (error) {
+    logError(error as Error, 'create_table');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleAlterTable = async ({ tableName, schema, operations, dryRun }: AlterTableArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedTable = sanitizeSQLIdentifier(tableName);
+    const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
     
-    await connection.getPgClient().query(createTableQuery);
+    // Generar todo el SQL antes de tocar la base de datos: una operación inválida no ejecuta nada
+    const statements = operations.map(operation => buildAlterTableStatement(sanitizedSchema, sanitizedTable, operation));
     
-    // Habilitar RLS si se especifica
-    if (enableRLS) {
-      const enableRLSQuery = `ALTER TABLE ${sanitizedSchema}.${sanitizedName} ENABLE ROW LEVEL SECURITY;`;
-      await connection.getPgClient().query(enableRLSQuery);
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        statements
+      };
     }
     
-    logInfo(`Tabla ${sanitizedSchema}.${sanitizedName} creada exitosamente`);
+    let current = 0;
+    try {
+      await connection.withTransaction(async (client) => {
+        for (; current < statements.length; current++) {
+          await client.query(statements[current]!);
+        }
+      });
+    } catch (error) {
+      logError(error as Error, 'alter_table');
+      return {
+        success: false,
+        error: (error as Error).message,
+        failedOperation: {
+          index: current,
+          action: operations[current]?.action,
+          statement: statements[current]
+        },
+        message: 'Ninguna operación se ha aplicado (transacción revertida)'
+      };
+    }
+    
+    const table = await connection.withClient(client => introspectTable(client, sanitizedSchema, sanitizedTable));
+    
+    logInfo(`Tabla ${sanitizedSchema}.${sanitizedTable} modificada (${statements.length} operaciones)`);
     
     return {
       success: true,
-      message: `Tabla ${sanitizedSchema}.${sanitizedName} creada exitosamente`,
-      rlsEnabled: enableRLS
+      message: `Tabla ${sanitizedSchema}.${sanitizedTable} modificada exitosamente`,
+      statements,
+      table
     };
   } catch (error) {
-    logError(error as Error, 'create_table');
+    logError(error as Error, 'alter_table');
     return {
       success: false,
       error: (error as Error).message
@@ -250,8 +277,7 @@ export const handleCreateTable = async (args: unknown) => {
   }
 };
 
-export const handleListTables = async (args: unknown) => {
-  const { schema = 'public' } = args as { schema?: string };
+export const handleListTables = async ({ schema }: ListTablesArgs) => {
   const connection = getConnection();
   
   try {
@@ -267,7 +293,7 @@ export const handleListTables = async (args: unknown) => {
       ORDER BY table_name;
     `;
     
-    const result = await connection.getPgClient().query(query, [sanitizedSchema]);
+    const result = await connection.query(query, [sanitizedSchema]);
     
     return {
       success: true,
@@ -282,33 +308,25 @@ export const handleListTables = async (args: unknown) => {
   }
 };
 
-export const handleDescribeTable = async (args: unknown) => {
-  const { tableName, schema = 'public' } = args as { tableName: string; schema?: string };
+export const handleDescribeTable = async ({ tableName, schema }: DescribeTableArgs) => {
   const connection = getConnection();
   
   try {
     const sanitizedTable = sanitizeSQLIdentifier(tableName);
     const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
     
-    const query = `
-      SELECT 
-        column_name,
-        data_type,
-        is_nullable,
-        column_default,
-        character_maximum_length,
-        numeric_precision,
-        numeric_scale
-      FROM information_schema.columns 
-      WHERE table_schema = $1 AND table_name = $2
-      ORDER BY ordinal_position;
-    `;
+    const table = await connection.withClient(client => introspectTable(client, sanitizedSchema, sanitizedTable));
     
-    const result = await connection.getPgClient().query(query, [sanitizedSchema, sanitizedTable]);
+    if (!table) {
+      return {
+        success: false,
+        error: `La tabla ${sanitizedSchema}.${sanitizedTable} no existe`
+      };
+    }
     
     return {
       success: true,
-      columns: result.rows
+      table
     };
   } catch (error) {
     logError(error as Error, 'describe_table');
@@ -319,12 +337,7 @@ export const handleDescribeTable = async (args: unknown) => {
   }
 };
 
-export const handleDropTable = async (args: unknown) => {
-  const { tableName, schema = 'public', cascade = false } = args as { 
-    tableName: string; 
-    schema?: string; 
-    cascade?: boolean; 
-  };
+export const handleDropTable = async ({ tableName, schema, cascade }: DropTableArgs) => {
   const connection = getConnection();
   
   try {
@@ -333,7 +346,7 @@ export const handleDropTable = async (args: unknown) => {
     
     const query = `DROP TABLE IF EXISTS ${sanitizedSchema}.${sanitizedTable}${cascade ? ' CASCADE' : ''};`;
     
-    await connection.getPgClient().query(query);
+    await connection.query(query);
     
     logInfo(`Tabla ${sanitizedSchema}.${sanitizedTable} eliminada exitosamente`);
     
@@ -350,14 +363,7 @@ export const handleDropTable = async (args: unknown) => {
   }
 };
 
-export const handleCreateIndex = async (args: unknown) => {
-  const { tableName, columns, indexName, unique = false, schema = 'public' } = args as {
-    tableName: string;
-    columns: string[];
-    indexName?: string;
-    unique?: boolean;
-    schema?: string;
-  };
+export const handleCreateIndex = async ({ tableName, columns, indexName, unique, schema }: CreateIndexArgs) => {
   const connection = getConnection();
   
   try {
@@ -373,7 +379,7 @@ export const handleCreateIndex = async (args: unknown) => {
       ON ${sanitizedSchema}.${sanitizedTable} (${sanitizedColumns.join(', ')});
     `;
     
-    await connection.getPgClient().query(query);
+    await connection.query(query);
     
     logInfo(`Índice ${sanitizedIndexName} creado exitosamente`);
     
@@ -389,4 +395,205 @@ export const handleCreateIndex = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+const EXPLAINABLE_CLASSES: StatementClass[] = ['read', 'write'];
+
+export const handleExplainQuery = async ({ query, params, analyze, buffers, seqScanThreshold, schema }: ExplainQueryArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
+    const statements = classifySQL(query);
+    
+    if (statements.length !== 1) {
+      return {
+        success: false,
+        error: `explain_query analiza una única sentencia y se recibieron ${statements.length}`
+      };
+    }
+    
+    const statement = statements[0]!;
+    if (!EXPLAINABLE_CLASSES.includes(statement.class)) {
+      return {
+        success: false,
+        error: `No se puede analizar ${statement.command}: solo se admiten sentencias de lectura o escritura de datos`
+      };
+    }
+    
+    const options = ['FORMAT JSON', 'VERBOSE'];
+    if (analyze) {
+      options.push('ANALYZE');
+      if (buffers) {
+        options.push('BUFFERS');
+      }
+    }
+    const explainQuery = `EXPLAIN (${options.join(', ')}) ${statement.statement}`;
+    const { readOnly } = connection.getConfig();
+    
+    const analysis = await connection.withClient(async (client) => {
+      // Siempre se revierte: con ANALYZE la sentencia se ejecuta de verdad
+      await client.query(readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+      try {
+        if (sanitizedSchema !== 'public') {
+          await client.query(`SET LOCAL search_path TO ${sanitizedSchema}, public`);
+        }
+        
+        const explained = await client.query(explainQuery, params);
+        const plan = parseExplainOutput(explained.rows[0]?.['QUERY PLAN']);
+        
+        // Tamaño estimado de las relaciones escaneadas
+        const relations = new Set<string>();
+        walkPlan(plan.root, node => {
+          if (node.relation) {
+            relations.add(`${node.schema ?? sanitizedSchema}.${node.relation}`);
+          }
+        });
+        
+        const sizes = await client.query(`
+          SELECT n.nspname || '.' || c.relname AS relation, GREATEST(c.reltuples, 0)::bigint AS estimated_rows
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE n.nspname || '.' || c.relname = ANY($1::text[]);
+        `, [Array.from(relations)]);
+        const tableRows = new Map<string, number>(sizes.rows.map(row => [row.relation, Number(row.estimated_rows)]));
+        
+        const seqScans = findSeqScans(plan, tableRows, seqScanThreshold, sanitizedSchema);
+        
+        // Proponer un índice por escaneo, descartando columnas inexistentes y los que ya tienen un índice con ese prefijo
+        const suggestions = [];
+        for (const scan of seqScans) {
+          const table = await introspectTable(client, scan.schema, scan.table);
+          const tableColumns = new Set(table?.columns.map(col => col.name) ?? []);
+          const columns = scan.filterColumns.filter(col => tableColumns.has(col)).slice(0, 3);
+          const alreadyIndexed = (table?.indexes ?? []).some(index => index.columns[0] === columns[0]);
+          
+          if (columns.length === 0 || alreadyIndexed) {
+            continue;
+          }
+          
+          suggestions.push({
+            schema: scan.schema,
+            table: scan.table,
+            columns,
+            reason: `Escaneo secuencial sobre ~${tableRows.get(`${scan.schema}.${scan.table}`)} filas filtrando por ${columns.join(', ')}`,
+            // Argumentos listos para create_index
+            createIndex: {
+              tableName: scan.table,
+              columns,
+              schema: scan.schema
+            }
+          });
+        }
+        
+        return { plan, seqScans, suggestions };
+      } finally {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+    });
+    
+    return {
+      success: true,
+      analyzed: analyze,
+      rolledBack: analyze && statement.class === 'write',
+      statement: {
+        command: statement.command,
+        class: statement.class
+      },
+      planningTimeMs: analysis.plan.planningTimeMs,
+      executionTimeMs: analysis.plan.executionTimeMs,
+      plan: analysis.plan.root,
+      triggers: analysis.plan.triggers,
+      seqScans: analysis.seqScans,
+      misestimates: findMisestimates(analysis.plan).map(node => ({
+        nodeType: node.nodeType,
+        relation: node.relation,
+        planRows: node.planRows,
+        actualRows: node.actualRows
+      })),
+      suggestions: analysis.suggestions
+    };
+  } catch (error) {
+    logError(error as Error, 'explain_query');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const databaseTools: ToolDefinition[] = [
+  defineTool({
+    name: 'database_query',
+    description: 'Ejecutar consultas SQL en la base de datos de Supabase; las lecturas se paginan con un cursor de servidor y la respuesta se limita en tamaño (json, csv o ndjson)',
+    schema: DatabaseQuerySchema,
+    handler: handleDatabaseQuery,
+    readOnly: false,
+    destructive: true,
+    enforcesReadOnly: true
+  }),
+  defineTool({
+    name: 'close_query_cursor',
+    description: 'Cerrar un cursor de database_query sin leer el resto de páginas',
+    schema: CloseQueryCursorSchema,
+    handler: handleCloseQueryCursor,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'create_table',
+    description: 'Crear una nueva tabla con claves primarias compuestas, claves foráneas, restricciones UNIQUE/CHECK, particionado y columnas created_at/updated_at opcionales',
+    schema: CreateTableSchema,
+    handler: handleCreateTable,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'alter_table',
+    description: 'Modificar una tabla: añadir, eliminar, renombrar o cambiar el tipo de columnas, defaults, NOT NULL y restricciones, en una sola transacción',
+    schema: AlterTableSchema,
+    handler: handleAlterTable,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'list_tables',
+    description: 'Listar todas las tablas en la base de datos',
+    schema: ListTablesSchema,
+    handler: handleListTables,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'describe_table',
+    description: 'Obtener la definición completa de una tabla: columnas, claves primaria y foráneas, restricciones, índices, triggers, RLS y tamaño',
+    schema: DescribeTableSchema,
+    handler: handleDescribeTable,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'drop_table',
+    description: 'Eliminar una tabla de la base de datos',
+    schema: DropTableSchema,
+    handler: handleDropTable,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'create_index',
+    description: 'Crear un índice en una tabla',
+    schema: CreateIndexSchema,
+    handler: handleCreateIndex,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'explain_query',
+    description: 'Analizar el plan de ejecución de una consulta (EXPLAIN en JSON, con ANALYZE y BUFFERS opcionales), detectar escaneos secuenciales en tablas grandes y sugerir índices',
+    schema: ExplainQuerySchema,
+    handler: handleExplainQuery,
+    readOnly: true,
+    destructive: false
+  })
+];
@@ -1,88 +1,9 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput } from '../utils/validation.js';
-import { CreateEdgeFunctionArgs, CreateEdgeFunctionSchema } from '../types/mcp.js';
+import { CreateEdgeFunctionArgs, CreateEdgeFunctionSchema, EdgeFunctionNameArgs, EdgeFunctionNameSchema, InvokeEdgeFunctionArgs, InvokeEdgeFunctionSchema, EmptyArgsSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
 
-export const edgeFunctionTools: Tool[] = [
-  {
-    name: 'create_edge_function',
-    description: 'Crear una nueva Edge Function',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la función'
-        },
-        source: {
-          type: 'string',
-          description: 'Código fuente de la función'
-        },
-        importMap: {
-          type: 'object',
-          description: 'Mapa de importaciones',
-          additionalProperties: { type: 'string' }
-        },
-        verifyJWT: {
-          type: 'boolean',
-          description: 'Verificar JWT en las peticiones',
-          default: true
-        }
-      },
-      required: ['name', 'source']
-    }
-  },
-  {
-    name: 'list_edge_functions',
-    description: 'Listar todas las Edge Functions',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'delete_edge_function',
-    description: 'Eliminar una Edge Function',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la función'
-        }
-      },
-      required: ['name']
-    }
-  },
-  {
-    name: 'invoke_edge_function',
-    description: 'Invocar una Edge Function',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la función'
-        },
-        payload: {
-          type: 'object',
-          description: 'Payload a enviar a la función',
-          additionalProperties: true
-        },
-        headers: {
-          type: 'object',
-          description: 'Headers HTTP adicionales',
-          additionalProperties: { type: 'string' }
-        }
-      },
-      required: ['name']
-    }
-  }
-];
-
-export const handleCreateEdgeFunction = async (args: unknown) => {
-  const { name, source, importMap, verifyJWT } = validateInput(CreateEdgeFunctionSchema, args);
+export const handleCreateEdgeFunction = async ({ name, source, importMap, verifyJWT }: CreateEdgeFunctionArgs) => {
   const connection = getConnection();
   
   try {
@@ -127,8 +48,7 @@ export const handleListEdgeFunctions = async () => {
   }
 };
 
-export const handleDeleteEdgeFunction = async (args: unknown) => {
-  const { name } = args as { name: string };
+export const handleDeleteEdgeFunction = async ({ name }: EdgeFunctionNameArgs) => {
   const connection = getConnection();
   
   try {
@@ -150,12 +70,7 @@ export const handleDeleteEdgeFunction = async (args: unknown) => {
   }
 };
 
-export const handleInvokeEdgeFunction = async (args: unknown) => {
-  const { name, payload, headers } = args as {
-    name: string;
-    payload?: any;
-    headers?: Record<string, string>;
-  };
+export const handleInvokeEdgeFunction = async ({ name, payload, headers }: InvokeEdgeFunctionArgs) => {
   const connection = getConnection();
   
   try {
@@ -196,4 +111,39 @@ export const handleInvokeEdgeFunction = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const edgeFunctionTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_edge_function',
+    description: 'Crear una nueva Edge Function',
+    schema: CreateEdgeFunctionSchema,
+    handler: handleCreateEdgeFunction,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_edge_functions',
+    description: 'Listar todas las Edge Functions',
+    schema: EmptyArgsSchema,
+    handler: handleListEdgeFunctions,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'delete_edge_function',
+    description: 'Eliminar una Edge Function',
+    schema: EdgeFunctionNameSchema,
+    handler: handleDeleteEdgeFunction,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'invoke_edge_function',
+    description: 'Invocar una Edge Function',
+    schema: InvokeEdgeFunctionSchema,
+    handler: handleInvokeEdgeFunction,
+    readOnly: false,
+    destructive: false
+  })
+];
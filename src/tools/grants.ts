@@ -0,0 +1,256 @@
+import { defineTool, ToolDefinition } from './registry.js';
+import { getConnection } from '../utils/connection.js';
+import { sanitizeFunctionArguments, sanitizeSQLIdentifier } from '../utils/validation.js';
+import {
+  GrantPrivilegesArgs,
+  GrantPrivilegesSchema,
+  ListGrantsArgs,
+  ListGrantsSchema,
+  RevokePrivilegesArgs,
+  RevokePrivilegesSchema
+} from '../types/mcp.js';
+import { logError, logInfo } from '../utils/logger.js';
+import { Queryable } from '../utils/introspection.js';
+import {
+  COLUMN_PRIVILEGES,
+  PrivilegeTarget,
+  defaultPrivilegesSQL,
+  directTablePrivileges,
+  effectivePrivileges,
+  grantStatementSQL,
+  introspectColumnGrants,
+  introspectDefaultPrivileges,
+  introspectObjectGrants,
+  missingRoles,
+  normalizePrivileges,
+  revokeStatementSQL,
+  tableColumns
+} from '../utils/grants.js';
+import { qualifiedName, quoteIdentifier } from '../utils/sql.js';
+
+const sanitizeRole = (role: string): string => (role.toUpperCase() === 'PUBLIC' ? 'PUBLIC' : sanitizeSQLIdentifier(role));
+
+const namedRoles = (roles: string[]): string[] => roles.filter(role => role !== 'PUBLIC');
+
+export const handleListGrants = async ({ schema, table, roles, defaults }: ListGrantsArgs) => {
+  const connection = getConnection();
+
+  try {
+    const sanitizedSchema = sanitizeSQLIdentifier(schema);
+    const sanitizedTable = table ? sanitizeSQLIdentifier(table) : undefined;
+    const sanitizedRoles = namedRoles(roles.map(sanitizeRole));
+
+    return await connection.withClient(async (client) => {
+      const missing = await missingRoles(client, sanitizedRoles);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: `Roles inexistentes: ${missing.join(', ')}`
+        };
+      }
+      if (sanitizedTable && (await tableColumns(client, sanitizedSchema, sanitizedTable)).length === 0) {
+        return {
+          success: false,
+          error: `Tabla ${sanitizedSchema}.${sanitizedTable} no encontrada`
+        };
+      }
+
+      return {
+        success: true,
+        schema: sanitizedSchema,
+        ...(sanitizedTable ? { table: sanitizedTable } : {}),
+        grants: await introspectObjectGrants(client, sanitizedSchema, sanitizedTable),
+        columnGrants: await introspectColumnGrants(client, sanitizedSchema, sanitizedTable),
+        ...(defaults ? { defaultPrivileges: await introspectDefaultPrivileges(client, sanitizedSchema) } : {}),
+        effective: await effectivePrivileges(client, sanitizedSchema, sanitizedRoles, sanitizedTable)
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'list_grants');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+// SQL del cambio de privilegios; al revocar columnas sustituye el privilegio sobre toda la tabla por uno
+// sobre las demás columnas, porque un REVOKE de columna no quita lo concedido a la tabla entera
+const buildPrivilegeChange = async (
+  client: Queryable,
+  action: 'GRANT' | 'REVOKE',
+  args: GrantPrivilegesArgs & { cascade?: boolean },
+  target: PrivilegeTarget,
+  roles: string[]
+): Promise<{ statements: string[]; warnings: string[] }> => {
+  const privileges = normalizePrivileges(target.objectType, args.privileges, target.columns !== undefined);
+  const cascade = args.cascade ?? false;
+
+  if (args.defaults) {
+    const objectType = target.objectType as Exclude<PrivilegeTarget['objectType'], 'schema'>;
+    const forRole = args.forRole ? sanitizeSQLIdentifier(args.forRole) : undefined;
+    return {
+      statements: [defaultPrivilegesSQL(action, privileges, objectType, target.schema, roles, forRole, { grantOption: args.grantOption, cascade })],
+      warnings: ['Los privilegios por defecto solo afectan a los objetos que se creen a partir de ahora; usa all para los existentes']
+    };
+  }
+
+  if (action === 'GRANT') {
+    return { statements: [grantStatementSQL(privileges, target, roles, args.grantOption)], warnings: [] };
+  }
+
+  const statements: string[] = [];
+  const warnings: string[] = [];
+  if (target.columns && !args.grantOption) {
+    const columns = await tableColumns(client, target.schema, target.name!);
+    const unknown = target.columns.filter(column => !columns.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Columnas inexistentes en ${target.schema}.${target.name}: ${unknown.join(', ')}`);
+    }
+    const remaining = columns.filter(column => !target.columns!.includes(column));
+    const table = qualifiedName(target.schema, target.name!);
+    const revoked: string[] = privileges[0] === 'ALL' ? COLUMN_PRIVILEGES : privileges;
+
+    for (const role of roles) {
+      const direct = await directTablePrivileges(client, target.schema, target.name!, role);
+      for (const privilege of revoked.filter(p => direct.includes(p))) {
+        const grantee = role === 'PUBLIC' ? 'PUBLIC' : quoteIdentifier(role);
+        statements.push(`REVOKE ${privilege} ON TABLE ${table} FROM ${grantee}${cascade ? ' CASCADE' : ''};`);
+        if (remaining.length > 0) {
+          statements.push(`GRANT ${privilege} (${remaining.map(quoteIdentifier).join(', ')}) ON TABLE ${table} TO ${grantee};`);
+        }
+        warnings.push(
+          `${role} tenía ${privilege} sobre toda la tabla: se sustituye por ${privilege} sobre las demás columnas; ` +
+          'las columnas que se añadan después no se le concederán automáticamente'
+        );
+      }
+    }
+  }
+  statements.push(revokeStatementSQL(privileges, target, roles, args.grantOption, cascade));
+  return { statements, warnings };
+};
+
+const applyPrivilegeChange = async (action: 'GRANT' | 'REVOKE', args: GrantPrivilegesArgs & { cascade?: boolean }) => {
+  const connection = getConnection();
+  const toolName = action === 'GRANT' ? 'grant_privileges' : 'revoke_privileges';
+
+  try {
+    const target: PrivilegeTarget = {
+      objectType: args.objectType,
+      schema: sanitizeSQLIdentifier(args.schema),
+      all: args.all
+    };
+    if (args.name && args.objectType !== 'schema' && !args.all && !args.defaults) {
+      target.name = sanitizeSQLIdentifier(args.name);
+    }
+    if (args.arguments !== undefined) {
+      target.arguments = sanitizeFunctionArguments(args.arguments);
+    }
+    if (args.columns) {
+      target.columns = args.columns.map(column => sanitizeSQLIdentifier(column));
+    }
+    const roles = args.roles.map(sanitizeRole);
+
+    return await connection.withClient(async (client) => {
+      const missing = await missingRoles(client, roles);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: `Roles inexistentes: ${missing.join(', ')}`
+        };
+      }
+
+      const { statements, warnings } = await buildPrivilegeChange(client, action, args, target, roles);
+      const sql = statements.join('\n');
+
+      if (args.dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          sql,
+          ...(warnings.length > 0 ? { warnings } : {})
+        };
+      }
+
+      await client.query('BEGIN');
+      try {
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+
+      logInfo(`Privilegios ${action === 'GRANT' ? 'concedidos' : 'revocados'}: ${sql}`);
+
+      // Comprobar el resultado en una tabla concreta: PUBLIC o la pertenencia a otro rol pueden mantener el acceso
+      const effective = target.objectType === 'table' && target.name
+        ? await effectivePrivileges(client, target.schema, namedRoles(roles), target.name)
+        : undefined;
+      if (action === 'REVOKE' && effective && !args.grantOption) {
+        const revoked = normalizePrivileges(target.objectType, args.privileges, target.columns !== undefined);
+        const checked = (['SELECT', 'INSERT', 'UPDATE'] as const).filter(privilege => revoked[0] === 'ALL' || revoked.includes(privilege));
+        for (const access of effective) {
+          const table = access.tables[0];
+          if (!table) {
+            continue;
+          }
+          const stillGranted = target.columns
+            ? target.columns.filter(column =>
+              checked.some(privilege => table.privileges.includes(privilege) || table.columns?.[privilege]?.granted.includes(column)))
+            : table.privileges.filter(privilege => revoked[0] === 'ALL' || revoked.includes(privilege));
+          if (stillGranted.length > 0) {
+            warnings.push(`${access.role} sigue teniendo acceso a ${stillGranted.join(', ')} por PUBLIC o por pertenencia a otro rol`);
+          }
+        }
+      }
+
+      return {
+        success: true,
+        message: `Privilegios ${action === 'GRANT' ? 'concedidos' : 'revocados'} exitosamente`,
+        sql,
+        ...(warnings.length > 0 ? { warnings } : {}),
+        ...(effective ? { effective } : {})
+      };
+    });
+  } catch (error) {
+    logError(error as Error, toolName);
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleGrantPrivileges = async (args: GrantPrivilegesArgs) => applyPrivilegeChange('GRANT', args);
+
+export const handleRevokePrivileges = async (args: RevokePrivilegesArgs) => applyPrivilegeChange('REVOKE', args);
+
+export const grantTools: ToolDefinition[] = [
+  defineTool({
+    name: 'list_grants',
+    description: 'Listar los privilegios (GRANT) de tablas, columnas, secuencias, funciones y del esquema, los privilegios por defecto y un informe de privilegios efectivos por rol de Supabase (anon, authenticated, service_role) con las columnas ocultas',
+    schema: ListGrantsSchema,
+    handler: handleListGrants,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'grant_privileges',
+    description: 'Conceder privilegios sobre tablas, columnas, secuencias, funciones o esquemas, o como privilegios por defecto del esquema',
+    schema: GrantPrivilegesSchema,
+    handler: handleGrantPrivileges,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'revoke_privileges',
+    description: 'Revocar privilegios sobre tablas, columnas, secuencias, funciones o esquemas, o de los privilegios por defecto; revocar columnas oculta esas columnas a la API de PostgREST',
+    schema: RevokePrivilegesSchema,
+    handler: handleRevokePrivileges,
+    readOnly: false,
+    destructive: true
+  })
+];
@@ -1,80 +1,28 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
+import { GetLogsArgs, GetLogsSchema, GetMetricsArgs, GetMetricsSchema, GetErrorLogsArgs, GetErrorLogsSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
 
-export const logsTools: Tool[] = [
-  {
-    name: 'get_logs',
-    description: 'Obtener logs del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        level: {
-          type: 'string',
-          enum: ['error', 'warn', 'info', 'debug'],
-          description: 'Nivel de log a filtrar'
-        },
-        limit: {
-          type: 'number',
-          description: 'Límite de logs a devolver',
-          default: 100
-        },
-        startDate: {
-          type: 'string',
-          description: 'Fecha de inicio (ISO string)'
-        },
-        endDate: {
-          type: 'string',
-          description: 'Fecha de fin (ISO string)'
-        }
-      }
+export const handleGetLogs = async ({ level, limit, startDate, endDate }: GetLogsArgs) => {
+  const connection = getConnection();
+  
+  try {
+    // Los filtros van como parámetros: nunca se concatenan valores del cliente al SQL
+    const params: unknown[] = [limit];
+    const filters: string[] = [];
+    if (level) {
+      params.push(level.toUpperCase());
+      filters.push(`AND error_severity = $${params.length}`);
     }
-  },
-  {
-    name: 'get_metrics',
-    description: 'Obtener métricas del sistema',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        timeRange: {
-          type: 'string',
-          enum: ['1h', '24h', '7d', '30d'],
-          description: 'Rango de tiempo para las métricas',
-          default: '1h'
-        }
-      }
+    if (startDate) {
+      params.push(startDate);
+      filters.push(`AND log_time >= $${params.length}::timestamptz`);
     }
-  },
-  {
-    name: 'get_error_logs',
-    description: 'Obtener logs de errores específicos',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Límite de logs a devolver',
-          default: 50
-        },
-        context: {
-          type: 'string',
-          description: 'Contexto específico del error'
-        }
-      }
+    if (endDate) {
+      params.push(endDate);
+      filters.push(`AND log_time <= $${params.length}::timestamptz`);
     }
-  }
-];
 
-export const handleGetLogs = async (args: unknown) => {
-  const { level, limit = 100, startDate, endDate } = args as {
-    level?: string;
-    limit?: number;
-    startDate?: string;
-    endDate?: string;
-  };
-  const connection = getConnection();
-  
-  try {
     // Obtener logs de PostgreSQL
     const pgLogsQuery = `
       SELECT 
@@ -103,14 +51,12 @@ export const handleGetLogs = async (args: unknown) => {
         application_name
       FROM pg_log
       WHERE 1=1
-      ${level ? `AND error_severity = '${level.toUpperCase()}'` : ''}
-      ${startDate ? `AND log_time >= '${startDate}'` : ''}
-      ${endDate ? `AND log_time <= '${endDate}'` : ''}
+      ${filters.join('\n      ')}
       ORDER BY log_time DESC
       LIMIT $1;
     `;
     
-    const result = await connection.getPgClient().query(pgLogsQuery, [limit]);
+    const result = await connection.withTransaction(client => client.query(pgLogsQuery, params), { readOnly: true });
     
     return {
       success: true,
@@ -139,7 +85,7 @@ export const handleGetLogs = async (args: unknown) => {
           current_user as user_name;
       `;
       
-      const result = await connection.getPgClient().query(statsQuery);
+      const result = await connection.query(statsQuery);
       
       return {
         success: true,
@@ -156,10 +102,7 @@ export const handleGetLogs = async (args: unknown) => {
   }
 };
 
-export const handleGetMetrics = async (args: unknown) => {
-  const { timeRange = '1h' } = args as {
-    timeRange?: '1h' | '24h' | '7d' | '30d';
-  };
+export const handleGetMetrics = async ({ timeRange }: GetMetricsArgs) => {
   const connection = getConnection();
   
   try {
@@ -210,8 +153,8 @@ export const handleGetMetrics = async (args: unknown) => {
       LIMIT 10;`
     ];
     
-    const [connections, database, tables] = await Promise.all(
-      queries.map(query => connection.getPgClient().query(query))
+    const [connections, database, tables] = await connection.withClient(client =>
+      Promise.all(queries.map(query => client.query(query)))
     );
     
     if (!connections?.rows?.[0] || !database?.rows?.[0] || !tables?.rows) {
@@ -237,11 +180,7 @@ export const handleGetMetrics = async (args: unknown) => {
   }
 };
 
-export const handleGetErrorLogs = async (args: unknown) => {
-  const { limit = 50, context } = args as {
-    limit?: number;
-    context?: string;
-  };
+export const handleGetErrorLogs = async ({ limit, context }: GetErrorLogsArgs) => {
   const connection = getConnection();
   
   try {
@@ -259,12 +198,15 @@ export const handleGetErrorLogs = async (args: unknown) => {
         application_name
       FROM pg_log
       WHERE error_severity IN ('ERROR', 'FATAL', 'PANIC')
-      ${context ? `AND context ILIKE '%${context}%'` : ''}
+      ${context ? `AND context ILIKE '%' || $2 || '%'` : ''}
       ORDER BY log_time DESC
       LIMIT $1;
     `;
     
-    const result = await connection.getPgClient().query(errorLogsQuery, [limit]);
+    const result = await connection.withTransaction(
+      client => client.query(errorLogsQuery, context ? [limit, context] : [limit]),
+      { readOnly: true }
+    );
     
     return {
       success: true,
@@ -289,7 +231,7 @@ export const handleGetErrorLogs = async (args: unknown) => {
           'supabase-mcp-server' as application_name;
       `;
       
-      const result = await connection.getPgClient().query(fallbackQuery);
+      const result = await connection.query(fallbackQuery);
       
       return {
         success: true,
@@ -304,4 +246,31 @@ export const handleGetErrorLogs = async (args: unknown) => {
       };
     }
   }
-};
\ No newline at end of file
+};
+
+export const logsTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_logs',
+    description: 'Obtener logs del sistema',
+    schema: GetLogsSchema,
+    handler: handleGetLogs,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'get_metrics',
+    description: 'Obtener métricas del sistema',
+    schema: GetMetricsSchema,
+    handler: handleGetMetrics,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'get_error_logs',
+    description: 'Obtener logs de errores específicos',
+    schema: GetErrorLogsSchema,
+    handler: handleGetErrorLogs,
+    readOnly: true,
+    destructive: false
+  })
+];
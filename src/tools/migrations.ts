@@ -1,121 +1,162 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
+import { PoolClient } from 'pg';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { CreateMigrationArgs, CreateMigrationSchema } from '../types/mcp.js';
-import { logError, logInfo } from '../utils/logger.js';
+import { CreateMigrationArgs, CreateMigrationSchema, MigrationVersionArgs, MigrationVersionSchema, ApplyMigrationArgs, ApplyMigrationSchema, LintMigrationArgs, LintMigrationSchema, SyncMigrationsArgs, SyncMigrationsSchema, MigrateUpArgs, MigrateUpSchema, MigrateDownArgs, MigrateDownSchema, VerifyMigrationsArgs, VerifyMigrationsSchema, BaselineMigrationArgs, BaselineMigrationSchema, SquashMigrationsArgs, SquashMigrationsSchema, EmptyArgsSchema } from '../types/mcp.js';
 import { Migration } from '../types/supabase.js';
+import { logError, logInfo } from '../utils/logger.js';
+import { splitSQLStatements } from '../utils/sql.js';
+import { introspectSchema } from '../utils/introspection.js';
+import { diffSchemas } from '../utils/schema-diff.js';
+import { previewMigrationSQL } from '../utils/migration-preview.js';
+import { LintFinding, blockingFindings, lintMigrationSQL } from '../utils/migration-lint.js';
+import { generateDownMigration } from '../utils/down-migration.js';
+import { buildBaselineMigration } from '../utils/baseline.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import {
+  listMigrationFiles,
+  findMigrationFile,
+  readMigration,
+  writeMigration,
+  nextMigrationVersion,
+  slugifyMigrationName,
+  isTransactionalSQL,
+  removeMigrationFiles,
+  MigrationFile,
+  stageMigration,
+  publishStagedMigration,
+  stripNoTransactionDirective,
+  NO_TRANSACTION_DIRECTIVE
+} from '../utils/migration-files.js';
+import {
+  AppliedMigration,
+  MigrationDirection,
+  captureSchemaSnapshots,
+  clearMigrationProgress,
+  ensureMigrationHistory,
+  getAppliedMigrations,
+  getMigrationMetadata,
+  getMigrationProgress,
+  getMigrationSnapshots,
+  migrationChecksum,
+  isMigrationApplied,
+  recordAppliedMigration,
+  removeAppliedMigration,
+  startMigrationProgress,
+  statementsToSQL,
+  updateMigrationProgress,
+  withMigrationLock
+} from '../utils/migration-history.js';
 
-export const migrationTools: Tool[] = [
-  {
-    name: 'create_migration',
-    description: 'Crear una nueva migración',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la migración'
-        },
-        up: {
-          type: 'string',
-          description: 'SQL para aplicar la migración'
-        },
-        down: {
-          type: 'string',
-          description: 'SQL para revertir la migración'
-        }
-      },
-      required: ['name', 'up', 'down']
-    }
-  },
-  {
-    name: 'list_migrations',
-    description: 'Listar todas las migraciones',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'apply_migration',
-    description: 'Aplicar una migración específica',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        migrationId: {
-          type: 'string',
-          description: 'ID de la migración a aplicar'
-        }
+// Añadir la directiva al principio del SQL si no la tiene ya
+const withNoTransactionDirective = (sql: string): string =>
+  isTransactionalSQL(sql) ? `${NO_TRANSACTION_DIRECTIVE}\n${sql}` : sql;
+
+export const handleCreateMigration = async ({ name, up, down: downArg, transactional, generateDown }: CreateMigrationArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+    const slug = slugifyMigrationName(name);
+    const version = nextMigrationVersion(listMigrationFiles(migrations).map(file => file.version));
+    const generated = generateDown ? generateDownMigration(up) : null;
+    const down = generated ? generated.down ?? undefined : downArg;
+
+    const file = transactional
+      ? writeMigration(migrations, version, slug, up, down)
+      : writeMigration(
+        migrations,
+        version,
+        slug,
+        withNoTransactionDirective(up),
+        down === undefined ? undefined : withNoTransactionDirective(down)
+      );
+
+    logInfo(`Migración '${file.fileName}' creada exitosamente`);
+
+    return {
+      success: true,
+      migration: {
+        version,
+        name: slug,
+        path: file.path,
+        rollbackPath: file.rollbackPath ?? null,
+        transactional
       },
-      required: ['migrationId']
-    }
-  },
-  {
-    name: 'rollback_migration',
-    description: 'Revertir una migración específica',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        migrationId: {
-          type: 'string',
-          description: 'ID de la migración a revertir'
+      ...(generated ? {
+        generatedDown: {
+          reversible: generated.reversible,
+          down: generated.down,
+          irreversible: generated.irreversible,
+          warnings: generated.warnings
         }
-      },
-      required: ['migrationId']
-    }
-  },
-  {
-    name: 'get_migration_status',
-    description: 'Obtener el estado de las migraciones',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
+      } : {}),
+      message: generated && !generated.reversible
+        ? `Migración '${file.fileName}' creada sin rollback: ${generated.irreversible.length} sentencias no se pueden invertir`
+        : `Migración '${file.fileName}' creada exitosamente`
+    };
+  } catch (error) {
+    logError(error as Error, 'create_migration');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
   }
-];
+};
 
-// Asegurar que existe la tabla de migraciones
-const ensureMigrationTable = async () => {
+// Unir los ficheros del directorio con el historial de la base de datos
+const loadMigrationState = async () => {
   const connection = getConnection();
-  const createTableQuery = `
-    CREATE TABLE IF NOT EXISTS supabase_migrations (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      name VARCHAR(255) NOT NULL UNIQUE,
-      up_sql TEXT NOT NULL,
-      down_sql TEXT NOT NULL,
-      applied BOOLEAN DEFAULT FALSE,
-      applied_at TIMESTAMP WITH TIME ZONE,
-      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-    );
-  `;
-  
-  await connection.getPgClient().query(createTableQuery);
+  const { migrations } = connection.getConfig();
+  const files = listMigrationFiles(migrations);
+  const [applied, progress] = await connection.withClient(async (client) =>
+    [await getAppliedMigrations(client), await getMigrationProgress(client)] as const
+  );
+
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+  const versions = Array.from(new Set([...filesByVersion.keys(), ...appliedByVersion.keys()])).sort();
+
+  return versions.map(version => {
+    const file = filesByVersion.get(version);
+    const record = appliedByVersion.get(version);
+    const partial = progress.get(version);
+    let status = record ? (file ? 'applied' : 'missing_file') : 'pending';
+    // Migraciones no transaccionales interrumpidas
+    if (partial) {
+      status = partial.direction === 'up' ? 'partially_applied' : 'partially_reverted';
+    }
+    return {
+      version,
+      name: file?.name ?? record?.name ?? null,
+      status,
+      applied: !!record,
+      file: file?.fileName ?? null,
+      hasRollback: !!file?.rollbackPath,
+      ...(partial ? {
+        progress: {
+          statementsDone: partial.statementsDone,
+          statementsTotal: partial.statementsTotal,
+          lastError: partial.lastError,
+          updatedAt: partial.updatedAt
+        }
+      } : {})
+    };
+  });
 };
 
-export const handleCreateMigration = async (args: unknown) => {
-  const { name, up, down } = validateInput(CreateMigrationSchema, args);
+export const handleListMigrations = async () => {
   const connection = getConnection();
-  
+
   try {
-    await ensureMigrationTable();
-    
-    const insertQuery = `
-      INSERT INTO supabase_migrations (name, up_sql, down_sql)
-      VALUES ($1, $2, $3)
-      RETURNING id, name, created_at;
-    `;
-    
-    const result = await connection.getPgClient().query(insertQuery, [name, up, down]);
-    
-    logInfo(`Migración '${name}' creada exitosamente`);
-    
+    const { migrations } = connection.getConfig();
+
     return {
       success: true,
-      migration: result.rows[0],
-      message: `Migración '${name}' creada exitosamente`
+      directory: migrations.dir,
+      migrations: await loadMigrationState()
     };
   } catch (error) {
-    logError(error as Error, 'create_migration');
+    logError(error as Error, 'list_migrations');
     return {
       success: false,
       error: (error as Error).message
@@ -123,31 +164,129 @@ export const handleCreateMigration = async (args: unknown) => {
   }
 };
 
-export const handleListMigrations = async () => {
+interface MigrationStepOutcome {
+  transactional: boolean;
+  // Sentencia desde la que se continuó una migración no transaccional que quedó a medias
+  resumedFrom: number | null;
+}
+
+// Ejecutar las sentencias una a una fuera de una transacción, guardando el avance para poder continuar tras un fallo
+const runNonTransactional = async (client: PoolClient, version: string, direction: MigrationDirection, sql: string): Promise<number | null> => {
+  const statements = splitSQLStatements(sql);
+  const checksum = migrationChecksum(sql);
+  const progress = (await getMigrationProgress(client)).get(version);
+  let start = 0;
+
+  if (progress) {
+    if (progress.direction !== direction) {
+      throw new Error(`La migración ${version} quedó a medias al ${progress.direction === 'up' ? 'aplicarla' : 'revertirla'} (${progress.statementsDone}/${progress.statementsTotal} sentencias); termina esa operación primero`);
+    }
+    if (progress.checksum !== checksum) {
+      throw new Error(`El SQL de la migración ${version} ha cambiado desde la ejecución parcial (${progress.statementsDone}/${progress.statementsTotal} sentencias); restaura el fichero o completa el resto manualmente`);
+    }
+    start = progress.statementsDone;
+    logInfo(`Continuando la migración ${version} desde la sentencia ${start + 1} de ${statements.length}`);
+  } else {
+    await startMigrationProgress(client, version, direction, checksum, statements.length);
+  }
+
+  for (let i = start; i < statements.length; i++) {
+    try {
+      await client.query(statements[i]!);
+    } catch (error) {
+      const message = (error as Error).message;
+      await updateMigrationProgress(client, version, i, message);
+      throw new Error(`Sentencia ${i + 1} de ${statements.length} fallida: ${message}. Las ${i} anteriores ya están aplicadas; corrige el problema y vuelve a ejecutar la migración para continuar`);
+    }
+    await updateMigrationProgress(client, version, i + 1);
+  }
+
+  return progress ? start : null;
+};
+
+// Aplicar una migración y registrarla en el historial, con su checksum y el catálogo resultante
+const applyMigrationStep = async (client: PoolClient, migration: Migration, schemas: string[]): Promise<MigrationStepOutcome> => {
+  const transactional = isTransactionalSQL(migration.up);
+  const resumedFrom = transactional ? null : await runNonTransactional(client, migration.version, 'up', migration.up);
+
+  await client.query('BEGIN');
+
+  try {
+    if (transactional) {
+      await client.query(migration.up);
+    }
+    const snapshots = await captureSchemaSnapshots(client, schemas);
+    await recordAppliedMigration(client, migration.version, migration.name, migration.up, snapshots);
+    if (!transactional) {
+      await clearMigrationProgress(client, migration.version);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  return { transactional, resumedFrom };
+};
+
+// Ejecutar el SQL de reversión y quitar la migración del historial
+const revertMigrationStep = async (client: PoolClient, migration: Migration, down: string): Promise<MigrationStepOutcome> => {
+  const transactional = isTransactionalSQL(down);
+  const resumedFrom = transactional ? null : await runNonTransactional(client, migration.version, 'down', down);
+
+  await client.query('BEGIN');
+
+  try {
+    if (transactional) {
+      await client.query(down);
+    }
+    await removeAppliedMigration(client, migration.version);
+    if (!transactional) {
+      await clearMigrationProgress(client, migration.version);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+
+  return { transactional, resumedFrom };
+};
+
+const describeFindings = (findings: LintFinding[]): string =>
+  findings.map(finding => `[${finding.rule}] ${finding.message}`).join('; ');
+
+export const handleLintMigration = async ({ version, sql }: LintMigrationArgs) => {
   const connection = getConnection();
-  
+
   try {
-    await ensureMigrationTable();
-    
-    const query = `
-      SELECT 
-        id,
-        name,
-        applied,
-        applied_at,
-        created_at
-      FROM supabase_migrations
-      ORDER BY created_at ASC;
-    `;
-    
-    const result = await connection.getPgClient().query(query);
-    
+    const { migrations } = connection.getConfig();
+    let up = sql;
+
+    if (version !== undefined) {
+      const file = findMigrationFile(migrations, version);
+      if (!file) {
+        return {
+          success: false,
+          error: `Migración con versión '${version}' no encontrada en el directorio de migraciones`
+        };
+      }
+      up = readMigration(file).up;
+    }
+
+    const lint = await connection.withClient(client => lintMigrationSQL(client, up!, migrations.schemas));
+    const blocking = blockingFindings(lint, migrations.lintBlock);
+
     return {
       success: true,
-      migrations: result.rows
+      version: version ?? null,
+      ...lint,
+      // Si apply_migration se negaría a aplicarla con la configuración actual
+      blocking: blocking.length > 0,
+      blockLevel: migrations.lintBlock
     };
   } catch (error) {
-    logError(error as Error, 'list_migrations');
+    logError(error as Error, 'lint_migration');
     return {
       success: false,
       error: (error as Error).message
@@ -155,66 +294,79 @@ export const handleListMigrations = async () => {
   }
 };
 
-export const handleApplyMigration = async (args: unknown) => {
-  const { migrationId } = args as { migrationId: string };
+export const handleApplyMigration = async ({ version, dryRun, skipLint }: ApplyMigrationArgs) => {
   const connection = getConnection();
-  
+
   try {
-    await ensureMigrationTable();
-    
-    // Obtener la migración
-    const getMigrationQuery = `
-      SELECT id, name, up_sql, applied
-      FROM supabase_migrations
-      WHERE id = $1;
-    `;
-    
-    const migrationResult = await connection.getPgClient().query(getMigrationQuery, [migrationId]);
-    
-    if (migrationResult.rows.length === 0) {
-      return {
-        success: false,
-        error: `Migración con ID '${migrationId}' no encontrada`
-      };
-    }
-    
-    const migration = migrationResult.rows[0];
-    
-    if (migration.applied) {
+    const file = findMigrationFile(connection.getConfig().migrations, version);
+
+    if (!file) {
       return {
         success: false,
-        error: `Migración '${migration.name}' ya está aplicada`
+        error: `Migración con versión '${version}' no encontrada en el directorio de migraciones`
       };
     }
-    
-    // Ejecutar la migración en una transacción
-    await connection.getPgClient().query('BEGIN');
-    
-    try {
-      // Ejecutar el SQL de la migración
-      await connection.getPgClient().query(migration.up_sql);
-      
-      // Marcar como aplicada
-      const updateQuery = `
-        UPDATE supabase_migrations
-        SET applied = TRUE, applied_at = NOW()
-        WHERE id = $1;
-      `;
-      
-      await connection.getPgClient().query(updateQuery, [migrationId]);
-      
-      await connection.getPgClient().query('COMMIT');
-      
-      logInfo(`Migración '${migration.name}' aplicada exitosamente`);
-      
-      return {
-        success: true,
-        message: `Migración '${migration.name}' aplicada exitosamente`
-      };
-    } catch (error) {
-      await connection.getPgClient().query('ROLLBACK');
-      throw error;
+
+    const migration = readMigration(file);
+
+    if (dryRun) {
+      return await connection.withClient(async (client) => {
+        const applied = await getAppliedMigrations(client);
+        if (applied.some(record => record.version === version)) {
+          return {
+            success: false,
+            error: `Migración '${file.fileName}' ya está aplicada`
+          };
+        }
+
+        const preview = await previewMigrationSQL(client, migration.up, connection.getConfig().migrations.schemas);
+        const lint = skipLint ? null : await lintMigrationSQL(client, migration.up, connection.getConfig().migrations.schemas);
+
+        return {
+          success: true,
+          dryRun: true,
+          version,
+          preview,
+          lint
+        };
+      });
     }
+
+    return await connection.withClient(async (client) => {
+      await ensureMigrationHistory(client);
+
+      return await withMigrationLock(client, async () => {
+        if (await isMigrationApplied(client, version)) {
+          return {
+            success: false,
+            error: `Migración '${file.fileName}' ya está aplicada`
+          };
+        }
+
+        const { schemas, lintBlock } = connection.getConfig().migrations;
+        const lint = skipLint ? null : await lintMigrationSQL(client, migration.up, schemas);
+        const blocking = lint ? blockingFindings(lint, lintBlock) : [];
+        if (blocking.length > 0) {
+          return {
+            success: false,
+            error: `Migración '${file.fileName}' no aplicada por el lint: ${describeFindings(blocking)}. Corrígela o usa skipLint`,
+            lint
+          };
+        }
+
+        const outcome = await applyMigrationStep(client, migration, schemas);
+
+        logInfo(`Migración '${file.fileName}' aplicada exitosamente`);
+
+        return {
+          success: true,
+          version,
+          ...outcome,
+          lint,
+          message: `Migración '${file.fileName}' aplicada exitosamente`
+        };
+      });
+    });
   } catch (error) {
     logError(error as Error, 'apply_migration');
     return {
@@ -224,68 +376,284 @@ export const handleApplyMigration = async (args: unknown) => {
   }
 };
 
-export const handleRollbackMigration = async (args: unknown) => {
-  const { migrationId } = args as { migrationId: string };
+export const handleRollbackMigration = async ({ version, dryRun }: MigrationVersionArgs) => {
   const connection = getConnection();
-  
+
   try {
-    await ensureMigrationTable();
-    
-    // Obtener la migración
-    const getMigrationQuery = `
-      SELECT id, name, down_sql, applied
-      FROM supabase_migrations
-      WHERE id = $1;
-    `;
-    
-    const migrationResult = await connection.getPgClient().query(getMigrationQuery, [migrationId]);
-    
-    if (migrationResult.rows.length === 0) {
+    const file = findMigrationFile(connection.getConfig().migrations, version);
+
+    if (!file) {
       return {
         success: false,
-        error: `Migración con ID '${migrationId}' no encontrada`
+        error: `Migración con versión '${version}' no encontrada en el directorio de migraciones`
       };
     }
-    
-    const migration = migrationResult.rows[0];
-    
-    if (!migration.applied) {
+
+    const migration = readMigration(file);
+
+    if (migration.down === undefined) {
       return {
         success: false,
-        error: `Migración '${migration.name}' no está aplicada`
+        error: `Migración '${file.fileName}' no tiene SQL de reversión en ${connection.getConfig().migrations.rollbacksDir}`
       };
     }
-    
-    // Ejecutar el rollback en una transacción
-    await connection.getPgClient().query('BEGIN');
-    
+
+    const down = migration.down;
+
+    if (dryRun) {
+      return await connection.withClient(async (client) => {
+        const applied = await getAppliedMigrations(client);
+        if (!applied.some(record => record.version === version)) {
+          return {
+            success: false,
+            error: `Migración '${file.fileName}' no está aplicada`
+          };
+        }
+
+        const preview = await previewMigrationSQL(client, down, connection.getConfig().migrations.schemas);
+
+        return {
+          success: true,
+          dryRun: true,
+          version,
+          preview
+        };
+      });
+    }
+
+    return await connection.withClient(async (client) => {
+      await ensureMigrationHistory(client);
+
+      return await withMigrationLock(client, async () => {
+        if (!await isMigrationApplied(client, version)) {
+          return {
+            success: false,
+            error: `Migración '${file.fileName}' no está aplicada`
+          };
+        }
+
+        const outcome = await revertMigrationStep(client, migration, down);
+
+        logInfo(`Migración '${file.fileName}' revertida exitosamente`);
+
+        return {
+          success: true,
+          version,
+          ...outcome,
+          message: `Migración '${file.fileName}' revertida exitosamente`
+        };
+      });
+    });
+  } catch (error) {
+    logError(error as Error, 'rollback_migration');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+interface MigrationStepResult extends Partial<MigrationStepOutcome> {
+  version: string;
+  name: string | null;
+  status: 'applied' | 'reverted' | 'failed';
+  durationMs: number;
+  error?: string;
+}
+
+// Resolver una migración por versión o por nombre
+const resolveMigrationTarget = (candidates: { version: string; name: string | null }[], target: string): string => {
+  const byVersion = candidates.find(candidate => candidate.version === target);
+  if (byVersion) {
+    return byVersion.version;
+  }
+
+  const slug = slugifyMigrationName(target);
+  const byName = Array.from(new Set(candidates.filter(candidate => candidate.name === slug).map(candidate => candidate.version)));
+  if (byName.length > 1) {
+    throw new Error(`Hay varias migraciones llamadas '${slug}' (${byName.join(', ')}); indica la versión`);
+  }
+  if (byName.length === 0) {
+    throw new Error(`Migración '${target}' no encontrada`);
+  }
+  return byName[0]!;
+};
+
+// Ejecutar los pasos en orden, midiendo cada uno y parando en el primer fallo
+const runMigrationSteps = async <T extends { version: string; name: string | null }>(
+  plan: T[],
+  status: 'applied' | 'reverted',
+  run: (item: T) => Promise<MigrationStepOutcome>
+) => {
+  const steps: MigrationStepResult[] = [];
+  const startedAt = Date.now();
+
+  for (const [index, item] of plan.entries()) {
+    const stepStartedAt = Date.now();
     try {
-      // Ejecutar el SQL de rollback
-      await connection.getPgClient().query(migration.down_sql);
-      
-      // Marcar como no aplicada
-      const updateQuery = `
-        UPDATE supabase_migrations
-        SET applied = FALSE, applied_at = NULL
-        WHERE id = $1;
-      `;
-      
-      await connection.getPgClient().query(updateQuery, [migrationId]);
-      
-      await connection.getPgClient().query('COMMIT');
-      
-      logInfo(`Migración '${migration.name}' revertida exitosamente`);
-      
+      const outcome = await run(item);
+      steps.push({ version: item.version, name: item.name, status, durationMs: Date.now() - stepStartedAt, ...outcome });
+    } catch (error) {
+      steps.push({
+        version: item.version,
+        name: item.name,
+        status: 'failed',
+        durationMs: Date.now() - stepStartedAt,
+        error: (error as Error).message
+      });
       return {
-        success: true,
-        message: `Migración '${migration.name}' revertida exitosamente`
+        steps,
+        failed: { version: item.version, error: (error as Error).message },
+        remaining: plan.slice(index + 1).map(pending => pending.version),
+        totalDurationMs: Date.now() - startedAt
       };
-    } catch (error) {
-      await connection.getPgClient().query('ROLLBACK');
-      throw error;
     }
+  }
+
+  return { steps, failed: null, remaining: [] as string[], totalDurationMs: Date.now() - startedAt };
+};
+
+export const handleMigrateUp = async ({ target, skipLint }: MigrateUpArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+    const files = listMigrationFiles(migrations);
+
+    return await connection.withClient(async (client) => {
+      await ensureMigrationHistory(client);
+
+      return await withMigrationLock(client, async () => {
+        const applied = new Set((await getAppliedMigrations(client)).map(migration => migration.version));
+        let plan = files.filter(file => !applied.has(file.version));
+
+        if (target !== undefined) {
+          const targetVersion = resolveMigrationTarget(files, target);
+          plan = plan.filter(file => file.version <= targetVersion);
+        }
+
+        if (plan.length === 0) {
+          return {
+            success: true,
+            steps: [],
+            remaining: [],
+            totalDurationMs: 0,
+            message: 'No hay migraciones pendientes'
+          };
+        }
+
+        const result = await runMigrationSteps(plan, 'applied', async (file) => {
+          const migration = readMigration(file);
+          // Cada migración se revisa sobre el estado que dejan las anteriores
+          if (!skipLint) {
+            const blocking = blockingFindings(await lintMigrationSQL(client, migration.up, migrations.schemas), migrations.lintBlock);
+            if (blocking.length > 0) {
+              throw new Error(`Lint: ${describeFindings(blocking)}`);
+            }
+          }
+          return applyMigrationStep(client, migration, migrations.schemas);
+        });
+        const appliedCount = result.steps.filter(step => step.status === 'applied').length;
+
+        if (result.failed) {
+          logInfo(`migrate_up detenido en la migración ${result.failed.version} tras aplicar ${appliedCount}`);
+          return {
+            success: false,
+            error: `La migración ${result.failed.version} falló: ${result.failed.error}`,
+            ...result
+          };
+        }
+
+        logInfo(`${appliedCount} migraciones aplicadas exitosamente`);
+
+        return {
+          success: true,
+          ...result,
+          message: `${appliedCount} migraciones aplicadas exitosamente`
+        };
+      });
+    });
   } catch (error) {
-    logError(error as Error, 'rollback_migration');
+    logError(error as Error, 'migrate_up');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleMigrateDown = async ({ steps, target }: MigrateDownArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+    const files = listMigrationFiles(migrations);
+    const filesByVersion = new Map(files.map(file => [file.version, file]));
+
+    return await connection.withClient(async (client) => {
+      await ensureMigrationHistory(client);
+
+      return await withMigrationLock(client, async () => {
+        // De la más reciente a la más antigua
+        const applied = (await getAppliedMigrations(client)).reverse();
+        let plan: AppliedMigration[];
+
+        if (target !== undefined) {
+          const targetVersion = resolveMigrationTarget([...applied, ...files], target);
+          if (!applied.some(migration => migration.version === targetVersion)) {
+            return {
+              success: false,
+              error: `Migración '${target}' no está aplicada`
+            };
+          }
+          plan = applied.filter(migration => migration.version > targetVersion);
+        } else {
+          plan = applied.slice(0, steps ?? 1);
+        }
+
+        if (plan.length === 0) {
+          return {
+            success: true,
+            steps: [],
+            remaining: [],
+            totalDurationMs: 0,
+            message: 'No hay migraciones que revertir'
+          };
+        }
+
+        const result = await runMigrationSteps(plan, 'reverted', async (record) => {
+          const file = filesByVersion.get(record.version);
+          if (!file) {
+            throw new Error(`Migración ${record.version} no encontrada en el directorio de migraciones`);
+          }
+          const migration = readMigration(file);
+          if (migration.down === undefined) {
+            throw new Error(`Migración '${file.fileName}' no tiene SQL de reversión en ${migrations.rollbacksDir}`);
+          }
+          return revertMigrationStep(client, migration, migration.down);
+        });
+        const revertedCount = result.steps.filter(step => step.status === 'reverted').length;
+
+        if (result.failed) {
+          logInfo(`migrate_down detenido en la migración ${result.failed.version} tras revertir ${revertedCount}`);
+          return {
+            success: false,
+            error: `La reversión de ${result.failed.version} falló: ${result.failed.error}`,
+            ...result
+          };
+        }
+
+        logInfo(`${revertedCount} migraciones revertidas exitosamente`);
+
+        return {
+          success: true,
+          ...result,
+          message: `${revertedCount} migraciones revertidas exitosamente`
+        };
+      });
+    });
+  } catch (error) {
+    logError(error as Error, 'migrate_down');
     return {
       success: false,
       error: (error as Error).message
@@ -295,29 +663,23 @@ export const handleRollbackMigration = async (args: unknown) => {
 
 export const handleGetMigrationStatus = async () => {
   const connection = getConnection();
-  
+
   try {
-    await ensureMigrationTable();
-    
-    const query = `
-      SELECT 
-        COUNT(*) as total_migrations,
-        COUNT(CASE WHEN applied = TRUE THEN 1 END) as applied_migrations,
-        COUNT(CASE WHEN applied = FALSE THEN 1 END) as pending_migrations,
-        MAX(applied_at) as last_applied_at
-      FROM supabase_migrations;
-    `;
-    
-    const result = await connection.getPgClient().query(query);
-    const status = result.rows[0];
-    
+    const state = await loadMigrationState();
+    const applied = state.filter(migration => migration.applied);
+
     return {
       success: true,
       status: {
-        totalMigrations: parseInt(status.total_migrations),
-        appliedMigrations: parseInt(status.applied_migrations),
-        pendingMigrations: parseInt(status.pending_migrations),
-        lastAppliedAt: status.last_applied_at
+        directory: connection.getConfig().migrations.dir,
+        totalMigrations: state.length,
+        appliedMigrations: applied.length,
+        pendingMigrations: state.filter(migration => migration.status === 'pending').length,
+        missingFiles: state.filter(migration => migration.status === 'missing_file').length,
+        partialMigrations: state
+          .filter(migration => migration.status === 'partially_applied' || migration.status === 'partially_reverted')
+          .map(migration => ({ version: migration.version, status: migration.status, progress: migration.progress })),
+        lastAppliedVersion: applied[applied.length - 1]?.version ?? null
       }
     };
   } catch (error) {
@@ -327,4 +689,547 @@ export const handleGetMigrationStatus = async () => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+// Normalizar sentencias para compararlas con las guardadas por Supabase CLI
+const normalizeStatements = (statements: string[]): string[] =>
+  statements.map(statement => statement.trim().replace(/;$/, '').trim()).filter(statement => statement !== '');
+
+export const handleVerifyMigrations = async ({ checkDrift }: VerifyMigrationsArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+    const filesByVersion = new Map(listMigrationFiles(migrations).map(file => [file.version, file]));
+
+    return await connection.withClient(async (client) => {
+      const applied = await getAppliedMigrations(client);
+      const metadata = await getMigrationMetadata(client);
+
+      // 1. Migraciones aplicadas cuyo fichero ha cambiado desde entonces
+      const checks = applied.map(record => {
+        const file = filesByVersion.get(record.version);
+        if (!file) {
+          return { version: record.version, name: record.name, status: 'missing_file' as const };
+        }
+
+        const up = readMigration(file).up;
+        const meta = metadata.get(record.version);
+        if (meta) {
+          return {
+            version: record.version,
+            name: record.name,
+            status: migrationChecksum(up) === meta.checksum ? 'ok' as const : 'modified' as const,
+            verifiedBy: 'checksum',
+            appliedAt: meta.appliedAt
+          };
+        }
+
+        // Aplicada con Supabase CLI: solo se pueden comparar las sentencias registradas
+        const recorded = normalizeStatements(record.statements);
+        if (recorded.length === 0) {
+          return { version: record.version, name: record.name, status: 'unverified' as const };
+        }
+        const current = normalizeStatements(splitSQLStatements(up));
+        const identical = current.length === recorded.length && current.every((statement, i) => statement === recorded[i]);
+        return {
+          version: record.version,
+          name: record.name,
+          status: identical ? 'ok' as const : 'modified' as const,
+          verifiedBy: 'statements'
+        };
+      });
+
+      const modified = checks.filter(check => check.status === 'modified').map(check => check.version);
+      const missingFiles = checks.filter(check => check.status === 'missing_file').map(check => check.version);
+
+      // 2. Cambios en el catálogo respecto al guardado tras la última migración aplicada
+      let drift: Record<string, unknown> | null = null;
+      let drifted = false;
+
+      if (checkDrift) {
+        const last = applied[applied.length - 1];
+        const snapshots = last && metadata.get(last.version)?.hasSnapshot
+          ? await getMigrationSnapshots(client, last.version)
+          : null;
+
+        if (!last) {
+          drift = { status: 'unknown', reason: 'No hay migraciones aplicadas' };
+        } else if (!snapshots) {
+          drift = {
+            status: 'unknown',
+            baselineVersion: last.version,
+            reason: `La migración ${last.version} no tiene catálogo guardado (se aplicó fuera de esta herramienta)`
+          };
+        } else {
+          const schemas = [];
+          for (const recordedSnapshot of snapshots) {
+            const live = await introspectSchema(client, recordedSnapshot.schema);
+            const diff = diffSchemas(recordedSnapshot, live);
+            schemas.push({ schema: recordedSnapshot.schema, ...diff });
+          }
+          drifted = schemas.some(schema => !schema.identical);
+          drift = {
+            status: drifted ? 'drifted' : 'clean',
+            baselineVersion: last.version,
+            schemas
+          };
+        }
+      }
+
+      return {
+        success: true,
+        valid: modified.length === 0 && missingFiles.length === 0 && !drifted,
+        modified,
+        missingFiles,
+        migrations: checks,
+        drift
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'verify_migrations');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleBaselineMigration = async ({ name, schemas, markApplied, dryRun }: BaselineMigrationArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+    const targetSchemas = (schemas ?? migrations.schemas).map(schema => sanitizeSQLIdentifier(schema));
+
+    return await connection.withClient(async (client) => {
+      const files = listMigrationFiles(migrations);
+      const applied = await getAppliedMigrations(client);
+
+      if (files.length > 0 || applied.length > 0) {
+        return {
+          success: false,
+          error: `Ya hay migraciones (${files.length} ficheros, ${applied.length} aplicadas); la migración base solo se genera con el historial vacío. Para compactar migraciones existentes usa squash_migrations`
+        };
+      }
+
+      const baseline = await buildBaselineMigration(client, targetSchemas);
+      if (!baseline.up) {
+        return {
+          success: false,
+          error: `No hay objetos que incluir en los esquemas ${targetSchemas.join(', ')}`
+        };
+      }
+
+      const slug = slugifyMigrationName(name);
+      const version = nextMigrationVersion([]);
+
+      if (dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          version,
+          name: slug,
+          summary: baseline.summary,
+          warnings: baseline.warnings,
+          up: baseline.up
+        };
+      }
+
+      // Sin rollback: revertir la base dejaría la base de datos vacía
+      const file = writeMigration(migrations, version, slug, baseline.up);
+
+      if (markApplied) {
+        try {
+          await ensureMigrationHistory(client);
+          await withMigrationLock(client, async () => {
+            await client.query('BEGIN');
+            try {
+              await recordAppliedMigration(client, version, slug, baseline.up, baseline.snapshots);
+              await client.query('COMMIT');
+            } catch (error) {
+              await client.query('ROLLBACK');
+              throw error;
+            }
+          });
+        } catch (error) {
+          removeMigrationFiles(file);
+          throw error;
+        }
+      }
+
+      logInfo(`Migración base '${file.fileName}' creada${markApplied ? ' y marcada como aplicada' : ''}`);
+
+      return {
+        success: true,
+        migration: {
+          version,
+          name: slug,
+          path: file.path
+        },
+        markedApplied: markApplied,
+        summary: baseline.summary,
+        warnings: baseline.warnings,
+        message: `Migración base '${file.fileName}' creada${markApplied ? ' y marcada como aplicada' : ''}`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'baseline_migration');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleSquashMigrations = async ({ from, to, name, dryRun }: SquashMigrationsArgs) => {
+  const connection = getConnection();
+
+  try {
+    if (from >= to) {
+      return {
+        success: false,
+        error: 'La versión inicial debe ser anterior a la final'
+      };
+    }
+
+    const { migrations } = connection.getConfig();
+    const files = listMigrationFiles(migrations);
+    const range = files.filter(file => file.version >= from && file.version <= to);
+
+    if (range[0]?.version !== from || range[range.length - 1]?.version !== to) {
+      return {
+        success: false,
+        error: `Las versiones ${from} y ${to} deben corresponder a ficheros del directorio de migraciones`
+      };
+    }
+
+    return await connection.withClient(async (client) => {
+      const applied = await getAppliedMigrations(client);
+      const appliedVersions = new Set(applied.map(migration => migration.version));
+      const fileVersions = new Set(range.map(file => file.version));
+      const progress = await getMigrationProgress(client);
+
+      // Solo se compacta historia ya aplicada, completa y con fichero
+      const pending = range.filter(file => !appliedVersions.has(file.version)).map(file => file.version);
+      if (pending.length > 0) {
+        return {
+          success: false,
+          error: `Todas las migraciones del rango deben estar aplicadas; pendientes: ${pending.join(', ')}`
+        };
+      }
+      const withoutFile = applied
+        .filter(migration => migration.version >= from && migration.version <= to && !fileVersions.has(migration.version))
+        .map(migration => migration.version);
+      if (withoutFile.length > 0) {
+        return {
+          success: false,
+          error: `Migraciones aplicadas sin fichero en el rango: ${withoutFile.join(', ')}; ejecuta sync_migrations primero`
+        };
+      }
+      const partial = range.filter(file => progress.has(file.version)).map(file => file.version);
+      if (partial.length > 0) {
+        return {
+          success: false,
+          error: `Migraciones a medias en el rango: ${partial.join(', ')}`
+        };
+      }
+
+      const contents = range.map(readMigration);
+      const transactional = contents.every(migration => isTransactionalSQL(migration.up));
+      const sections = contents.map(migration => `-- ${migration.version}_${migration.name}\n${stripNoTransactionDirective(migration.up)}`);
+      const up = [...(transactional ? [] : [NO_TRANSACTION_DIRECTIVE]), ...sections].join('\n\n');
+
+      const withoutRollback = contents.filter(migration => migration.down === undefined).map(migration => migration.version);
+      const down = withoutRollback.length > 0
+        ? undefined
+        : [
+          ...(contents.every(migration => isTransactionalSQL(migration.down!)) ? [] : [NO_TRANSACTION_DIRECTIVE]),
+          ...contents.slice().reverse().map(migration => `-- ${migration.version}_${migration.name}\n${stripNoTransactionDirective(migration.down!)}`)
+        ].join('\n\n');
+      const warnings = withoutRollback.length > 0
+        ? [`Sin rollback: las migraciones ${withoutRollback.join(', ')} no tienen SQL de reversión`]
+        : [];
+
+      const slug = name ? slugifyMigrationName(name) : contents[contents.length - 1]!.name;
+      const squashed = range.map(file => file.version);
+
+      if (dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          version: to,
+          name: slug,
+          squashed,
+          transactional,
+          warnings,
+          up,
+          down: down ?? null
+        };
+      }
+
+      await ensureMigrationHistory(client);
+
+      const file = await withMigrationLock(client, async () => {
+        // El catálogo guardado tras la última migración sigue siendo válido para la compactada
+        const snapshots = await getMigrationSnapshots(client, to);
+
+        // El fichero compactado se escribe antes de tocar el historial y los originales solo se borran tras el COMMIT
+        const staged = stageMigration(migrations, to, slug, up, down);
+
+        await client.query('BEGIN');
+        try {
+          for (const version of squashed) {
+            await removeAppliedMigration(client, version);
+          }
+          await recordAppliedMigration(client, to, slug, up, snapshots);
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          removeMigrationFiles(staged);
+          throw error;
+        }
+
+        range.forEach(removeMigrationFiles);
+        return publishStagedMigration(staged);
+      });
+
+      logInfo(`${squashed.length} migraciones compactadas en '${file.fileName}'`);
+
+      return {
+        success: true,
+        migration: {
+          version: to,
+          name: slug,
+          path: file.path,
+          rollbackPath: file.rollbackPath ?? null
+        },
+        squashed,
+        transactional,
+        warnings,
+        message: `${squashed.length} migraciones compactadas en '${file.fileName}'`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'squash_migrations');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+// Reconciliar el directorio de migraciones, el historial de Supabase CLI y la tabla antigua
+export const handleSyncMigrations = async ({ importLegacy, writeMissingFiles, dryRun }: SyncMigrationsArgs) => {
+  const connection = getConnection();
+
+  try {
+    const { migrations } = connection.getConfig();
+
+    return await connection.withClient(async (client) => {
+      if (!dryRun) {
+        await ensureMigrationHistory(client);
+      }
+
+      // Fuera de dryRun se lee y se escribe el historial con el lock de migraciones tomado
+      const sync = async () => {
+        const files = listMigrationFiles(migrations);
+        const applied = await getAppliedMigrations(client);
+        const fileVersions = new Set(files.map(file => file.version));
+        const appliedVersions = new Set(applied.map(migration => migration.version));
+        const takenVersions = new Set([...fileVersions, ...appliedVersions]);
+
+        const imported: { version: string; name: string; applied: boolean }[] = [];
+        const filesWritten: { version: string; name: string }[] = [];
+
+        // 1. Migraciones de la tabla antigua public.supabase_migrations
+        if (importLegacy) {
+          const legacy = await client.query(`SELECT to_regclass('public.supabase_migrations') IS NOT NULL AS exists;`);
+
+          if (legacy.rows[0]?.exists) {
+            const rows = await client.query(`
+              SELECT name, up_sql, down_sql, applied, created_at
+              FROM public.supabase_migrations
+              ORDER BY created_at ASC;
+            `);
+            const existingNames = new Set(files.map(file => file.name));
+            const toImport: { version: string; name: string; up: string; down: string | null; applied: boolean }[] = [];
+
+            for (const row of rows.rows) {
+              const slug = slugifyMigrationName(row.name);
+              if (existingNames.has(slug)) {
+                continue;
+              }
+
+              const version = nextMigrationVersion(takenVersions, new Date(row.created_at));
+              takenVersions.add(version);
+              existingNames.add(slug);
+              toImport.push({ version, name: slug, up: row.up_sql, down: row.down_sql, applied: !!row.applied });
+            }
+
+            // Ficheros e historial se importan juntos: si algo falla no queda ninguna migración a medias
+            if (!dryRun && toImport.length > 0) {
+              const written: MigrationFile[] = [];
+              await client.query('BEGIN');
+              try {
+                for (const migration of toImport) {
+                  written.push(writeMigration(migrations, migration.version, migration.name, migration.up, migration.down ?? undefined));
+                  // Las ya aplicadas se registran sin volver a ejecutarlas
+                  if (migration.applied) {
+                    await recordAppliedMigration(client, migration.version, migration.name, migration.up);
+                  }
+                }
+                await client.query('COMMIT');
+              } catch (error) {
+                await client.query('ROLLBACK');
+                written.forEach(removeMigrationFiles);
+                throw error;
+              }
+            }
+
+            imported.push(...toImport.map(({ version, name, applied }) => ({ version, name, applied })));
+          }
+        }
+
+        // 2. Migraciones aplicadas (p. ej. con `supabase db push` desde otra máquina) sin fichero local
+        if (writeMissingFiles) {
+          for (const migration of applied) {
+            if (fileVersions.has(migration.version)) {
+              continue;
+            }
+            const name = migration.name ? slugifyMigrationName(migration.name) : 'remote_migration';
+            if (!dryRun) {
+              writeMigration(migrations, migration.version, name, statementsToSQL(migration.statements));
+            }
+            filesWritten.push({ version: migration.version, name });
+          }
+        }
+
+        // 3. Ficheros pendientes de aplicar
+        const pending = files
+          .filter(file => !appliedVersions.has(file.version))
+          .map(file => ({ version: file.version, name: file.name }));
+
+        if (!dryRun) {
+          logInfo(`Migraciones sincronizadas: ${imported.length} importadas, ${filesWritten.length} ficheros escritos`);
+        }
+
+        return {
+          success: true,
+          dryRun,
+          directory: migrations.dir,
+          imported,
+          filesWritten,
+          pending
+        };
+      };
+
+      return dryRun ? await sync() : await withMigrationLock(client, sync);
+    });
+  } catch (error) {
+    logError(error as Error, 'sync_migrations');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const migrationTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_migration',
+    description: 'Crear una nueva migración como fichero <version>_<nombre>.sql en el directorio de migraciones de Supabase CLI',
+    schema: CreateMigrationSchema,
+    handler: handleCreateMigration,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_migrations',
+    description: 'Listar las migraciones del directorio y del historial de la base de datos',
+    schema: EmptyArgsSchema,
+    handler: handleListMigrations,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'lint_migration',
+    description: 'Revisar una migración (o un SQL) en busca de operaciones peligrosas: reescrituras de tablas, índices sin CONCURRENTLY, columnas usadas por vistas o políticas, tablas sin RLS y defaults volátiles',
+    schema: LintMigrationSchema,
+    handler: handleLintMigration,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'apply_migration',
+    description: 'Aplicar una migración específica, tras pasar lint_migration, y registrarla en supabase_migrations.schema_migrations',
+    schema: ApplyMigrationSchema,
+    handler: handleApplyMigration,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'rollback_migration',
+    description: 'Revertir una migración específica con su SQL de reversión',
+    schema: MigrationVersionSchema,
+    handler: handleRollbackMigration,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'migrate_up',
+    description: 'Aplicar en orden todas las migraciones pendientes o hasta una versión/nombre, con bloqueo para evitar ejecuciones simultáneas',
+    schema: MigrateUpSchema,
+    handler: handleMigrateUp,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'migrate_down',
+    description: 'Revertir en orden las últimas N migraciones aplicadas o hasta una versión/nombre, con bloqueo para evitar ejecuciones simultáneas',
+    schema: MigrateDownSchema,
+    handler: handleMigrateDown,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'get_migration_status',
+    description: 'Obtener el estado de las migraciones',
+    schema: EmptyArgsSchema,
+    handler: handleGetMigrationStatus,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'verify_migrations',
+    description: 'Detectar migraciones aplicadas cuyo fichero se ha modificado y cambios en el esquema hechos fuera de las migraciones',
+    schema: VerifyMigrationsSchema,
+    handler: handleVerifyMigrations,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'baseline_migration',
+    description: 'Generar una migración base con el esquema actual (tipos, tablas, vistas, funciones, políticas y privilegios) y marcarla como aplicada',
+    schema: BaselineMigrationSchema,
+    handler: handleBaselineMigration,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'squash_migrations',
+    description: 'Compactar un rango de migraciones aplicadas en una sola migración equivalente',
+    schema: SquashMigrationsSchema,
+    handler: handleSquashMigrations,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'sync_migrations',
+    description: 'Reconciliar el directorio de migraciones con el historial de la base de datos e importar las migraciones de la tabla antigua',
+    schema: SyncMigrationsSchema,
+    handler: handleSyncMigrations,
+    readOnly: false,
+    destructive: false
+  })
+];
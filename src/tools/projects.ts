@@ -0,0 +1,62 @@
+import { defineTool, ToolDefinition } from './registry.js';
+import { listProjects, switchProject, getActiveProject } from '../utils/connection.js';
+import { SwitchProjectArgs, SwitchProjectSchema, EmptyArgsSchema } from '../types/mcp.js';
+import { logError, logInfo } from '../utils/logger.js';
+
+export const handleListProjects = async () => {
+  try {
+    return {
+      success: true,
+      activeProject: getActiveProject(),
+      projects: listProjects()
+    };
+  } catch (error) {
+    logError(error as Error, 'list_projects');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleSwitchProject = async ({ name }: SwitchProjectArgs) => {
+  try {
+    const previousProject = getActiveProject();
+    const connection = await switchProject(name);
+
+    logInfo(`Proyecto activo cambiado de '${previousProject}' a '${name}'`);
+
+    return {
+      success: true,
+      previousProject,
+      activeProject: name,
+      readOnly: connection.getConfig().readOnly,
+      message: `Proyecto activo: ${name}`
+    };
+  } catch (error) {
+    logError(error as Error, 'switch_project');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const projectTools: ToolDefinition[] = [
+  defineTool({
+    name: 'list_projects',
+    description: 'Listar los proyectos de Supabase configurados en el fichero de perfiles',
+    schema: EmptyArgsSchema,
+    handler: handleListProjects,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'switch_project',
+    description: 'Cambiar el proyecto activo usado por defecto en las herramientas',
+    schema: SwitchProjectSchema,
+    handler: handleSwitchProject,
+    readOnly: true,
+    destructive: false
+  })
+];
@@ -1,68 +1,12 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput } from '../utils/validation.js';
-import { CreateRealtimeSubscriptionArgs, CreateRealtimeSubscriptionSchema } from '../types/mcp.js';
+import { CreateRealtimeSubscriptionArgs, CreateRealtimeSubscriptionSchema, RealtimeSubscriptionIdArgs, RealtimeSubscriptionIdSchema, EmptyArgsSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
 
-export const realtimeTools: Tool[] = [
-  {
-    name: 'create_realtime_subscription',
-    description: 'Crear una suscripción en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        filter: {
-          type: 'string',
-          description: 'Filtro para la suscripción'
-        },
-        event: {
-          type: 'string',
-          enum: ['INSERT', 'UPDATE', 'DELETE', '*'],
-          description: 'Tipo de evento a escuchar',
-          default: '*'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'list_realtime_subscriptions',
-    description: 'Listar todas las suscripciones en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'delete_realtime_subscription',
-    description: 'Eliminar una suscripción en tiempo real',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        subscriptionId: {
-          type: 'string',
-          description: 'ID de la suscripción'
-        }
-      },
-      required: ['subscriptionId']
-    }
-  }
-];
-
 // Almacenar suscripciones activas
 const activeSubscriptions = new Map<string, any>();
 
-export const handleCreateRealtimeSubscription = async (args: unknown) => {
-  const { schema, table, filter, event } = validateInput(CreateRealtimeSubscriptionSchema, args);
+export const handleCreateRealtimeSubscription = async ({ schema, table, filter, event }: CreateRealtimeSubscriptionArgs) => {
   const connection = getConnection();
   
   try {
@@ -149,8 +93,7 @@ export const handleListRealtimeSubscriptions = async () => {
   }
 };
 
-export const handleDeleteRealtimeSubscription = async (args: unknown) => {
-  const { subscriptionId } = args as { subscriptionId: string };
+export const handleDeleteRealtimeSubscription = async ({ subscriptionId }: RealtimeSubscriptionIdArgs) => {
   
   try {
     const subscription = activeSubscriptions.get(subscriptionId);
@@ -181,4 +124,31 @@ export const handleDeleteRealtimeSubscription = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const realtimeTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_realtime_subscription',
+    description: 'Crear una suscripción en tiempo real',
+    schema: CreateRealtimeSubscriptionSchema,
+    handler: handleCreateRealtimeSubscription,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_realtime_subscriptions',
+    description: 'Listar todas las suscripciones en tiempo real',
+    schema: EmptyArgsSchema,
+    handler: handleListRealtimeSubscriptions,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'delete_realtime_subscription',
+    description: 'Eliminar una suscripción en tiempo real',
+    schema: RealtimeSubscriptionIdSchema,
+    handler: handleDeleteRealtimeSubscription,
+    readOnly: true,
+    destructive: false
+  })
+];
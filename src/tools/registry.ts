@@ -0,0 +1,81 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { validateInput } from '../utils/validation.js';
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (args: z.infer<S>) => Promise<unknown>;
+  // No modifica datos ni esquema
+  readOnly: boolean;
+  // Puede borrar datos o estructura de forma irreversible
+  destructive: boolean;
+  // Aplica su propio control del modo de solo lectura (p. ej. database_query)
+  enforcesReadOnly?: boolean;
+}
+
+// Mantiene el tipo de los argumentos del handler ligado al esquema declarado
+export const defineTool = <S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition =>
+  definition as unknown as ToolDefinition;
+
+const toInputSchema = (schema: z.ZodTypeAny): Tool['inputSchema'] => {
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    target: 'jsonSchema7'
+  }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+
+  return {
+    ...jsonSchema,
+    type: 'object',
+    properties: (jsonSchema.properties ?? {}) as Record<string, unknown>
+  };
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(...definitions: ToolDefinition[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Herramienta duplicada en el registro: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+    return this;
+  }
+
+  get(name: string): ToolDefinition {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw new Error(`Herramienta desconocida: ${name}`);
+    }
+    return definition;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  // Definiciones MCP con el JSON Schema generado a partir del esquema zod
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toInputSchema(definition.schema),
+      annotations: {
+        readOnlyHint: definition.readOnly,
+        destructiveHint: definition.destructive
+      }
+    }));
+  }
+
+  // Validar la entrada contra el esquema y ejecutar el handler
+  async call(name: string, args: unknown): Promise<unknown> {
+    const definition = this.get(name);
+    const input = validateInput(definition.schema, args ?? {});
+    return definition.handler(input);
+  }
+}
@@ -1,141 +1,16 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput, sanitizeSQLIdentifier } from '../utils/validation.js';
-import { CreateRLSPolicyArgs, CreateRLSPolicySchema } from '../types/mcp.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import { CreateRLSPolicyArgs, CreateRLSPolicySchema, RLSTableArgs, RLSTableSchema, DeleteRLSPolicyArgs, DeleteRLSPolicySchema, TestRLSPolicyArgs, TestRLSPolicySchema, AuditRLSArgs, AuditRLSSchema, ApplyRLSTemplateArgs, ApplyRLSTemplateSchema, AlterRLSPolicyArgs, AlterRLSPolicySchema, RevertRLSPolicyArgs, RevertRLSPolicySchema, RLSPolicyHistoryArgs, RLSPolicyHistorySchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
+import { StatementClass, classifySQL, qualifiedName, quoteIdentifier } from '../utils/sql.js';
+import { formatRows } from '../utils/result-format.js';
+import { PolicyDefinition, adaptToCommand, alterPolicySQL, createPolicySQL, dropPolicySQL, ensurePolicyHistory, getPolicyDefinition, getPolicyHistoryEntry, listPolicyHistory, recordPolicyVersion } from '../utils/policy-history.js';
+import { auditRLS } from '../utils/rls-audit.js';
+import { DEFAULT_CLAIMS, TemplateParams, buildTemplatePolicies, parseClaimPath, templateColumns, templatePolicySQL } from '../utils/rls-templates.js';
+import { resolveIdentity, sampleTable, simulateTableAccess, toSimulationError, withSimulatedRole } from '../utils/rls-simulation.js';
 
-export const rlsTools: Tool[] = [
-  {
-    name: 'create_rls_policy',
-    description: 'Crear una política de Row Level Security',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre de la política'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        },
-        command: {
-          type: 'string',
-          enum: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL'],
-          description: 'Comando al que aplicar la política'
-        },
-        permissive: {
-          type: 'boolean',
-          description: 'Si la política es permisiva',
-          default: true
-        },
-        roles: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Roles a los que aplicar la política',
-          default: ['authenticated']
-        },
-        using: {
-          type: 'string',
-          description: 'Expresión USING para la política'
-        },
-        withCheck: {
-          type: 'string',
-          description: 'Expresión WITH CHECK para la política'
-        }
-      },
-      required: ['name', 'table', 'command']
-    }
-  },
-  {
-    name: 'list_rls_policies',
-    description: 'Listar todas las políticas RLS de una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'delete_rls_policy',
-    description: 'Eliminar una política RLS',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        policyName: {
-          type: 'string',
-          description: 'Nombre de la política'
-        },
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['policyName', 'table']
-    }
-  },
-  {
-    name: 'enable_rls',
-    description: 'Habilitar RLS en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  },
-  {
-    name: 'disable_rls',
-    description: 'Deshabilitar RLS en una tabla',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        table: {
-          type: 'string',
-          description: 'Nombre de la tabla'
-        },
-        schema: {
-          type: 'string',
-          description: 'Esquema de la base de datos',
-          default: 'public'
-        }
-      },
-      required: ['table']
-    }
-  }
-];
-
-export const handleCreateRLSPolicy = async (args: unknown) => {
-  const { name, table, schema, command, permissive, roles, using, withCheck } = validateInput(CreateRLSPolicySchema, args);
+export const handleCreateRLSPolicy = async ({ name, table, schema, command, permissive, roles, using, withCheck }: CreateRLSPolicyArgs) => {
   const connection = getConnection();
   
   try {
@@ -166,7 +41,7 @@ export const handleCreateRLSPolicy = async (args: unknown) => {
     
     query += ';';
     
-    await connection.getPgClient().query(query);
+    await connection.query(query);
     
     logInfo(`Política RLS '${name}' creada exitosamente en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -183,8 +58,7 @@ export const handleCreateRLSPolicy = async (args: unknown) => {
   }
 };
 
-export const handleListRLSPolicies = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleListRLSPolicies = async ({ table, schema }: RLSTableArgs) => {
   const connection = getConnection();
   
   try {
@@ -205,7 +79,7 @@ export const handleListRLSPolicies = async (args: unknown) => {
       WHERE p.tablename = $1 AND n.nspname = $2;
     `;
     
-    const result = await connection.getPgClient().query(query, [sanitizedTable, sanitizedSchema]);
+    const result = await connection.query(query, [sanitizedTable, sanitizedSchema]);
     
     return {
       success: true,
@@ -220,12 +94,7 @@ export const handleListRLSPolicies = async (args: unknown) => {
   }
 };
 
-export const handleDeleteRLSPolicy = async (args: unknown) => {
-  const { policyName, table, schema = 'public' } = args as {
-    policyName: string;
-    table: string;
-    schema?: string;
-  };
+export const handleDeleteRLSPolicy = async ({ policyName, table, schema }: DeleteRLSPolicyArgs) => {
   const connection = getConnection();
   
   try {
@@ -235,7 +104,22 @@ export const handleDeleteRLSPolicy = async (args: unknown) => {
     
     const query = `DROP POLICY IF EXISTS ${sanitizedPolicy} ON ${sanitizedSchema}.${sanitizedTable};`;
     
-    await connection.getPgClient().query(query);
+    await connection.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        // Guardar la definición para poder restaurarla con revert_rls_policy
+        const current = await getPolicyDefinition(client, sanitizedSchema, sanitizedTable, sanitizedPolicy);
+        if (current) {
+          await ensurePolicyHistory(client);
+          await recordPolicyVersion(client, current, 'delete');
+        }
+        await client.query(query);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
     
     logInfo(`Política RLS '${policyName}' eliminada exitosamente de ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -252,8 +136,171 @@ export const handleDeleteRLSPolicy = async (args: unknown) => {
   }
 };
 
-export const handleEnableRLS = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleAlterRLSPolicy = async ({ name, table, schema, newName, command, permissive, roles, using, withCheck }: AlterRLSPolicyArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedName = sanitizeSQLIdentifier(name);
+    const sanitizedTable = sanitizeSQLIdentifier(table);
+    const sanitizedSchema = sanitizeSQLIdentifier(schema);
+    
+    return await connection.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const current = await getPolicyDefinition(client, sanitizedSchema, sanitizedTable, sanitizedName);
+        if (!current) {
+          await client.query('ROLLBACK');
+          return {
+            success: false,
+            error: `Política '${name}' no encontrada en ${sanitizedSchema}.${sanitizedTable}`
+          };
+        }
+        
+        let next: PolicyDefinition = {
+          ...current,
+          name: newName ? sanitizeSQLIdentifier(newName) : current.name,
+          command: command ?? current.command,
+          permissive: permissive ?? current.permissive,
+          roles: roles ?? current.roles,
+          using: using ?? current.using,
+          withCheck: withCheck ?? current.withCheck
+        };
+        const recreate = next.command !== current.command || next.permissive !== current.permissive;
+        if (next.command !== current.command) {
+          next = adaptToCommand(next);
+        }
+        
+        // Recrear en la misma transacción evita que la tabla quede sin la política entre DROP y CREATE
+        const statements = recreate ? [dropPolicySQL(current), createPolicySQL(next)] : alterPolicySQL(current, next);
+        if (statements.length === 0) {
+          await client.query('ROLLBACK');
+          return {
+            success: false,
+            error: `La política '${name}' ya tiene esa definición`
+          };
+        }
+        
+        await ensurePolicyHistory(client);
+        const historyId = await recordPolicyVersion(client, current, recreate ? 'recreate' : 'alter');
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query('COMMIT');
+        
+        logInfo(`Política RLS '${name}' modificada en ${sanitizedSchema}.${sanitizedTable}${recreate ? ' (recreada)' : ''}`);
+        
+        return {
+          success: true,
+          message: `Política RLS '${next.name}' modificada exitosamente`,
+          mode: recreate ? 'recreate' : 'alter',
+          historyId,
+          previous: current,
+          policy: next,
+          sql: statements.join('\n')
+        };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  } catch (error) {
+    logError(error as Error, 'alter_rls_policy');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleListRLSPolicyHistory = async ({ table, schema, name }: RLSPolicyHistoryArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedSchema = sanitizeSQLIdentifier(schema);
+    const sanitizedTable = table ? sanitizeSQLIdentifier(table) : undefined;
+    const sanitizedName = name ? sanitizeSQLIdentifier(name) : undefined;
+    
+    const history = await connection.withClient(client => listPolicyHistory(client, sanitizedSchema, sanitizedTable, sanitizedName));
+    
+    return {
+      success: true,
+      history
+    };
+  } catch (error) {
+    logError(error as Error, 'list_rls_policy_history');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleRevertRLSPolicy = async ({ name, table, schema, historyId }: RevertRLSPolicyArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedName = sanitizeSQLIdentifier(name);
+    const sanitizedTable = sanitizeSQLIdentifier(table);
+    const sanitizedSchema = sanitizeSQLIdentifier(schema);
+    
+    return await connection.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        await ensurePolicyHistory(client);
+        const entry = historyId !== undefined
+          ? await getPolicyHistoryEntry(client, historyId)
+          : (await listPolicyHistory(client, sanitizedSchema, sanitizedTable, sanitizedName))[0] ?? null;
+        if (!entry || entry.schema !== sanitizedSchema || entry.table !== sanitizedTable) {
+          await client.query('ROLLBACK');
+          return {
+            success: false,
+            error: historyId !== undefined
+              ? `La entrada ${historyId} del historial no existe o no es de ${sanitizedSchema}.${sanitizedTable}`
+              : `No hay versiones anteriores de '${name}' en ${sanitizedSchema}.${sanitizedTable}; consulta list_rls_policy_history si se renombró`
+          };
+        }
+        
+        const statements: string[] = [];
+        // La definición actual también se guarda, así la reversión se puede deshacer
+        const current = await getPolicyDefinition(client, sanitizedSchema, sanitizedTable, sanitizedName);
+        if (current) {
+          await recordPolicyVersion(client, current, 'revert');
+          statements.push(dropPolicySQL(current));
+        }
+        if (entry.name !== sanitizedName && await getPolicyDefinition(client, sanitizedSchema, sanitizedTable, entry.name)) {
+          throw new Error(`Ya existe otra política '${entry.name}' en ${sanitizedSchema}.${sanitizedTable}`);
+        }
+        statements.push(createPolicySQL(entry));
+        
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query('COMMIT');
+        
+        logInfo(`Política RLS '${entry.name}' restaurada a la versión ${entry.id} en ${sanitizedSchema}.${sanitizedTable}`);
+        
+        return {
+          success: true,
+          message: `Política RLS '${entry.name}' restaurada a la versión ${entry.id}`,
+          restored: entry,
+          previous: current,
+          sql: statements.join('\n')
+        };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  } catch (error) {
+    logError(error as Error, 'revert_rls_policy');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleEnableRLS = async ({ table, schema }: RLSTableArgs) => {
   const connection = getConnection();
   
   try {
@@ -262,7 +309,7 @@ export const handleEnableRLS = async (args: unknown) => {
     
     const query = `ALTER TABLE ${sanitizedSchema}.${sanitizedTable} ENABLE ROW LEVEL SECURITY;`;
     
-    await connection.getPgClient().query(query);
+    await connection.query(query);
     
     logInfo(`RLS habilitado en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -279,8 +326,7 @@ export const handleEnableRLS = async (args: unknown) => {
   }
 };
 
-export const handleDisableRLS = async (args: unknown) => {
-  const { table, schema = 'public' } = args as { table: string; schema?: string };
+export const handleDisableRLS = async ({ table, schema }: RLSTableArgs) => {
   const connection = getConnection();
   
   try {
@@ -289,7 +335,7 @@ export const handleDisableRLS = async (args: unknown) => {
     
     const query = `ALTER TABLE ${sanitizedSchema}.${sanitizedTable} DISABLE ROW LEVEL SECURITY;`;
     
-    await connection.getPgClient().query(query);
+    await connection.query(query);
     
     logInfo(`RLS deshabilitado en ${sanitizedSchema}.${sanitizedTable}`);
     
@@ -304,4 +350,363 @@ export const handleDisableRLS = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+const TESTABLE_CLASSES: StatementClass[] = ['read', 'write'];
+
+export const handleTestRLSPolicy = async ({ table, schema, role, claims, query, params, limit, matrix, roles, row }: TestRLSPolicyArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
+    const sanitizedTable = table ? sanitizeSQLIdentifier(table) : undefined;
+    
+    const { readOnly, results } = connection.getConfig();
+    // En modo de solo lectura no se prueban escrituras, aunque se reviertan
+    const testableClasses = readOnly ? TESTABLE_CLASSES.filter(cls => cls === 'read') : TESTABLE_CLASSES;
+    
+    let statement = sanitizedTable ? `SELECT * FROM ${qualifiedName(sanitizedSchema, sanitizedTable)} LIMIT ${limit + 1}` : '';
+    if (query && !matrix) {
+      const statements = classifySQL(query);
+      if (statements.length !== 1) {
+        return {
+          success: false,
+          error: `test_rls_policy ejecuta una única sentencia y se recibieron ${statements.length}`
+        };
+      }
+      if (statements[0]!.class === 'transaction') {
+        return {
+          success: false,
+          error: `No se puede probar ${statements[0]!.command}: el control de transacciones rompería la transacción revertida de la prueba`
+        };
+      }
+      if (!testableClasses.includes(statements[0]!.class)) {
+        return {
+          success: false,
+          error: readOnly
+            ? `No se puede probar ${statements[0]!.command}: en modo de solo lectura solo se admiten sentencias de lectura`
+            : `No se puede probar ${statements[0]!.command}: solo se admiten sentencias de lectura o escritura de datos`
+        };
+      }
+      statement = statements[0]!.statement;
+    }
+    
+    return await connection.withClient(async (client) => {
+      // Siempre se revierte: las escrituras de prueba nunca se confirman
+      await client.query(readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+      try {
+        if (sanitizedSchema !== 'public') {
+          await client.query(`SET LOCAL search_path TO ${sanitizedSchema}, public`);
+        }
+        
+        if (matrix) {
+          const name = qualifiedName(sanitizedSchema, sanitizedTable!);
+          const info = await client.query(
+            'SELECT relrowsecurity AS rls_enabled, relforcerowsecurity AS rls_forced FROM pg_class WHERE oid = to_regclass($1);',
+            [name]
+          );
+          if (!info.rows[0]) {
+            return {
+              success: false,
+              error: `Tabla ${sanitizedSchema}.${sanitizedTable} no encontrada`
+            };
+          }
+          
+          const sample = await sampleTable(client, sanitizedSchema, sanitizedTable!, limit);
+          const access = [];
+          for (const entry of roles) {
+            const identity = await resolveIdentity(client, entry, claims);
+            access.push({
+              role: entry,
+              ...(identity.userId ? { userId: identity.userId } : {}),
+              ...await simulateTableAccess(client, sample, identity, row)
+            });
+          }
+          
+          return {
+            success: true,
+            table: `${sanitizedSchema}.${sanitizedTable}`,
+            rlsEnabled: info.rows[0].rls_enabled,
+            rlsForced: info.rows[0].rls_forced,
+            sampleSize: sample.size,
+            matrix: access
+          };
+        }
+        
+        const identity = await resolveIdentity(client, role, claims);
+        const identityInfo = { role: identity.role, userId: identity.userId, claims: identity.claims };
+        
+        try {
+          const result = await withSimulatedRole(client, identity, () => client.query(statement, params));
+          const formatted = formatRows(
+            result.rows.slice(0, limit),
+            (result.fields ?? []).map(field => field.name),
+            'json',
+            results.maxResponseBytes
+          );
+          
+          return {
+            success: true,
+            ...identityInfo,
+            allowed: true,
+            command: result.command,
+            rowCount: result.rowCount,
+            rows: formatted.data,
+            truncated: formatted.truncated || result.rows.length > limit,
+            ...(result.command === 'SELECT' && result.rows.length === 0
+              ? { note: 'Sin filas visibles: las políticas RLS pueden estar filtrándolas todas' }
+              : {})
+          };
+        } catch (error) {
+          return {
+            success: true,
+            ...identityInfo,
+            allowed: false,
+            error: toSimulationError(error)
+          };
+        }
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    });
+  } catch (error) {
+    logError(error as Error, 'test_rls_policy');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleAuditRLS = async ({ schemas }: AuditRLSArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const targetSchemas = (schemas ?? connection.getConfig().migrations.schemas).map(schema => sanitizeSQLIdentifier(schema));
+    
+    const audit = await connection.withClient(client => auditRLS(client, targetSchemas));
+    
+    logInfo(`Auditoría RLS de ${targetSchemas.join(', ')}: ${audit.findings.length} hallazgos (${audit.summary.critical} críticos)`);
+    
+    return {
+      success: true,
+      ...audit
+    };
+  } catch (error) {
+    logError(error as Error, 'audit_rls');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleApplyRLSTemplate = async (args: ApplyRLSTemplateArgs) => {
+  const connection = getConnection();
+  
+  try {
+    const { template, enableRLS, replace, dryRun } = args;
+    const sanitizedTable = sanitizeSQLIdentifier(args.table);
+    const sanitizedSchema = sanitizeSQLIdentifier(args.schema);
+    const name = qualifiedName(sanitizedSchema, sanitizedTable);
+    const claim = args.claim ?? DEFAULT_CLAIMS[template];
+    const membershipName = args.membershipTable
+      ? qualifiedName(sanitizeSQLIdentifier(args.membershipSchema ?? sanitizedSchema), sanitizeSQLIdentifier(args.membershipTable))
+      : null;
+    
+    const params: TemplateParams = {
+      prefix: sanitizeSQLIdentifier(args.prefix ?? sanitizedTable),
+      ownerColumn: sanitizeSQLIdentifier(args.ownerColumn),
+      teamColumn: sanitizeSQLIdentifier(args.teamColumn),
+      membership: membershipName
+        ? {
+          table: membershipName,
+          teamColumn: sanitizeSQLIdentifier(args.membershipTeamColumn),
+          userColumn: sanitizeSQLIdentifier(args.membershipUserColumn)
+        }
+        : null,
+      claimPath: claim ? parseClaimPath(claim) : [],
+      claimValues: args.claimValues ?? [],
+      tenantColumn: sanitizeSQLIdentifier(args.tenantColumn),
+      tenantType: 'text'
+    };
+    
+    return await connection.withClient(async (client) => {
+      // Comprobar que existen las columnas que usa la plantilla antes de generar las políticas
+      const columnTypes = async (relation: string): Promise<Map<string, string> | null> => {
+        const result = await client.query(
+          `SELECT a.attname, format_type(a.atttypid, a.atttypmod) AS type
+           FROM pg_attribute a
+           WHERE a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped;`,
+          [relation]
+        );
+        return result.rows.length > 0 ? new Map(result.rows.map(row => [row.attname, row.type])) : null;
+      };
+      
+      const columns = await columnTypes(name);
+      if (!columns) {
+        return {
+          success: false,
+          error: `Tabla ${sanitizedSchema}.${sanitizedTable} no encontrada`
+        };
+      }
+      const missing = templateColumns(template, params).filter(column => !columns.has(column));
+      if (params.membership) {
+        const membershipColumns = await columnTypes(params.membership.table);
+        if (!membershipColumns) {
+          return {
+            success: false,
+            error: `Tabla de pertenencia ${params.membership.table} no encontrada`
+          };
+        }
+        missing.push(...[params.membership.teamColumn, params.membership.userColumn]
+          .filter(column => !membershipColumns.has(column))
+          .map(column => `${params.membership!.table}.${column}`));
+      }
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: `La plantilla ${template} necesita columnas que no existen: ${missing.join(', ')}`
+        };
+      }
+      params.tenantType = columns.get(params.tenantColumn) ?? 'text';
+      
+      const policies = buildTemplatePolicies(template, params);
+      const statements = [
+        ...(enableRLS ? [`ALTER TABLE ${name} ENABLE ROW LEVEL SECURITY;`] : []),
+        ...(replace ? policies.map(policy => `DROP POLICY IF EXISTS ${quoteIdentifier(policy.name)} ON ${name};`) : []),
+        ...policies.map(policy => templatePolicySQL(name, policy))
+      ];
+      
+      if (dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          template,
+          table: `${sanitizedSchema}.${sanitizedTable}`,
+          policies,
+          sql: statements.join('\n')
+        };
+      }
+      
+      await client.query('BEGIN');
+      try {
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+      
+      logInfo(`Plantilla RLS '${template}' aplicada en ${sanitizedSchema}.${sanitizedTable}: ${policies.length} políticas`);
+      
+      return {
+        success: true,
+        message: `Plantilla RLS '${template}' aplicada en ${sanitizedSchema}.${sanitizedTable}`,
+        policies,
+        sql: statements.join('\n')
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'apply_rls_template');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const rlsTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_rls_policy',
+    description: 'Crear una política de Row Level Security',
+    schema: CreateRLSPolicySchema,
+    handler: handleCreateRLSPolicy,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_rls_policies',
+    description: 'Listar todas las políticas RLS de una tabla',
+    schema: RLSTableSchema,
+    handler: handleListRLSPolicies,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'delete_rls_policy',
+    description: 'Eliminar una política RLS',
+    schema: DeleteRLSPolicySchema,
+    handler: handleDeleteRLSPolicy,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'alter_rls_policy',
+    description: 'Modificar una política RLS con ALTER POLICY (roles, USING, WITH CHECK, nombre), o recrearla en una transacción si cambia el comando o el tipo, guardando la definición anterior en el historial',
+    schema: AlterRLSPolicySchema,
+    handler: handleAlterRLSPolicy,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_rls_policy_history',
+    description: 'Listar las definiciones anteriores de las políticas RLS guardadas al modificarlas, eliminarlas o restaurarlas',
+    schema: RLSPolicyHistorySchema,
+    handler: handleListRLSPolicyHistory,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'revert_rls_policy',
+    description: 'Restaurar una política RLS a una definición del historial (por defecto la más reciente) en una transacción',
+    schema: RevertRLSPolicySchema,
+    handler: handleRevertRLSPolicy,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'enable_rls',
+    description: 'Habilitar RLS en una tabla',
+    schema: RLSTableSchema,
+    handler: handleEnableRLS,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'disable_rls',
+    description: 'Deshabilitar RLS en una tabla',
+    schema: RLSTableSchema,
+    handler: handleDisableRLS,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'test_rls_policy',
+    description: 'Ejecutar una consulta como un rol o usuario (anon, authenticated o el UUID de un usuario) en una transacción revertida, o informar de SELECT/INSERT/UPDATE/DELETE permitido o denegado por rol sobre una tabla; en modo de solo lectura solo admite consultas de lectura',
+    schema: TestRLSPolicySchema,
+    handler: handleTestRLSPolicy,
+    // Las escrituras de prueba se ejecutan aunque se reviertan; el modo de solo lectura lo controla el handler
+    readOnly: false,
+    destructive: false,
+    enforcesReadOnly: true
+  }),
+  defineTool({
+    name: 'audit_rls',
+    description: 'Auditar RLS en los esquemas expuestos: tablas sin RLS, sin políticas o sin FORCE, políticas abiertas a anon, funciones SECURITY DEFINER ejecutables por anon y vistas que eluden RLS, ordenado por gravedad',
+    schema: AuditRLSSchema,
+    handler: handleAuditRLS,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'apply_rls_template',
+    description: 'Crear en una transacción las políticas RLS por comando de una plantilla: owner-only, public-read-owner-write, team-membership, role-claim o tenant-isolation',
+    schema: ApplyRLSTemplateSchema,
+    handler: handleApplyRLSTemplate,
+    readOnly: false,
+    destructive: false
+  })
+];
@@ -0,0 +1,95 @@
+import { defineTool, ToolDefinition } from './registry.js';
+import { Client } from 'pg';
+import { getConnection, getProjectConnection } from '../utils/connection.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import { DiffSchemaArgs, DiffSchemaSchema } from '../types/mcp.js';
+import { logError, logInfo } from '../utils/logger.js';
+import { introspectSchema } from '../utils/introspection.js';
+import { buildSchemaMigration, diffSchemas } from '../utils/schema-diff.js';
+import { SchemaSnapshot } from '../types/supabase.js';
+
+type DiffSide = DiffSchemaArgs['source'];
+
+// Leer un lado de la comparación: conexión independiente, otro proyecto o el proyecto de la llamada
+const snapshotSide = async (side: DiffSide): Promise<SchemaSnapshot> => {
+  const schema = sanitizeSQLIdentifier(side.schema || 'public');
+
+  if (side.connectionString) {
+    // Sesión de solo lectura: la cadena puede apuntar a cualquier base de datos, también en modo de solo lectura
+    const client = new Client({
+      connectionString: side.connectionString,
+      options: '-c default_transaction_read_only=on'
+    });
+    // Un socket caído durante la comparación no debe tumbar el servidor; la consulta en curso ya falla por su cuenta
+    client.on('error', error => logError(error, 'diff_schema'));
+    try {
+      await client.connect();
+      return await introspectSchema(client, schema);
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  const connection = side.project ? await getProjectConnection(side.project) : getConnection();
+  return connection.withClient(client => introspectSchema(client, schema));
+};
+
+const describeSide = (side: DiffSide): string => {
+  const location = side.connectionString ? 'conexión externa' : side.project ? `proyecto '${side.project}'` : 'proyecto actual';
+  return `${side.schema} (${location})`;
+};
+
+const withoutTables = (snapshot: SchemaSnapshot, exclude: string[]): SchemaSnapshot => ({
+  ...snapshot,
+  tables: snapshot.tables.filter(table => !exclude.includes(table.name))
+});
+
+export const handleDiffSchema = async ({ source, target, exclude, includeSQL }: DiffSchemaArgs) => {
+  try {
+    const [sourceSnapshot, targetSnapshot] = await Promise.all([snapshotSide(source), snapshotSide(target)]);
+    const from = withoutTables(sourceSnapshot, exclude);
+    const to = withoutTables(targetSnapshot, exclude);
+
+    logInfo(`Esquemas comparados: ${describeSide(source)} -> ${describeSide(target)}`);
+
+    if (!includeSQL) {
+      return {
+        success: true,
+        source: describeSide(source),
+        target: describeSide(target),
+        diff: diffSchemas(from, to)
+      };
+    }
+
+    const migration = buildSchemaMigration(from, to);
+
+    return {
+      success: true,
+      source: describeSide(source),
+      target: describeSide(target),
+      diff: migration.diff,
+      // Listo para pasarse a create_migration
+      migration: {
+        up: migration.up,
+        down: migration.down
+      }
+    };
+  } catch (error) {
+    logError(error as Error, 'diff_schema');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const schemaDiffTools: ToolDefinition[] = [
+  defineTool({
+    name: 'diff_schema',
+    description: 'Comparar dos esquemas (en la misma base de datos, en otro proyecto o en otra conexión) y generar el SQL up/down de la migración',
+    schema: DiffSchemaSchema,
+    handler: handleDiffSchema,
+    readOnly: true,
+    destructive: false
+  })
+];
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import { defineTool, ToolDefinition } from './registry.js';
+import { getConnection } from '../utils/connection.js';
+import { sanitizeSQLIdentifier } from '../utils/validation.js';
+import { CreateSeedArgs, CreateSeedSchema, RunSeedsArgs, RunSeedsSchema } from '../types/mcp.js';
+import { DatabaseTable } from '../types/supabase.js';
+import { logError, logInfo } from '../utils/logger.js';
+import { introspectTable } from '../utils/introspection.js';
+import { formatRows } from '../utils/result-format.js';
+import { qualifiedName, quoteIdentifier } from '../utils/sql.js';
+import { slugifyMigrationName } from '../utils/migration-files.js';
+import {
+  SeedFile,
+  buildSequenceResets,
+  buildUpsertStatements,
+  fixtureFileName,
+  isValidEnvironment,
+  listSeedFiles,
+  orderByForeignKeys,
+  readFixture,
+  writeSeedFile
+} from '../utils/seeds.js';
+
+export const handleCreateSeed = async ({ environment, name, sql, table, schema, rows, limit, overwrite }: CreateSeedArgs) => {
+  const connection = getConnection();
+
+  try {
+    if (environment !== undefined && !isValidEnvironment(environment)) {
+      return {
+        success: false,
+        error: `Entorno inválido: ${environment}`
+      };
+    }
+
+    const { seedsDir } = connection.getConfig().migrations;
+    const env = environment ?? null;
+
+    if (sql !== undefined) {
+      const seedPath = writeSeedFile(seedsDir, env, `${slugifyMigrationName(name!)}.sql`, sql, overwrite);
+
+      logInfo(`Seed SQL '${seedPath}' creado exitosamente`);
+
+      return {
+        success: true,
+        seed: { path: seedPath, kind: 'sql', environment: env },
+        message: `Seed SQL '${seedPath}' creado exitosamente`
+      };
+    }
+
+    const sanitizedSchema = sanitizeSQLIdentifier(schema || 'public');
+    const sanitizedTable = sanitizeSQLIdentifier(table!);
+
+    const fixtureRows = await connection.withClient(async (client) => {
+      const definition = await introspectTable(client, sanitizedSchema, sanitizedTable);
+      if (!definition) {
+        throw new Error(`Tabla ${sanitizedSchema}.${sanitizedTable} no encontrada`);
+      }
+
+      if (rows) {
+        // Validar columnas y clave primaria antes de escribir el fichero
+        buildUpsertStatements(definition, rows);
+        return rows;
+      }
+
+      // Exportar las filas actuales, ordenadas por la clave primaria para que el fichero sea estable
+      const orderBy = (definition.primaryKey ?? []).map(quoteIdentifier).join(', ');
+      const result = await client.query(
+        `SELECT * FROM ${qualifiedName(sanitizedSchema, sanitizedTable)}${orderBy ? ` ORDER BY ${orderBy}` : ''} LIMIT $1;`,
+        [limit]
+      );
+      const exported = result.rows.map(row => {
+        // Las columnas generadas no se pueden insertar
+        for (const col of definition.columns.filter(column => column.generated !== undefined)) {
+          delete row[col.name];
+        }
+        return row;
+      });
+      return formatRows(exported, result.fields.map(field => field.name), 'json', Number.POSITIVE_INFINITY).data as Record<string, unknown>[];
+    });
+
+    const seedPath = writeSeedFile(
+      seedsDir,
+      env,
+      fixtureFileName(sanitizedSchema, sanitizedTable),
+      JSON.stringify(fixtureRows, null, 2),
+      overwrite
+    );
+
+    logInfo(`Fixture '${seedPath}' creado con ${fixtureRows.length} filas`);
+
+    return {
+      success: true,
+      seed: { path: seedPath, kind: 'fixture', environment: env, table: `${sanitizedSchema}.${sanitizedTable}`, rows: fixtureRows.length },
+      message: `Fixture '${seedPath}' creado con ${fixtureRows.length} filas`
+    };
+  } catch (error) {
+    logError(error as Error, 'create_seed');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const handleRunSeeds = async ({ environment, tables, truncate, dryRun }: RunSeedsArgs) => {
+  const connection = getConnection();
+
+  try {
+    if (!isValidEnvironment(environment)) {
+      return {
+        success: false,
+        error: `Entorno inválido: ${environment}`
+      };
+    }
+
+    const { seedsDir } = connection.getConfig().migrations;
+    const files = listSeedFiles(seedsDir, environment);
+    const matchesFilter = (file: SeedFile) =>
+      !tables || tables.some(name => name === file.name || name === file.table);
+
+    const fixtures = files.filter(file => file.kind === 'fixture' && matchesFilter(file));
+    // Con un filtro de tablas solo se cargan fixtures: el contenido de los SQL no se puede filtrar
+    const sqlSeeds = tables ? [] : files.filter(file => file.kind === 'sql');
+
+    if (fixtures.length === 0 && sqlSeeds.length === 0) {
+      return {
+        success: false,
+        error: `No hay seeds para el entorno '${environment}' en ${seedsDir}`
+      };
+    }
+
+    return await connection.withClient(async (client) => {
+      const definitions: DatabaseTable[] = [];
+      for (const fixture of fixtures) {
+        const definition = await introspectTable(client, fixture.schema!, fixture.table!);
+        if (!definition) {
+          throw new Error(`Tabla ${fixture.name} del fixture ${fixture.fileName} no encontrada`);
+        }
+        definitions.push(definition);
+      }
+
+      const { order, cycles } = orderByForeignKeys(definitions);
+      const fixtureByTable = new Map(fixtures.map(fixture => [fixture.name, fixture]));
+      const orderedFixtures = order.map(definition => ({
+        definition,
+        file: fixtureByTable.get(`${definition.schema}.${definition.name}`)!
+      }));
+      const warnings = cycles.length > 0
+        ? [`Claves foráneas circulares entre ${cycles.join(', ')}: se cargan en el orden de los ficheros (solo funciona con restricciones DEFERRABLE)`]
+        : [];
+
+      const plan = [
+        ...orderedFixtures.map(({ file }) => ({ seed: file.fileName, kind: file.kind, environment: file.environment, table: file.name })),
+        ...sqlSeeds.map(file => ({ seed: file.fileName, kind: file.kind, environment: file.environment }))
+      ];
+
+      if (dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          environment,
+          truncate,
+          plan,
+          warnings
+        };
+      }
+
+      const loaded: { seed: string; rows?: number }[] = [];
+      let current: SeedFile | undefined;
+
+      await client.query('BEGIN');
+      try {
+        await client.query('SET CONSTRAINTS ALL DEFERRED');
+
+        if (truncate && orderedFixtures.length > 0) {
+          await client.query(`TRUNCATE ${orderedFixtures.map(({ definition }) => qualifiedName(definition.schema, definition.name)).join(', ')} RESTART IDENTITY;`);
+        }
+
+        for (const { definition, file } of orderedFixtures) {
+          current = file;
+          const rows = readFixture(file);
+          for (const statement of buildUpsertStatements(definition, rows)) {
+            await client.query(statement.sql, statement.params);
+          }
+          const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+          for (const reset of buildSequenceResets(definition, columns)) {
+            await client.query(reset.sql, reset.params);
+          }
+          loaded.push({ seed: file.fileName, rows: rows.length });
+        }
+
+        for (const file of sqlSeeds) {
+          current = file;
+          await client.query(fs.readFileSync(file.path, 'utf8'));
+          loaded.push({ seed: file.fileName });
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(current ? `Error cargando ${current.fileName}: ${(error as Error).message}` : (error as Error).message);
+      }
+
+      logInfo(`${loaded.length} seeds cargados para el entorno '${environment}'`);
+
+      return {
+        success: true,
+        environment,
+        truncated: truncate,
+        loaded,
+        warnings,
+        message: `${loaded.length} seeds cargados para el entorno '${environment}'`
+      };
+    });
+  } catch (error) {
+    logError(error as Error, 'run_seeds');
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+};
+
+export const seedTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_seed',
+    description: 'Crear un seed SQL o un fixture JSON de una tabla (con las filas indicadas o las actuales), opcionalmente para un entorno',
+    schema: CreateSeedSchema,
+    handler: handleCreateSeed,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'run_seeds',
+    description: 'Cargar los seeds comunes y los del entorno con upserts por clave primaria, respetando el orden de las claves foráneas',
+    schema: RunSeedsSchema,
+    handler: handleRunSeeds,
+    readOnly: false,
+    destructive: true
+  })
+];
@@ -1,146 +1,9 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, ToolDefinition } from './registry.js';
 import { getConnection } from '../utils/connection.js';
-import { validateInput } from '../utils/validation.js';
-import { CreateStorageBucketArgs, CreateStorageBucketSchema } from '../types/mcp.js';
+import { CreateStorageBucketArgs, CreateStorageBucketSchema, UploadFileArgs, UploadFileSchema, StorageFileArgs, StorageFileSchema, ListFilesArgs, ListFilesSchema, EmptyArgsSchema } from '../types/mcp.js';
 import { logError, logInfo } from '../utils/logger.js';
 
-export const storageTools: Tool[] = [
-  {
-    name: 'create_storage_bucket',
-    description: 'Crear un nuevo bucket de almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        public: {
-          type: 'boolean',
-          description: 'Si el bucket es público',
-          default: false
-        },
-        fileSizeLimit: {
-          type: 'number',
-          description: 'Límite de tamaño de archivo en bytes'
-        },
-        allowedMimeTypes: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tipos MIME permitidos'
-        }
-      },
-      required: ['name']
-    }
-  },
-  {
-    name: 'list_storage_buckets',
-    description: 'Listar todos los buckets de almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'upload_file',
-    description: 'Subir un archivo al almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        },
-        fileData: {
-          type: 'string',
-          description: 'Datos del archivo en base64'
-        },
-        contentType: {
-          type: 'string',
-          description: 'Tipo de contenido del archivo'
-        },
-        upsert: {
-          type: 'boolean',
-          description: 'Sobrescribir si existe',
-          default: false
-        }
-      },
-      required: ['bucketName', 'fileName', 'fileData']
-    }
-  },
-  {
-    name: 'download_file',
-    description: 'Descargar un archivo del almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        }
-      },
-      required: ['bucketName', 'fileName']
-    }
-  },
-  {
-    name: 'delete_file',
-    description: 'Eliminar un archivo del almacenamiento',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        fileName: {
-          type: 'string',
-          description: 'Nombre del archivo'
-        }
-      },
-      required: ['bucketName', 'fileName']
-    }
-  },
-  {
-    name: 'list_files',
-    description: 'Listar archivos en un bucket',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        bucketName: {
-          type: 'string',
-          description: 'Nombre del bucket'
-        },
-        folder: {
-          type: 'string',
-          description: 'Carpeta específica',
-          default: ''
-        },
-        limit: {
-          type: 'number',
-          description: 'Límite de archivos a devolver',
-          default: 100
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación',
-          default: 0
-        }
-      },
-      required: ['bucketName']
-    }
-  }
-];
-
-export const handleCreateBucket = async (args: unknown) => {
-  const { name, public: isPublic, fileSizeLimit, allowedMimeTypes } = validateInput(CreateStorageBucketSchema, args);
+export const handleCreateBucket = async ({ name, public: isPublic, fileSizeLimit, allowedMimeTypes }: CreateStorageBucketArgs) => {
   const connection = getConnection();
   
   try {
@@ -213,14 +76,7 @@ export const handleListBuckets = async () => {
   }
 };
 
-export const handleUploadFile = async (args: unknown) => {
-  const { bucketName, fileName, fileData, contentType, upsert } = args as {
-    bucketName: string;
-    fileName: string;
-    fileData: string;
-    contentType?: string;
-    upsert?: boolean;
-  };
+export const handleUploadFile = async ({ bucketName, fileName, fileData, contentType, upsert }: UploadFileArgs) => {
   const connection = getConnection();
   
   try {
@@ -267,11 +123,7 @@ export const handleUploadFile = async (args: unknown) => {
   }
 };
 
-export const handleDownloadFile = async (args: unknown) => {
-  const { bucketName, fileName } = args as {
-    bucketName: string;
-    fileName: string;
-  };
+export const handleDownloadFile = async ({ bucketName, fileName }: StorageFileArgs) => {
   const connection = getConnection();
   
   try {
@@ -309,11 +161,7 @@ export const handleDownloadFile = async (args: unknown) => {
   }
 };
 
-export const handleDeleteFile = async (args: unknown) => {
-  const { bucketName, fileName } = args as {
-    bucketName: string;
-    fileName: string;
-  };
+export const handleDeleteFile = async ({ bucketName, fileName }: StorageFileArgs) => {
   const connection = getConnection();
   
   try {
@@ -346,13 +194,7 @@ export const handleDeleteFile = async (args: unknown) => {
   }
 };
 
-export const handleListFiles = async (args: unknown) => {
-  const { bucketName, folder = '', limit = 100, offset = 0 } = args as {
-    bucketName: string;
-    folder?: string;
-    limit?: number;
-    offset?: number;
-  };
+export const handleListFiles = async ({ bucketName, folder, limit, offset }: ListFilesArgs) => {
   const connection = getConnection();
   
   try {
@@ -385,4 +227,55 @@ export const handleListFiles = async (args: unknown) => {
       error: (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const storageTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_storage_bucket',
+    description: 'Crear un nuevo bucket de almacenamiento',
+    schema: CreateStorageBucketSchema,
+    handler: handleCreateBucket,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'list_storage_buckets',
+    description: 'Listar todos los buckets de almacenamiento',
+    schema: EmptyArgsSchema,
+    handler: handleListBuckets,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'upload_file',
+    description: 'Subir un archivo al almacenamiento',
+    schema: UploadFileSchema,
+    handler: handleUploadFile,
+    readOnly: false,
+    destructive: false
+  }),
+  defineTool({
+    name: 'download_file',
+    description: 'Descargar un archivo del almacenamiento',
+    schema: StorageFileSchema,
+    handler: handleDownloadFile,
+    readOnly: true,
+    destructive: false
+  }),
+  defineTool({
+    name: 'delete_file',
+    description: 'Eliminar un archivo del almacenamiento',
+    schema: StorageFileSchema,
+    handler: handleDeleteFile,
+    readOnly: false,
+    destructive: true
+  }),
+  defineTool({
+    name: 'list_files',
+    description: 'Listar archivos en un bucket',
+    schema: ListFilesSchema,
+    handler: handleListFiles,
+    readOnly: true,
+    destructive: false
+  })
+];
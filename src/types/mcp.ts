@@ -1,75 +1,647 @@
 import { z } from 'zod';
 
+const SchemaNameSchema = z.string().optional().default('public').describe('Esquema de la base de datos');
+
+export const EmptyArgsSchema = z.object({});
+
+// Autenticación
+
+export const CreateAuthUserSchema = z.object({
+  email: z.string().email().describe('Email del usuario'),
+  password: z.string().describe('Contraseña del usuario'),
+  emailConfirm: z.boolean().optional().default(false).describe('Confirmar email automáticamente'),
+  role: z.string().optional().default('authenticated').describe('Rol del usuario')
+});
+
+export const ListAuthUsersSchema = z.object({
+  limit: z.number().optional().default(100).describe('Límite de usuarios a devolver'),
+  offset: z.number().optional().default(0).describe('Offset para paginación')
+});
+
+export const AuthUserIdSchema = z.object({
+  userId: z.string().describe('ID del usuario')
+});
+
+export const UpdateAuthUserSchema = z.object({
+  userId: z.string().describe('ID del usuario'),
+  email: z.string().optional().describe('Nuevo email'),
+  password: z.string().optional().describe('Nueva contraseña'),
+  emailConfirmed: z.boolean().optional().describe('Estado de confirmación de email'),
+  role: z.string().optional().describe('Nuevo rol')
+});
+
+export const ResetUserPasswordSchema = z.object({
+  email: z.string().describe('Email del usuario')
+});
+
+// Base de datos
+
+export const StatementClassSchema = z.enum(['read', 'write', 'ddl', 'privileged']);
+
+export const ResultFormatSchema = z.enum(['json', 'csv', 'ndjson']);
+
 export const DatabaseQuerySchema = z.object({
-  query: z.string(),
-  params: z.array(z.any()).optional(),
-  schema: z.string().optional().default('public')
+  query: z.string().optional().describe('La consulta SQL a ejecutar (se omite al continuar con un cursor)'),
+  params: z.array(z.any()).optional().describe('Parámetros para la consulta SQL'),
+  schema: SchemaNameSchema,
+  allow: z.array(StatementClassSchema).optional()
+    .describe('Clases de sentencia permitidas en esta llamada (por defecto todas, o solo "read" en modo de solo lectura)'),
+  limit: z.number().int().min(1).optional().describe('Filas por página en consultas de lectura (por defecto SUPABASE_QUERY_PAGE_SIZE)'),
+  cursor: z.string().optional().describe('Token de continuación devuelto por una llamada anterior para leer la página siguiente'),
+  format: ResultFormatSchema.optional().describe('Formato de las filas: json (por defecto), csv o ndjson'),
+  maxResponseBytes: z.number().int().min(1024).optional().describe('Tamaño máximo de las filas devueltas (limitado por SUPABASE_QUERY_MAX_RESPONSE_BYTES)')
+}).refine(args => !!args.query || !!args.cursor, {
+  message: 'Indica query o cursor'
 });
 
-export const CreateTableSchema = z.object({
+export const CloseQueryCursorSchema = z.object({
+  cursor: z.string().describe('Token de continuación del cursor a cerrar')
+});
+
+export const ForeignKeyActionSchema = z.enum(['CASCADE', 'SET NULL', 'SET DEFAULT', 'RESTRICT', 'NO ACTION']);
+
+const ColumnDefinitionSchema = z.object({
   name: z.string(),
-  schema: z.string().optional().default('public'),
-  columns: z.array(z.object({
-    name: z.string(),
+  type: z.string().describe('Tipo de PostgreSQL (los tipos propios, cualificados con su esquema)'),
+  nullable: z.boolean().optional().default(true),
+  defaultValue: z.string().optional(),
+  isUnique: z.boolean().optional().default(false),
+  isPrimaryKey: z.boolean().optional().default(false),
+  references: z.object({
+    table: z.string(),
+    schema: z.string().optional().describe('Esquema de la tabla referenciada (por defecto, el de la tabla)'),
+    column: z.string().optional().default('id'),
+    onDelete: ForeignKeyActionSchema.optional(),
+    onUpdate: ForeignKeyActionSchema.optional()
+  }).optional().describe('Clave foránea de esta columna')
+});
+
+const PrimaryKeyConstraintSchema = z.object({
+  columns: z.array(z.string()).min(1),
+  constraintName: z.string().optional()
+});
+
+const ForeignKeyConstraintSchema = z.object({
+  columns: z.array(z.string()).min(1),
+  referencedTable: z.string(),
+  referencedSchema: z.string().optional().describe('Esquema de la tabla referenciada (por defecto, el de la tabla)'),
+  referencedColumns: z.array(z.string()).min(1),
+  onDelete: ForeignKeyActionSchema.optional(),
+  onUpdate: ForeignKeyActionSchema.optional(),
+  constraintName: z.string().optional()
+});
+
+const UniqueConstraintSchema = z.object({
+  columns: z.array(z.string()).min(1),
+  constraintName: z.string().optional()
+});
+
+const CheckConstraintSchema = z.object({
+  expression: z.string().describe('Expresión booleana del CHECK'),
+  constraintName: z.string().optional()
+});
+
+export const CreateTableSchema = z.object({
+  name: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  columns: z.array(ColumnDefinitionSchema),
+  primaryKey: PrimaryKeyConstraintSchema.optional().describe('Clave primaria (compuesta) a nivel de tabla'),
+  foreignKeys: z.array(ForeignKeyConstraintSchema).optional().default([]).describe('Claves foráneas a nivel de tabla'),
+  uniqueConstraints: z.array(UniqueConstraintSchema).optional().default([]).describe('Restricciones UNIQUE a nivel de tabla'),
+  checkConstraints: z.array(CheckConstraintSchema).optional().default([]).describe('Restricciones CHECK'),
+  partitionBy: z.object({
+    strategy: z.enum(['RANGE', 'LIST', 'HASH']),
+    columns: z.array(z.string()).min(1)
+  }).optional().describe('Crear la tabla particionada'),
+  timestamps: z.boolean().optional().default(false).describe('Añadir created_at/updated_at con un trigger que mantiene updated_at (solo al crear la tabla)'),
+  enableRLS: z.boolean().optional().default(true).describe('Habilitar Row Level Security')
+});
+
+export const AlterTableOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('add_column'),
+    column: ColumnDefinitionSchema,
+    ifNotExists: z.boolean().optional().default(false)
+  }),
+  z.object({
+    action: z.literal('drop_column'),
+    column: z.string(),
+    cascade: z.boolean().optional().default(false),
+    ifExists: z.boolean().optional().default(false)
+  }),
+  z.object({
+    action: z.literal('rename_column'),
+    column: z.string(),
+    newName: z.string()
+  }),
+  z.object({
+    action: z.literal('alter_column_type'),
+    column: z.string(),
     type: z.string(),
-    nullable: z.boolean().optional().default(true),
-    defaultValue: z.string().optional(),
-    isUnique: z.boolean().optional().default(false),
-    isPrimaryKey: z.boolean().optional().default(false)
-  })),
-  enableRLS: z.boolean().optional().default(true)
+    using: z.string().optional().describe('Expresión USING para convertir los datos existentes')
+  }),
+  z.object({
+    action: z.literal('set_default'),
+    column: z.string(),
+    defaultValue: z.string()
+  }),
+  z.object({
+    action: z.literal('drop_default'),
+    column: z.string()
+  }),
+  z.object({
+    action: z.literal('set_not_null'),
+    column: z.string()
+  }),
+  z.object({
+    action: z.literal('drop_not_null'),
+    column: z.string()
+  }),
+  PrimaryKeyConstraintSchema.extend({ action: z.literal('add_primary_key') }),
+  ForeignKeyConstraintSchema.extend({ action: z.literal('add_foreign_key') }),
+  UniqueConstraintSchema.extend({ action: z.literal('add_unique') }),
+  CheckConstraintSchema.extend({ action: z.literal('add_check') }),
+  z.object({
+    action: z.literal('drop_constraint'),
+    constraintName: z.string(),
+    cascade: z.boolean().optional().default(false),
+    ifExists: z.boolean().optional().default(false)
+  })
+]);
+
+export const AlterTableSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  operations: z.array(AlterTableOperationSchema).min(1).describe('Operaciones a aplicar, en orden, dentro de una única transacción'),
+  dryRun: z.boolean().optional().default(false).describe('Devolver el SQL generado sin ejecutarlo')
+});
+
+export const ListTablesSchema = z.object({
+  schema: SchemaNameSchema
+});
+
+export const DescribeTableSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema
+});
+
+export const DropTableSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla a eliminar'),
+  schema: SchemaNameSchema,
+  cascade: z.boolean().optional().default(false).describe('Usar CASCADE para eliminar dependencias')
+});
+
+export const CreateIndexSchema = z.object({
+  tableName: z.string().describe('Nombre de la tabla'),
+  columns: z.array(z.string()).min(1).describe('Columnas para el índice'),
+  indexName: z.string().optional().describe('Nombre del índice (opcional)'),
+  unique: z.boolean().optional().default(false).describe('Crear índice único'),
+  schema: SchemaNameSchema
 });
 
+export const ExplainQuerySchema = z.object({
+  query: z.string().describe('Sentencia SQL a analizar (SELECT, INSERT, UPDATE, DELETE, MERGE o VALUES)'),
+  params: z.array(z.any()).optional().describe('Parámetros para la consulta SQL'),
+  analyze: z.boolean().optional().default(false).describe('Ejecutar la sentencia (EXPLAIN ANALYZE) dentro de una transacción que siempre se revierte'),
+  buffers: z.boolean().optional().default(true).describe('Incluir el uso de buffers (solo con analyze)'),
+  seqScanThreshold: z.number().int().min(0).optional().default(10000).describe('Filas estimadas a partir de las que un escaneo secuencial se marca como problema'),
+  schema: SchemaNameSchema
+});
+
+// Migraciones
+
 export const CreateMigrationSchema = z.object({
-  name: z.string(),
-  up: z.string(),
-  down: z.string()
+  name: z.string().describe('Nombre de la migración'),
+  up: z.string().describe('SQL para aplicar la migración'),
+  down: z.string().optional().describe('SQL para revertir la migración (se guarda en el directorio de rollbacks)'),
+  transactional: z.boolean().optional().default(true)
+    .describe('Si es false, añade la directiva "-- mcp:no-transaction" para ejecutar las sentencias una a una fuera de una transacción (CREATE INDEX CONCURRENTLY, VACUUM...)'),
+  generateDown: z.boolean().optional().default(false)
+    .describe('Generar el SQL de reversión a partir de up; si alguna sentencia no se puede invertir no se escribe rollback')
+}).refine(args => !(args.generateDown && args.down !== undefined), {
+  message: 'Indica down o generateDown, no ambos'
 });
 
-export const CreateEdgeFunctionSchema = z.object({
-  name: z.string(),
-  source: z.string(),
-  importMap: z.record(z.string()).optional(),
-  verifyJWT: z.boolean().optional().default(true)
+export const MigrationVersionSchema = z.object({
+  version: z.string().regex(/^\d+$/, 'La versión debe ser numérica').describe('Versión (timestamp) de la migración'),
+  dryRun: z.boolean().optional().default(false)
+    .describe('Ejecutar el SQL en una transacción que siempre se revierte y describir los objetos afectados, los bloqueos y los errores')
 });
 
-export const CreateRLSPolicySchema = z.object({
-  name: z.string(),
-  table: z.string(),
-  schema: z.string().optional().default('public'),
-  command: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL']),
-  permissive: z.boolean().optional().default(true),
-  roles: z.array(z.string()).optional().default(['authenticated']),
-  using: z.string().optional(),
-  withCheck: z.string().optional()
+export const ApplyMigrationSchema = MigrationVersionSchema.extend({
+  skipLint: z.boolean().optional().default(false)
+    .describe('No ejecutar lint_migration antes de aplicar (por defecto los hallazgos de la severidad de SUPABASE_MIGRATIONS_LINT_BLOCK impiden aplicarla)')
+});
+
+export const LintMigrationSchema = z.object({
+  version: z.string().regex(/^\d+$/, 'La versión debe ser numérica').optional().describe('Versión de una migración del directorio'),
+  sql: z.string().optional().describe('SQL a revisar sin crear la migración')
+}).refine(args => (args.version === undefined) !== (args.sql === undefined), {
+  message: 'Indica version o sql, no ambos'
+});
+
+export const SyncMigrationsSchema = z.object({
+  importLegacy: z.boolean().optional().default(true)
+    .describe('Exportar a ficheros las migraciones de la tabla antigua public.supabase_migrations'),
+  writeMissingFiles: z.boolean().optional().default(true)
+    .describe('Crear el fichero de las migraciones aplicadas en la base de datos que no están en el directorio'),
+  dryRun: z.boolean().optional().default(false).describe('Mostrar los cambios sin escribir ficheros ni historial')
+});
+
+export const VerifyMigrationsSchema = z.object({
+  checkDrift: z.boolean().optional().default(true)
+    .describe('Comparar el catálogo actual con el guardado tras la última migración aplicada')
 });
 
+export const BaselineMigrationSchema = z.object({
+  name: z.string().optional().default('baseline').describe('Nombre de la migración base'),
+  schemas: z.array(z.string()).optional().describe('Esquemas a incluir (por defecto los configurados en SUPABASE_MIGRATIONS_SCHEMAS)'),
+  markApplied: z.boolean().optional().default(true).describe('Registrar la migración como aplicada sin ejecutarla'),
+  dryRun: z.boolean().optional().default(false).describe('Devolver el SQL sin escribir ficheros ni historial')
+});
+
+export const SquashMigrationsSchema = z.object({
+  from: z.string().regex(/^\d+$/, 'La versión debe ser numérica').describe('Versión de la primera migración del rango'),
+  to: z.string().regex(/^\d+$/, 'La versión debe ser numérica').describe('Versión de la última migración del rango; la migración resultante conserva esta versión'),
+  name: z.string().optional().describe('Nombre de la migración resultante (por defecto el de la última del rango)'),
+  dryRun: z.boolean().optional().default(false).describe('Devolver el SQL sin escribir ficheros ni historial')
+});
+
+export const MigrateUpSchema = z.object({
+  target: z.string().optional().describe('Versión o nombre de la última migración a aplicar (por defecto todas las pendientes)'),
+  skipLint: z.boolean().optional().default(false).describe('No ejecutar lint_migration antes de aplicar cada migración')
+});
+
+export const MigrateDownSchema = z.object({
+  steps: z.number().int().positive().optional().describe('Número de migraciones a revertir (por defecto 1)'),
+  target: z.string().optional().describe('Versión o nombre de la migración que queda como última aplicada')
+}).refine(args => args.steps === undefined || args.target === undefined, {
+  message: 'Indica steps o target, no ambos'
+});
+
+// Seeds
+
+export const CreateSeedSchema = z.object({
+  environment: z.string().optional().describe('Entorno del seed (development, staging...); si se omite se aplica en todos'),
+  name: z.string().optional().describe('Nombre del seed SQL'),
+  sql: z.string().optional().describe('SQL del seed; debe ser idempotente (ON CONFLICT, IF NOT EXISTS...)'),
+  table: z.string().optional().describe('Tabla del fixture JSON'),
+  schema: SchemaNameSchema,
+  rows: z.array(z.record(z.any())).optional().describe('Filas del fixture; si se omiten se exportan las filas actuales de la tabla'),
+  limit: z.number().int().positive().max(10000).optional().default(1000).describe('Máximo de filas a exportar de la tabla'),
+  overwrite: z.boolean().optional().default(false).describe('Reemplazar el seed si ya existe')
+}).refine(args => (args.sql === undefined) !== (args.table === undefined), {
+  message: 'Indica sql o table, no ambos'
+}).refine(args => args.sql === undefined || args.name !== undefined, {
+  message: 'Los seeds SQL necesitan un nombre'
+});
+
+export const RunSeedsSchema = z.object({
+  environment: z.string().optional().default('development').describe('Entorno cuyos seeds se cargan, además de los comunes'),
+  tables: z.array(z.string()).optional().describe('Cargar solo los fixtures de estas tablas (tabla o esquema.tabla); omite los seeds SQL'),
+  truncate: z.boolean().optional().default(false).describe('Vaciar las tablas de los fixtures antes de cargarlas para volver a un estado conocido'),
+  dryRun: z.boolean().optional().default(false).describe('Mostrar el orden de carga sin ejecutar nada')
+});
+
+// Comparación de esquemas
+
+const DiffSideSchema = z.object({
+  schema: SchemaNameSchema,
+  connectionString: z.string().optional().describe('Cadena de conexión de PostgreSQL (si se omite se usa la conexión del proyecto)'),
+  project: z.string().optional().describe('Proyecto configurado del que leer el esquema')
+}).refine(side => !(side.connectionString && side.project), {
+  message: 'Indica connectionString o project, no ambos'
+});
+
+export const DiffSchemaSchema = z.object({
+  source: DiffSideSchema.describe('Estado actual: el SQL generado se aplica sobre este lado'),
+  target: DiffSideSchema.describe('Estado deseado'),
+  exclude: z.array(z.string()).optional().default(['supabase_migrations']).describe('Tablas a ignorar en la comparación'),
+  includeSQL: z.boolean().optional().default(true).describe('Generar SQL up/down para create_migration')
+});
+
+// Ramas
+
+const BranchNameSchema = z.string()
+  .regex(/^[a-z][a-z0-9_]{0,39}$/, 'El nombre de la rama solo admite minúsculas, dígitos y guiones bajos')
+  .describe('Nombre de la rama');
+
+export const CreateBranchSchema = z.object({
+  name: BranchNameSchema,
+  sourceSchema: SchemaNameSchema.describe('Esquema a clonar'),
+  kind: z.enum(['schema', 'database']).optional().default('schema').describe('Clonar en un esquema branch_<nombre> o en una base de datos branch_<nombre>'),
+  template: z.string().optional().describe('Base de datos plantilla (solo kind database): la rama es una copia completa, con datos; no puede tener otras sesiones abiertas'),
+  withData: z.boolean().optional().default(false).describe('Copiar una muestra de filas de cada tabla (solo kind schema)'),
+  sampleRows: z.number().int().positive().optional().default(1000).describe('Filas a copiar como máximo por tabla')
+}).refine(args => args.kind === 'database' || args.template === undefined, {
+  message: 'template solo se admite con kind database',
+  path: ['template']
+}).refine(args => !(args.kind === 'database' && args.withData), {
+  message: 'Las ramas de base de datos copian datos mediante template; withData solo se admite con kind schema',
+  path: ['withData']
+});
+
+export const BranchNameArgsSchema = z.object({
+  name: BranchNameSchema
+});
+
+export const MergeBranchSchema = z.object({
+  name: BranchNameSchema,
+  migrationName: z.string().optional().describe('Nombre de la migración generada (por defecto merge_<rama>)'),
+  force: z.boolean().optional().default(false).describe('Generar la migración aunque el origen haya cambiado los mismos objetos que la rama'),
+  dropBranch: z.boolean().optional().default(false).describe('Eliminar la rama tras generar la migración')
+});
+
+// Storage
+
 export const CreateStorageBucketSchema = z.object({
-  name: z.string(),
-  public: z.boolean().optional().default(false),
-  fileSizeLimit: z.number().optional(),
-  allowedMimeTypes: z.array(z.string()).optional()
+  name: z.string().describe('Nombre del bucket'),
+  public: z.boolean().optional().default(false).describe('Si el bucket es público'),
+  fileSizeLimit: z.number().optional().describe('Límite de tamaño de archivo en bytes'),
+  allowedMimeTypes: z.array(z.string()).optional().describe('Tipos MIME permitidos')
 });
 
-export const CreateAuthUserSchema = z.object({
-  email: z.string().email(),
-  password: z.string(),
-  emailConfirm: z.boolean().optional().default(false),
-  role: z.string().optional().default('authenticated')
+export const UploadFileSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  fileName: z.string().describe('Nombre del archivo'),
+  fileData: z.string().describe('Datos del archivo en base64'),
+  contentType: z.string().optional().describe('Tipo de contenido del archivo'),
+  upsert: z.boolean().optional().default(false).describe('Sobrescribir si existe')
+});
+
+export const StorageFileSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  fileName: z.string().describe('Nombre del archivo')
+});
+
+export const ListFilesSchema = z.object({
+  bucketName: z.string().describe('Nombre del bucket'),
+  folder: z.string().optional().default('').describe('Carpeta específica'),
+  limit: z.number().optional().default(100).describe('Límite de archivos a devolver'),
+  offset: z.number().optional().default(0).describe('Offset para paginación')
+});
+
+// Row Level Security
+
+export const CreateRLSPolicySchema = z.object({
+  name: z.string().describe('Nombre de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  command: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL']).describe('Comando al que aplicar la política'),
+  permissive: z.boolean().optional().default(true).describe('Si la política es permisiva'),
+  roles: z.array(z.string()).optional().default(['authenticated']).describe('Roles a los que aplicar la política'),
+  using: z.string().optional().describe('Expresión USING para la política'),
+  withCheck: z.string().optional().describe('Expresión WITH CHECK para la política')
+});
+
+export const RLSTableSchema = z.object({
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema
+});
+
+export const DeleteRLSPolicySchema = z.object({
+  policyName: z.string().describe('Nombre de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema
+});
+
+export const AlterRLSPolicySchema = z.object({
+  name: z.string().describe('Nombre de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  newName: z.string().optional().describe('Nuevo nombre de la política'),
+  command: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'ALL']).optional().describe('Nuevo comando (recrea la política en una transacción)'),
+  permissive: z.boolean().optional().describe('Permisiva o restrictiva (recrea la política en una transacción)'),
+  roles: z.array(z.string()).optional().describe('Nuevos roles de la política'),
+  using: z.string().optional().describe('Nueva expresión USING'),
+  withCheck: z.string().optional().describe('Nueva expresión WITH CHECK')
+}).refine(args => [args.newName, args.command, args.permissive, args.roles, args.using, args.withCheck].some(value => value !== undefined), {
+  message: 'Indica al menos un cambio: newName, command, permissive, roles, using o withCheck'
 });
 
+export const RevertRLSPolicySchema = z.object({
+  name: z.string().describe('Nombre actual de la política'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  historyId: z.number().int().optional().describe('Entrada del historial a restaurar (por defecto la más reciente de la política)')
+});
+
+export const RLSPolicyHistorySchema = z.object({
+  table: z.string().optional().describe('Tabla cuyo historial listar (por defecto todas las del esquema)'),
+  schema: SchemaNameSchema,
+  name: z.string().optional().describe('Nombre de la política')
+});
+
+export const TestRLSPolicySchema = z.object({
+  table: z.string().optional().describe('Tabla a probar (obligatoria en modo matriz; sin query se leen sus filas)'),
+  schema: SchemaNameSchema,
+  role: z.string().optional().default('anon').describe('anon, authenticated, otro rol o el UUID de un usuario de auth.users'),
+  claims: z.record(z.any()).optional().describe('Claims adicionales del JWT (request.jwt.claims)'),
+  query: z.string().optional().describe('Sentencia de lectura o escritura a ejecutar como el rol (por defecto SELECT * de la tabla)'),
+  params: z.array(z.any()).optional().describe('Parámetros de la consulta'),
+  limit: z.number().int().min(1).optional().default(100).describe('Filas devueltas como máximo, o tamaño de la muestra en modo matriz'),
+  matrix: z.boolean().optional().default(false).describe('Informar de SELECT/INSERT/UPDATE/DELETE permitido o denegado por rol sobre la tabla'),
+  roles: z.array(z.string()).optional().default(['anon', 'authenticated']).describe('Roles o UUID de usuarios de la matriz'),
+  row: z.record(z.any()).optional().describe('Fila de ejemplo para probar el INSERT en modo matriz')
+}).refine(args => args.table !== undefined || (!args.matrix && args.query !== undefined), {
+  message: 'Indica table (obligatoria en modo matriz) o query'
+});
+
+export const ApplyRLSTemplateSchema = z.object({
+  template: z.enum(['owner-only', 'public-read-owner-write', 'team-membership', 'role-claim', 'tenant-isolation']).describe('Plantilla de políticas a aplicar'),
+  table: z.string().describe('Nombre de la tabla'),
+  schema: SchemaNameSchema,
+  ownerColumn: z.string().optional().default('user_id').describe('Columna con el UUID del propietario (owner-only, public-read-owner-write)'),
+  teamColumn: z.string().optional().default('team_id').describe('Columna con el equipo de la fila (team-membership)'),
+  membershipTable: z.string().optional().describe('Tabla que relaciona usuarios y equipos, p. ej. team_members (team-membership)'),
+  membershipSchema: z.string().optional().describe('Esquema de la tabla de pertenencia (por defecto el de la tabla)'),
+  membershipTeamColumn: z.string().optional().default('team_id').describe('Columna del equipo en la tabla de pertenencia'),
+  membershipUserColumn: z.string().optional().default('user_id').describe('Columna del usuario en la tabla de pertenencia'),
+  claim: z.string().optional().describe('Ruta del claim del JWT separada por puntos (por defecto app_metadata.role en role-claim y app_metadata.tenant_id en tenant-isolation)'),
+  claimValues: z.array(z.string()).optional().describe('Valores del claim que dan acceso (role-claim)'),
+  tenantColumn: z.string().optional().default('tenant_id').describe('Columna con el tenant de la fila (tenant-isolation)'),
+  prefix: z.string().optional().describe('Prefijo de los nombres de las políticas (por defecto el nombre de la tabla)'),
+  enableRLS: z.boolean().optional().default(true).describe('Habilitar RLS en la tabla en la misma transacción'),
+  replace: z.boolean().optional().default(false).describe('Eliminar antes las políticas con los mismos nombres'),
+  dryRun: z.boolean().optional().default(false).describe('Devolver el SQL generado sin ejecutarlo')
+}).refine(args => args.template !== 'team-membership' || args.membershipTable !== undefined, {
+  message: 'La plantilla team-membership necesita membershipTable'
+}).refine(args => args.template !== 'role-claim' || (args.claimValues !== undefined && args.claimValues.length > 0), {
+  message: 'La plantilla role-claim necesita claimValues'
+});
+
+export const AuditRLSSchema = z.object({
+  schemas: z.array(z.string()).optional().describe('Esquemas expuestos por la API a auditar (por defecto los configurados en SUPABASE_MIGRATIONS_SCHEMAS)')
+});
+
+// Privilegios (GRANT)
+
+export const ListGrantsSchema = z.object({
+  schema: SchemaNameSchema,
+  table: z.string().optional().describe('Tabla o vista (por defecto todo el esquema)'),
+  roles: z.array(z.string()).optional().default(['anon', 'authenticated', 'service_role']).describe('Roles del informe de privilegios efectivos'),
+  defaults: z.boolean().optional().default(true).describe('Incluir los privilegios por defecto del esquema')
+});
+
+const PrivilegeChangeSchema = z.object({
+  objectType: z.enum(['table', 'sequence', 'function', 'schema']).describe('Tipo de objeto (table incluye vistas)'),
+  schema: SchemaNameSchema,
+  name: z.string().optional().describe('Tabla, vista, secuencia o función (no hace falta con all, defaults ni objectType schema)'),
+  arguments: z.string().optional().describe('Argumentos de la función, p. ej. "integer, text" (necesarios si está sobrecargada)'),
+  columns: z.array(z.string()).optional().describe('Columnas de la tabla para privilegios a nivel de columna'),
+  all: z.boolean().optional().default(false).describe('Todos los objetos del tipo en el esquema (ALL TABLES/SEQUENCES/FUNCTIONS IN SCHEMA)'),
+  defaults: z.boolean().optional().default(false).describe('Privilegios por defecto de los objetos que se creen en el esquema (ALTER DEFAULT PRIVILEGES)'),
+  forRole: z.string().optional().describe('Rol creador al que se aplican los privilegios por defecto (por defecto el usuario conectado)'),
+  privileges: z.array(z.string()).min(1).describe('SELECT, INSERT, UPDATE, DELETE, TRUNCATE, REFERENCES, TRIGGER, USAGE, CREATE, EXECUTE o ALL'),
+  roles: z.array(z.string()).min(1).describe('Roles, p. ej. anon, authenticated, service_role o PUBLIC'),
+  grantOption: z.boolean().optional().default(false).describe('WITH GRANT OPTION al conceder; al revocar, retirar solo la opción de conceder'),
+  dryRun: z.boolean().optional().default(false).describe('Devolver el SQL generado sin ejecutarlo')
+});
+
+type PrivilegeChange = z.infer<typeof PrivilegeChangeSchema>;
+
+const hasPrivilegeTarget = (args: PrivilegeChange) =>
+  args.objectType === 'schema' || args.all || args.defaults || args.name !== undefined;
+const validPrivilegeScope = (args: PrivilegeChange) =>
+  (args.columns === undefined || (args.objectType === 'table' && !args.all && !args.defaults)) &&
+  !(args.objectType === 'schema' && (args.all || args.defaults)) &&
+  !(args.all && args.defaults);
+
+export const GrantPrivilegesSchema = PrivilegeChangeSchema
+  .refine(hasPrivilegeTarget, { message: 'Indica name, all o defaults' })
+  .refine(validPrivilegeScope, { message: 'columns solo con una tabla concreta; all y defaults no se combinan entre sí ni con objectType schema' });
+
+export const RevokePrivilegesSchema = PrivilegeChangeSchema.extend({
+  cascade: z.boolean().optional().default(false).describe('Revocar también lo que los roles concedieron a otros con esos privilegios')
+})
+  .refine(hasPrivilegeTarget, { message: 'Indica name, all o defaults' })
+  .refine(validPrivilegeScope, { message: 'columns solo con una tabla concreta; all y defaults no se combinan entre sí ni con objectType schema' });
+
+// Edge Functions
+
+export const CreateEdgeFunctionSchema = z.object({
+  name: z.string().describe('Nombre de la función'),
+  source: z.string().describe('Código fuente de la función'),
+  importMap: z.record(z.string()).optional().describe('Mapa de importaciones'),
+  verifyJWT: z.boolean().optional().default(true).describe('Verificar JWT en las peticiones')
+});
+
+export const EdgeFunctionNameSchema = z.object({
+  name: z.string().describe('Nombre de la función')
+});
+
+export const InvokeEdgeFunctionSchema = z.object({
+  name: z.string().describe('Nombre de la función'),
+  payload: z.record(z.any()).optional().describe('Payload a enviar a la función'),
+  headers: z.record(z.string()).optional().describe('Headers HTTP adicionales')
+});
+
+// Realtime
+
 export const CreateRealtimeSubscriptionSchema = z.object({
-  schema: z.string().optional().default('public'),
-  table: z.string(),
-  filter: z.string().optional(),
-  event: z.enum(['INSERT', 'UPDATE', 'DELETE', '*']).optional().default('*')
+  schema: SchemaNameSchema,
+  table: z.string().describe('Nombre de la tabla'),
+  filter: z.string().optional().describe('Filtro para la suscripción'),
+  event: z.enum(['INSERT', 'UPDATE', 'DELETE', '*']).optional().default('*').describe('Tipo de evento a escuchar')
+});
+
+export const RealtimeSubscriptionIdSchema = z.object({
+  subscriptionId: z.string().describe('ID de la suscripción')
+});
+
+// Administración
+
+export const BackupDatabaseSchema = z.object({
+  tables: z.array(z.string()).optional().describe('Tablas específicas a respaldar (opcional)'),
+  format: z.enum(['sql', 'json']).optional().default('sql').describe('Formato del backup')
 });
 
+export const RestoreDatabaseSchema = z.object({
+  backupPath: z.string().describe('Ruta del archivo de backup'),
+  dropExisting: z.boolean().optional().default(false).describe('Eliminar datos existentes antes de restaurar')
+});
+
+// Logs
+
+export const GetLogsSchema = z.object({
+  level: z.enum(['error', 'warn', 'info', 'debug']).optional().describe('Nivel de log a filtrar'),
+  limit: z.number().optional().default(100).describe('Límite de logs a devolver'),
+  startDate: z.string().optional().describe('Fecha de inicio (ISO string)'),
+  endDate: z.string().optional().describe('Fecha de fin (ISO string)')
+});
+
+export const GetMetricsSchema = z.object({
+  timeRange: z.enum(['1h', '24h', '7d', '30d']).optional().default('1h').describe('Rango de tiempo para las métricas')
+});
+
+export const GetErrorLogsSchema = z.object({
+  limit: z.number().optional().default(50).describe('Límite de logs a devolver'),
+  context: z.string().optional().describe('Contexto específico del error')
+});
+
+// Proyectos
+
+export const SwitchProjectSchema = z.object({
+  name: z.string().describe('Nombre del proyecto')
+});
+
+export type CreateAuthUserArgs = z.infer<typeof CreateAuthUserSchema>;
+export type ListAuthUsersArgs = z.infer<typeof ListAuthUsersSchema>;
+export type AuthUserIdArgs = z.infer<typeof AuthUserIdSchema>;
+export type UpdateAuthUserArgs = z.infer<typeof UpdateAuthUserSchema>;
+export type ResetUserPasswordArgs = z.infer<typeof ResetUserPasswordSchema>;
 export type DatabaseQueryArgs = z.infer<typeof DatabaseQuerySchema>;
+export type CloseQueryCursorArgs = z.infer<typeof CloseQueryCursorSchema>;
+export type ColumnDefinitionArgs = z.infer<typeof ColumnDefinitionSchema>;
+export type ForeignKeyConstraintArgs = z.infer<typeof ForeignKeyConstraintSchema>;
 export type CreateTableArgs = z.infer<typeof CreateTableSchema>;
+export type AlterTableOperation = z.infer<typeof AlterTableOperationSchema>;
+export type AlterTableArgs = z.infer<typeof AlterTableSchema>;
+export type ListTablesArgs = z.infer<typeof ListTablesSchema>;
+export type DescribeTableArgs = z.infer<typeof DescribeTableSchema>;
+export type DropTableArgs = z.infer<typeof DropTableSchema>;
+export type CreateIndexArgs = z.infer<typeof CreateIndexSchema>;
+export type ExplainQueryArgs = z.infer<typeof ExplainQuerySchema>;
 export type CreateMigrationArgs = z.infer<typeof CreateMigrationSchema>;
-export type CreateEdgeFunctionArgs = z.infer<typeof CreateEdgeFunctionSchema>;
-export type CreateRLSPolicyArgs = z.infer<typeof CreateRLSPolicySchema>;
+export type MigrationVersionArgs = z.infer<typeof MigrationVersionSchema>;
+export type ApplyMigrationArgs = z.infer<typeof ApplyMigrationSchema>;
+export type LintMigrationArgs = z.infer<typeof LintMigrationSchema>;
+export type SyncMigrationsArgs = z.infer<typeof SyncMigrationsSchema>;
+export type VerifyMigrationsArgs = z.infer<typeof VerifyMigrationsSchema>;
+export type BaselineMigrationArgs = z.infer<typeof BaselineMigrationSchema>;
+export type SquashMigrationsArgs = z.infer<typeof SquashMigrationsSchema>;
+export type MigrateUpArgs = z.infer<typeof MigrateUpSchema>;
+export type MigrateDownArgs = z.infer<typeof MigrateDownSchema>;
+export type CreateSeedArgs = z.infer<typeof CreateSeedSchema>;
+export type RunSeedsArgs = z.infer<typeof RunSeedsSchema>;
+export type DiffSchemaArgs = z.infer<typeof DiffSchemaSchema>;
+export type CreateBranchArgs = z.infer<typeof CreateBranchSchema>;
+export type BranchNameArgs = z.infer<typeof BranchNameArgsSchema>;
+export type MergeBranchArgs = z.infer<typeof MergeBranchSchema>;
 export type CreateStorageBucketArgs = z.infer<typeof CreateStorageBucketSchema>;
-export type CreateAuthUserArgs = z.infer<typeof CreateAuthUserSchema>;
-export type CreateRealtimeSubscriptionArgs = z.infer<typeof CreateRealtimeSubscriptionSchema>;
\ No newline at end of file
+export type UploadFileArgs = z.infer<typeof UploadFileSchema>;
+export type StorageFileArgs = z.infer<typeof StorageFileSchema>;
+export type ListFilesArgs = z.infer<typeof ListFilesSchema>;
+export type CreateRLSPolicyArgs = z.infer<typeof CreateRLSPolicySchema>;
+export type RLSTableArgs = z.infer<typeof RLSTableSchema>;
+export type DeleteRLSPolicyArgs = z.infer<typeof DeleteRLSPolicySchema>;
+export type AlterRLSPolicyArgs = z.infer<typeof AlterRLSPolicySchema>;
+export type RevertRLSPolicyArgs = z.infer<typeof RevertRLSPolicySchema>;
+export type RLSPolicyHistoryArgs = z.infer<typeof RLSPolicyHistorySchema>;
+export type TestRLSPolicyArgs = z.infer<typeof TestRLSPolicySchema>;
+export type ApplyRLSTemplateArgs = z.infer<typeof ApplyRLSTemplateSchema>;
+export type AuditRLSArgs = z.infer<typeof AuditRLSSchema>;
+export type ListGrantsArgs = z.infer<typeof ListGrantsSchema>;
+export type GrantPrivilegesArgs = z.infer<typeof GrantPrivilegesSchema>;
+export type RevokePrivilegesArgs = z.infer<typeof RevokePrivilegesSchema>;
+export type CreateEdgeFunctionArgs = z.infer<typeof CreateEdgeFunctionSchema>;
+export type EdgeFunctionNameArgs = z.infer<typeof EdgeFunctionNameSchema>;
+export type InvokeEdgeFunctionArgs = z.infer<typeof InvokeEdgeFunctionSchema>;
+export type CreateRealtimeSubscriptionArgs = z.infer<typeof CreateRealtimeSubscriptionSchema>;
+export type RealtimeSubscriptionIdArgs = z.infer<typeof RealtimeSubscriptionIdSchema>;
+export type BackupDatabaseArgs = z.infer<typeof BackupDatabaseSchema>;
+export type RestoreDatabaseArgs = z.infer<typeof RestoreDatabaseSchema>;
+export type GetLogsArgs = z.infer<typeof GetLogsSchema>;
+export type GetMetricsArgs = z.infer<typeof GetMetricsSchema>;
+export type GetErrorLogsArgs = z.infer<typeof GetErrorLogsSchema>;
+export type SwitchProjectArgs = z.infer<typeof SwitchProjectSchema>;
@@ -4,14 +4,67 @@ export interface SupabaseConfig {
   dbUrl: string;
   jwtSecret: string;
   anonKey: string;
+  readOnly: boolean;
+  pool: DatabasePoolConfig;
+  results: QueryResultsConfig;
+  migrations: MigrationsConfig;
 }
 
+export interface ProjectProfiles {
+  defaultProject: string;
+  projects: Record<string, SupabaseConfig>;
+}
+
+export interface DatabasePoolConfig {
+  max: number;
+  idleTimeoutMs: number;
+  connectionTimeoutMs: number;
+  statementTimeoutMs: number;
+  healthCheckIntervalMs: number;
+  connectRetries: number;
+}
+
+export interface QueryResultsConfig {
+  maxResponseBytes: number;
+  pageSize: number;
+  cursorTtlMs: number;
+  maxOpenCursors: number;
+}
+
+export interface MigrationsConfig {
+  // Directorio de migraciones con el formato de Supabase CLI (<version>_<nombre>.sql)
+  dir: string;
+  // SQL de reversión, fuera de dir para que `supabase db push` no lo aplique
+  rollbacksDir: string;
+  // Esquemas cuyo catálogo se guarda tras cada migración para detectar cambios fuera del historial
+  schemas: string[];
+  // Datos iniciales: ficheros comunes en la raíz y uno subdirectorio por entorno
+  seedsDir: string;
+  // Severidad mínima de lint_migration que impide aplicar una migración
+  lintBlock: MigrationLintBlock;
+}
+
+export type MigrationLintBlock = 'error' | 'warning' | 'off';
+
 export interface DatabaseTable {
   name: string;
   schema: string;
+  kind?: 'table' | 'partitioned_table' | 'view' | 'materialized_view' | 'foreign_table';
   columns: DatabaseColumn[];
   primaryKey?: string[];
+  primaryKeyName?: string;
   foreignKeys?: ForeignKey[];
+  uniqueConstraints?: UniqueConstraint[];
+  checkConstraints?: CheckConstraint[];
+  indexes?: TableIndex[];
+  triggers?: TableTrigger[];
+  rlsEnabled?: boolean;
+  rlsForced?: boolean;
+  policies?: RLSPolicy[];
+  comment?: string;
+  estimatedRowCount?: number;
+  tableSizeBytes?: number;
+  totalSizeBytes?: number;
 }
 
 export interface DatabaseColumn {
@@ -21,23 +74,114 @@ export interface DatabaseColumn {
   defaultValue?: string;
   isUnique?: boolean;
   isIndexed?: boolean;
+  identity?: 'ALWAYS' | 'BY DEFAULT';
+  generated?: string;
+  comment?: string;
 }
 
+export type ForeignKeyAction = 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+
 export interface ForeignKey {
-  columnName: string;
+  name?: string;
+  columns: string[];
+  referencedSchema?: string;
   referencedTable: string;
-  referencedColumn: string;
-  onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT';
-  onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT';
+  referencedColumns: string[];
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+}
+
+export interface UniqueConstraint {
+  name: string;
+  columns: string[];
+  definition: string;
+}
+
+export interface CheckConstraint {
+  name: string;
+  expression: string;
+  definition: string;
+}
+
+export interface TableIndex {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+  method: string;
+  predicate?: string;
+  definition: string;
+  sizeBytes?: number;
+}
+
+export interface TableTrigger {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: ('INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE')[];
+  level: 'ROW' | 'STATEMENT';
+  function: string;
+  enabled: boolean;
+  definition: string;
+}
+
+export interface DatabaseView {
+  name: string;
+  schema: string;
+  materialized: boolean;
+  definition: string;
+  comment?: string;
+}
+
+export interface DatabaseFunction {
+  name: string;
+  schema: string;
+  identityArguments: string;
+  returns: string;
+  language: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  definition: string;
+}
+
+export interface DatabaseType {
+  name: string;
+  schema: string;
+  kind: 'enum' | 'domain' | 'composite';
+  // enum
+  labels?: string[];
+  // domain
+  baseType?: string;
+  notNull?: boolean;
+  defaultValue?: string;
+  constraints?: string[];
+  // composite
+  attributes?: { name: string; type: string }[];
+}
+
+export interface ObjectGrant {
+  objectType: 'table' | 'sequence' | 'function' | 'schema';
+  schema: string;
+  name: string;
+  // Argumentos de identidad, solo para funciones
+  arguments?: string;
+  grantee: string;
+  privileges: string[];
+  grantable: boolean;
+}
+
+export interface SchemaSnapshot {
+  schema: string;
+  tables: DatabaseTable[];
+  views: DatabaseView[];
+  functions: DatabaseFunction[];
 }
 
 export interface Migration {
-  id: string;
+  version: string;
   name: string;
   up: string;
-  down: string;
-  applied: boolean;
-  appliedAt?: Date;
+  down?: string;
+  path: string;
+  rollbackPath?: string;
 }
 
 export interface EdgeFunction {
@@ -0,0 +1,82 @@
+import { Queryable } from '../introspection.js';
+import { branchConnectionString, findBranchConflicts, getBranchRecord, listBranchRecords } from '../branches.js';
+
+const mockClient = (...results: { rows: Record<string, unknown>[] }[]) => {
+  const query = jest.fn();
+  for (const result of results) {
+    query.mockResolvedValueOnce(result);
+  }
+  return { query, client: { query } as unknown as Queryable };
+};
+
+const snapshot = { schema: 'public', tables: [], views: [], functions: [] };
+
+describe('registro de ramas', () => {
+  it('devuelve una lista vacía sin crear el registro si aún no existe', async () => {
+    const { query, client } = mockClient({ rows: [{ exists: false }] });
+
+    expect(await listBranchRecords(client)).toEqual([]);
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls[0]![0]).toContain('to_regclass');
+  });
+
+  it('no encuentra ninguna rama si aún no existe el registro', async () => {
+    const { query, client } = mockClient({ rows: [{ exists: false }] });
+
+    expect(await getBranchRecord(client, 'feature')).toBeNull();
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('convierte las filas del registro', async () => {
+    const { client } = mockClient(
+      { rows: [{ exists: true }] },
+      {
+        rows: [{
+          name: 'feature',
+          kind: 'schema',
+          target: 'branch_feature',
+          source_schema: 'public',
+          with_data: true,
+          source_snapshot: snapshot,
+          branch_snapshot: snapshot,
+          created_at: new Date('2024-01-01T00:00:00Z')
+        }]
+      }
+    );
+
+    expect(await listBranchRecords(client)).toEqual([{
+      name: 'feature',
+      kind: 'schema',
+      target: 'branch_feature',
+      sourceSchema: 'public',
+      withData: true,
+      sourceSnapshot: snapshot,
+      branchSnapshot: snapshot,
+      createdAt: '2024-01-01T00:00:00.000Z'
+    }]);
+  });
+});
+
+describe('branchConnectionString', () => {
+  it('cambia solo la base de datos de la cadena de conexión', () => {
+    expect(branchConnectionString('postgresql://postgres:secret@db:5432/postgres?sslmode=require', 'branch_feature'))
+      .toBe('postgresql://postgres:secret@db:5432/branch_feature?sslmode=require');
+  });
+});
+
+describe('findBranchConflicts', () => {
+  it('devuelve los cambios de la rama sobre objetos que también cambiaron en el origen', () => {
+    const conflicts = findBranchConflicts(
+      [
+        { objectType: 'column', action: 'added', table: 'items', name: 'price' },
+        { objectType: 'index', action: 'added', table: 'items', name: 'items_price_idx' }
+      ],
+      [
+        { objectType: 'column', action: 'changed', table: 'items', name: 'price' },
+        { objectType: 'column', action: 'added', table: 'orders', name: 'price' }
+      ]
+    );
+
+    expect(conflicts).toEqual([{ objectType: 'column', action: 'added', table: 'items', name: 'price' }]);
+  });
+});
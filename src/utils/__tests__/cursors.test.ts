@@ -0,0 +1,119 @@
+import { PoolClient } from 'pg';
+
+jest.mock('../logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import { CursorManager } from '../cursors.js';
+
+const config = { maxResponseBytes: 100000, pageSize: 100, cursorTtlMs: 60000, maxOpenCursors: 2 };
+
+// Cliente que devuelve las filas indicadas en el primer FETCH y ninguna después
+const mockClient = (rows: Record<string, unknown>[] = [{ id: 1 }]) => {
+  let fetched = false;
+  const query = jest.fn(async (sql: string) => {
+    if (sql.startsWith('FETCH')) {
+      const page = fetched ? [] : rows;
+      fetched = true;
+      return { rows: page, fields: [{ name: 'id', dataTypeID: 23 }] };
+    }
+    return { rows: [], fields: [] };
+  });
+  return { query, release: jest.fn() };
+};
+
+const statements = (client: ReturnType<typeof mockClient>) => client.query.mock.calls.map(([sql]) => sql.split(' ')[0]);
+
+// Devuelve el cliente como lo haría la conexión, que además limpia la sesión antes de reutilizarla
+const manager = (client: ReturnType<typeof mockClient>) =>
+  new CursorManager(async () => client as unknown as PoolClient, async (_, error) => {
+    client.release(...(error ? [error] : []));
+  }, config);
+
+describe('CursorManager', () => {
+  it('confirma la transacción al cerrar un cursor abierto fuera del modo de solo lectura', async () => {
+    const client = mockClient();
+    const cursors = manager(client);
+
+    const id = await cursors.open("SELECT setval('items_id_seq', 100)", undefined, { readOnly: false, format: 'json' });
+    const page = await cursors.next(id, 10);
+    await cursors.close(id);
+
+    expect(page.hasMore).toBe(false);
+    expect(statements(client)).toEqual(['BEGIN', 'DECLARE', 'FETCH', 'CLOSE', 'COMMIT']);
+    expect(client.release).toHaveBeenCalledWith();
+  });
+
+  it('deshace la transacción de solo lectura', async () => {
+    const client = mockClient();
+    const cursors = manager(client);
+
+    const id = await cursors.open('SELECT 1', undefined, { readOnly: true, format: 'json' });
+    await cursors.close(id);
+
+    expect(client.query).toHaveBeenCalledWith('BEGIN TRANSACTION READ ONLY');
+    expect(statements(client)).toEqual(['BEGIN', 'DECLARE', 'ROLLBACK']);
+  });
+
+  it('deshace la transacción y descarta el cliente si falla la lectura', async () => {
+    const client = mockClient();
+    const failure = new Error('permission denied for sequence items_id_seq');
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('FETCH')) {
+        throw failure;
+      }
+      return { rows: [], fields: [] };
+    });
+    const cursors = manager(client);
+
+    const id = await cursors.open('SELECT 1', undefined, { readOnly: false, format: 'json' });
+    await expect(cursors.next(id, 10)).rejects.toThrow(failure);
+
+    expect(statements(client)).toEqual(['BEGIN', 'DECLARE', 'FETCH', 'ROLLBACK']);
+    expect(client.release).toHaveBeenCalledWith(failure);
+    expect(cursors.has(id)).toBe(false);
+  });
+
+  it('propaga el error del COMMIT y deshace la transacción', async () => {
+    const client = mockClient();
+    const failure = new Error('could not serialize access');
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql === 'COMMIT') {
+        throw failure;
+      }
+      return { rows: [], fields: [] };
+    });
+    const cursors = manager(client);
+
+    const id = await cursors.open('SELECT 1', undefined, { readOnly: false, format: 'json' });
+    await expect(cursors.close(id)).rejects.toThrow(failure);
+
+    expect(statements(client)).toEqual(['BEGIN', 'DECLARE', 'CLOSE', 'COMMIT', 'ROLLBACK']);
+    expect(client.release).toHaveBeenCalledWith(failure);
+  });
+
+  it('devuelve al buffer las filas que no caben en la respuesta', async () => {
+    const client = mockClient([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    const cursors = manager(client);
+
+    const id = await cursors.open('SELECT id FROM items', undefined, { readOnly: true, format: 'json' });
+    const first = await cursors.next(id, 2);
+    cursors.giveBack(id, first.rows.slice(1));
+    const second = await cursors.next(id, 2);
+
+    expect(first.rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(second).toMatchObject({ rows: [{ id: 2 }, { id: 3 }], offset: 1, hasMore: false });
+    await cursors.closeAll();
+  });
+
+  it('limita el número de cursores abiertos', async () => {
+    const cursors = manager(mockClient());
+
+    await cursors.open('SELECT 1', undefined, { readOnly: true, format: 'json' });
+    await cursors.open('SELECT 1', undefined, { readOnly: true, format: 'json' });
+
+    await expect(cursors.open('SELECT 1', undefined, { readOnly: true, format: 'json' })).rejects.toThrow('cursores abiertos');
+    await cursors.closeAll();
+    expect(cursors.openCount).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { generateDownMigration } from '../down-migration.js';
+
+describe('generateDownMigration', () => {
+  it('invierte las sentencias en orden inverso', () => {
+    const result = generateDownMigration([
+      'CREATE TABLE public.items (id int);',
+      'CREATE INDEX items_id_idx ON public.items (id);',
+      'ALTER TABLE public.items ENABLE ROW LEVEL SECURITY;',
+      'CREATE POLICY items_read ON public.items FOR SELECT USING (true);'
+    ].join('\n'));
+
+    expect(result.reversible).toBe(true);
+    expect(result.down).toBe([
+      'DROP POLICY IF EXISTS items_read ON public.items;',
+      'ALTER TABLE public.items DISABLE ROW LEVEL SECURITY;',
+      'DROP INDEX IF EXISTS public.items_id_idx;',
+      'DROP TABLE IF EXISTS public.items;'
+    ].join('\n'));
+  });
+
+  it('quita los DEFAULT de la firma al borrar una función', () => {
+    const result = generateDownMigration(
+      "CREATE FUNCTION public.greet(name text DEFAULT 'mundo', times int = 1) RETURNS text LANGUAGE sql AS $$ SELECT name $$;"
+    );
+
+    expect(result.down).toBe('DROP FUNCTION IF EXISTS public.greet(name text, times int);');
+  });
+
+  it('intercambia los renombrados y las acciones de ALTER TABLE', () => {
+    expect(generateDownMigration('ALTER TABLE items RENAME COLUMN title TO name;').down)
+      .toBe('ALTER TABLE items RENAME COLUMN name TO title;');
+    expect(generateDownMigration('ALTER TABLE items ADD COLUMN price numeric, ALTER COLUMN name SET NOT NULL;').down)
+      .toBe('ALTER TABLE items ALTER COLUMN name DROP NOT NULL, DROP COLUMN IF EXISTS price;');
+  });
+
+  it('deja comentado el DROP de lo creado con IF NOT EXISTS', () => {
+    const result = generateDownMigration([
+      'CREATE EXTENSION IF NOT EXISTS pgcrypto;',
+      'CREATE TABLE IF NOT EXISTS public.items (id int);',
+      'CREATE INDEX IF NOT EXISTS items_id_idx ON public.items (id);',
+      'CREATE TABLE public.orders (id int);'
+    ].join('\n'));
+
+    expect(result.reversible).toBe(true);
+    expect(result.down).toBe([
+      'DROP TABLE IF EXISTS public.orders;',
+      '-- DROP INDEX IF EXISTS public.items_id_idx;',
+      '-- DROP TABLE IF EXISTS public.items;',
+      '-- DROP EXTENSION IF EXISTS pgcrypto;'
+    ].join('\n'));
+    expect(result.warnings).toHaveLength(3);
+    expect(result.warnings[1]).toContain('public.items se crea con IF NOT EXISTS');
+  });
+
+  it('deja comentado el ALTER TABLE con ADD COLUMN IF NOT EXISTS', () => {
+    const result = generateDownMigration('ALTER TABLE items ADD COLUMN IF NOT EXISTS price numeric;');
+
+    expect(result.down).toBe('-- ALTER TABLE items DROP COLUMN IF EXISTS price;');
+    expect(result.warnings[0]).toContain('items.price');
+  });
+
+  it('no genera rollback si alguna sentencia es irreversible', () => {
+    const result = generateDownMigration('CREATE TABLE items (id int);\nDROP TABLE orders;\nUPDATE items SET id = 2;');
+
+    expect(result.reversible).toBe(false);
+    expect(result.down).toBeNull();
+    expect(result.irreversible.map(item => item.reason)).toEqual([
+      'DROP TABLE borra el objeto y su contenido',
+      'UPDATE modifica datos; los valores anteriores no se conocen'
+    ]);
+  });
+
+  it('mantiene la directiva mcp:no-transaction', () => {
+    const result = generateDownMigration('-- mcp:no-transaction\nCREATE INDEX CONCURRENTLY items_idx ON items (id);');
+
+    expect(result.down).toBe('-- mcp:no-transaction\nDROP INDEX CONCURRENTLY IF EXISTS items_idx;');
+  });
+});
@@ -0,0 +1,71 @@
+import { PrivilegeTarget, defaultPrivilegesSQL, grantStatementSQL, normalizePrivileges, privilegeTargetSQL, revokeStatementSQL } from '../grants.js';
+import { sanitizeFunctionArguments } from '../validation.js';
+
+const table = (overrides: Partial<PrivilegeTarget> = {}): PrivilegeTarget => ({
+  objectType: 'table',
+  schema: 'public',
+  name: 'items',
+  all: false,
+  ...overrides
+});
+
+describe('normalizePrivileges', () => {
+  it('normaliza mayúsculas, duplicados y ALL PRIVILEGES', () => {
+    expect(normalizePrivileges('table', ['select', ' SELECT', 'insert'], false)).toEqual(['SELECT', 'INSERT']);
+    expect(normalizePrivileges('table', ['select', 'all privileges'], false)).toEqual(['ALL']);
+  });
+
+  it('rechaza privilegios que no existen para el tipo de objeto o para columnas', () => {
+    expect(() => normalizePrivileges('function', ['SELECT'], false)).toThrow('Privilegios no válidos para function: SELECT');
+    expect(() => normalizePrivileges('table', ['DELETE'], true)).toThrow('Privilegios no válidos para columnas: DELETE');
+  });
+});
+
+describe('privilegeTargetSQL', () => {
+  it('indica el objeto, todos los del esquema o el propio esquema', () => {
+    expect(privilegeTargetSQL(table())).toBe('TABLE public.items');
+    expect(privilegeTargetSQL(table({ objectType: 'sequence', all: true }))).toBe('ALL SEQUENCES IN SCHEMA public');
+    expect(privilegeTargetSQL(table({ objectType: 'schema' }))).toBe('SCHEMA public');
+  });
+
+  it('añade la firma de la función solo si se indica', () => {
+    expect(privilegeTargetSQL(table({ objectType: 'function', name: 'greet' }))).toBe('FUNCTION public.greet');
+    expect(privilegeTargetSQL(table({ objectType: 'function', name: 'greet', arguments: '' }))).toBe('FUNCTION public.greet()');
+  });
+});
+
+describe('grantStatementSQL y revokeStatementSQL', () => {
+  it('expande ALL a los privilegios de columna', () => {
+    expect(grantStatementSQL(['ALL'], table({ columns: ['name'] }), ['authenticated'], false))
+      .toBe('GRANT SELECT (name), INSERT (name), UPDATE (name), REFERENCES (name) ON TABLE public.items TO authenticated;');
+  });
+
+  it('concede con GRANT OPTION y revoca solo la opción con CASCADE', () => {
+    expect(grantStatementSQL(['SELECT'], table(), ['anon', 'PUBLIC'], true))
+      .toBe('GRANT SELECT ON TABLE public.items TO anon, PUBLIC WITH GRANT OPTION;');
+    expect(revokeStatementSQL(['SELECT'], table(), ['anon'], true, true))
+      .toBe('REVOKE GRANT OPTION FOR SELECT ON TABLE public.items FROM anon CASCADE;');
+  });
+});
+
+describe('defaultPrivilegesSQL', () => {
+  it('aplica los privilegios por defecto a los objetos que cree el rol indicado', () => {
+    expect(defaultPrivilegesSQL('GRANT', ['SELECT'], 'table', 'public', ['anon'], 'postgres', { grantOption: false }))
+      .toBe('ALTER DEFAULT PRIVILEGES FOR ROLE postgres IN SCHEMA public GRANT SELECT ON TABLES TO anon;');
+    expect(defaultPrivilegesSQL('REVOKE', ['EXECUTE'], 'function', 'public', ['PUBLIC'], undefined, { grantOption: false, cascade: true }))
+      .toBe('ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE EXECUTE ON FUNCTIONS FROM PUBLIC CASCADE;');
+  });
+});
+
+describe('sanitizeFunctionArguments', () => {
+  it('acepta tipos con modificadores, nombres y modos', () => {
+    expect(sanitizeFunctionArguments('integer, numeric(10, 2), text[]')).toBe('integer, numeric(10, 2), text[]');
+    expect(sanitizeFunctionArguments('in id bigint, VARIADIC tags text[], double precision')).toBe('IN id bigint, VARIADIC tags text[], double precision');
+    expect(sanitizeFunctionArguments('')).toBe('');
+  });
+
+  it('rechaza firmas que añaden otras funciones', () => {
+    expect(() => sanitizeFunctionArguments('integer), public.other(text')).toThrow('Tipo de PostgreSQL inválido');
+    expect(() => sanitizeFunctionArguments('integer) TO anon; DROP TABLE items; --')).toThrow();
+  });
+});
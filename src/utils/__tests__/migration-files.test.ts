@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MigrationsConfig } from '../../types/supabase.js';
+import {
+  findMigrationFile,
+  formatMigrationVersion,
+  incrementMigrationVersion,
+  listMigrationFiles,
+  nextMigrationVersion,
+  publishStagedMigration,
+  readMigration,
+  removeMigrationFiles,
+  slugifyMigrationName,
+  stageMigration,
+  writeMigration
+} from '../migration-files.js';
+
+describe('versiones y nombres de migración', () => {
+  it('usa el formato de Supabase CLI en UTC', () => {
+    expect(formatMigrationVersion(new Date('2024-03-05T07:08:09.123Z'))).toBe('20240305070809');
+  });
+
+  it('convierte el nombre en un slug sin acentos', () => {
+    expect(slugifyMigrationName('  Añadir índice a Pedidos! ')).toBe('anadir_indice_a_pedidos');
+    expect(() => slugifyMigrationName('¡¡!!')).toThrow('Nombre de migración inválido');
+  });
+
+  it('incrementa un segundo, cambiando de día si hace falta', () => {
+    expect(incrementMigrationVersion('20241231235959')).toBe('20250101000000');
+    expect(incrementMigrationVersion('42')).toBe('43');
+  });
+
+  it('no repite versiones ni queda por detrás de la última', () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+
+    expect(nextMigrationVersion([], date)).toBe('20240101000000');
+    expect(nextMigrationVersion(['20240101000000', '20240101000001'], date)).toBe('20240101000002');
+    expect(nextMigrationVersion(['20250101000000'], date)).toBe('20250101000001');
+  });
+});
+
+describe('ficheros de migración', () => {
+  let root: string;
+  let config: MigrationsConfig;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-migrations-'));
+    config = {
+      dir: path.join(root, 'migrations'),
+      rollbacksDir: path.join(root, 'rollbacks'),
+      schemas: ['public'],
+      seedsDir: path.join(root, 'seeds'),
+      lintBlock: 'error'
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('devuelve una lista vacía si no existe el directorio', () => {
+    expect(listMigrationFiles(config)).toEqual([]);
+  });
+
+  it('escribe la migración y su rollback y los lee ordenados por versión', () => {
+    writeMigration(config, '20240102000000', 'second', 'SELECT 2;');
+    writeMigration(config, '20240101000000', 'first', 'CREATE TABLE a (id int);', 'DROP TABLE a;');
+    fs.writeFileSync(path.join(config.dir, 'README.md'), 'no es una migración');
+
+    const files = listMigrationFiles(config);
+    expect(files.map(file => file.fileName)).toEqual(['20240101000000_first.sql', '20240102000000_second.sql']);
+    expect(files[0]!.rollbackPath).toBe(path.join(config.rollbacksDir, '20240101000000_first.sql'));
+    expect(files[1]!.rollbackPath).toBeUndefined();
+
+    expect(readMigration(files[0]!)).toMatchObject({
+      version: '20240101000000',
+      name: 'first',
+      up: 'CREATE TABLE a (id int);\n',
+      down: 'DROP TABLE a;\n'
+    });
+  });
+
+  it('rechaza una versión ya usada', () => {
+    writeMigration(config, '20240101000000', 'first', 'SELECT 1;');
+
+    expect(() => writeMigration(config, '20240101000000', 'other', 'SELECT 2;')).toThrow('Ya existe una migración con la versión 20240101000000');
+  });
+
+  it('borra la migración junto con su rollback', () => {
+    const file = writeMigration(config, '20240101000000', 'first', 'SELECT 1;', 'SELECT 0;');
+
+    removeMigrationFiles(file);
+
+    expect(findMigrationFile(config, '20240101000000')).toBeUndefined();
+    expect(fs.existsSync(file.rollbackPath!)).toBe(false);
+  });
+
+  it('prepara una migración que sustituye a otra sin que aparezca en la lista hasta publicarla', () => {
+    const original = writeMigration(config, '20240101000000', 'first', 'SELECT 1;', 'SELECT 0;');
+    const staged = stageMigration(config, '20240101000000', 'first', 'SELECT 1;\nSELECT 2;');
+
+    expect(listMigrationFiles(config).map(file => file.path)).toEqual([original.path]);
+
+    removeMigrationFiles(original);
+    const published = publishStagedMigration(staged);
+
+    expect(published.path).toBe(original.path);
+    expect(published.rollbackPath).toBeUndefined();
+    expect(readMigration(findMigrationFile(config, '20240101000000')!)).toMatchObject({ up: 'SELECT 1;\nSELECT 2;\n' });
+    expect(fs.existsSync(staged.path)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { Queryable } from '../introspection.js';
+import { getMigrationMetadata, migrationChecksum, recordAppliedMigration, withMigrationLock } from '../migration-history.js';
+
+const mockClient = (...results: { rows: Record<string, unknown>[] }[]) => {
+  const query = jest.fn();
+  for (const result of results) {
+    query.mockResolvedValueOnce(result);
+  }
+  query.mockResolvedValue({ rows: [] });
+  return { query, client: { query } as unknown as Queryable };
+};
+
+describe('migrationChecksum', () => {
+  it('ignora los finales de línea y los espacios de los extremos', () => {
+    const checksum = migrationChecksum('CREATE TABLE a (id int);\nSELECT 1;');
+
+    expect(migrationChecksum('\n  CREATE TABLE a (id int);\r\nSELECT 1;  \n')).toBe(checksum);
+    expect(checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('cambia si cambia el SQL', () => {
+    expect(migrationChecksum('SELECT 1;')).not.toBe(migrationChecksum('SELECT 2;'));
+  });
+});
+
+describe('recordAppliedMigration', () => {
+  it('registra las sentencias para Supabase CLI y el checksum y la instantánea en los metadatos', async () => {
+    const { query, client } = mockClient();
+    const sql = 'CREATE TABLE a (id int);\nINSERT INTO a VALUES (1);';
+    const snapshots = [{ schema: 'public', tables: [] }] as never;
+
+    await recordAppliedMigration(client, '20240101000000', 'init', sql, snapshots);
+
+    expect(query.mock.calls[0]![1]).toEqual(['20240101000000', 'init', ['CREATE TABLE a (id int)', 'INSERT INTO a VALUES (1)']]);
+    expect(query.mock.calls[1]![1]).toEqual(['20240101000000', migrationChecksum(sql), JSON.stringify(snapshots)]);
+  });
+
+  it('guarda null si no hay instantánea', async () => {
+    const { query, client } = mockClient();
+
+    await recordAppliedMigration(client, '20240101000000', 'init', 'SELECT 1;');
+
+    expect(query.mock.calls[1]![1]).toEqual(['20240101000000', migrationChecksum('SELECT 1;'), null]);
+  });
+});
+
+describe('getMigrationMetadata', () => {
+  it('no crea la tabla de metadatos si aún no existe', async () => {
+    const { query, client } = mockClient({ rows: [{ exists: false }] });
+
+    expect((await getMigrationMetadata(client)).size).toBe(0);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('indexa los metadatos por versión', async () => {
+    const { client } = mockClient(
+      { rows: [{ exists: true }] },
+      { rows: [{ version: '20240101000000', checksum: 'abc', hasSnapshot: true, appliedAt: '2024-01-01 00:00:00+00' }] }
+    );
+
+    const metadata = await getMigrationMetadata(client);
+
+    expect(metadata.get('20240101000000')).toEqual({
+      version: '20240101000000',
+      checksum: 'abc',
+      hasSnapshot: true,
+      appliedAt: '2024-01-01T00:00:00.000Z'
+    });
+  });
+});
+
+describe('withMigrationLock', () => {
+  it('espera al lock con lock_timeout y lo suelta al terminar', async () => {
+    const { query, client } = mockClient();
+
+    expect(await withMigrationLock(client, async () => 'hecho')).toBe('hecho');
+    expect(query.mock.calls.map(call => call[0])).toEqual([
+      'SET lock_timeout = 30000;',
+      'SELECT pg_advisory_lock(hashtext($1));',
+      'RESET lock_timeout;',
+      'SELECT pg_advisory_unlock(hashtext($1));'
+    ]);
+  });
+
+  it('falla con un error claro si otra ejecución no suelta el lock a tiempo', async () => {
+    const { query, client } = mockClient();
+    query.mockImplementation(async (sql: string) => {
+      if (sql.includes('pg_advisory_lock')) {
+        throw Object.assign(new Error('canceling statement due to lock timeout'), { code: '55P03' });
+      }
+      return { rows: [] };
+    });
+    const fn = jest.fn();
+
+    await expect(withMigrationLock(client, fn)).rejects.toThrow('sigue en curso en esta base de datos tras esperar 30 s');
+    expect(fn).not.toHaveBeenCalled();
+    expect(query).toHaveBeenLastCalledWith('RESET lock_timeout;');
+  });
+});
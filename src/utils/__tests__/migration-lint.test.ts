@@ -0,0 +1,110 @@
+import { Queryable } from '../introspection.js';
+import { blockingFindings, lintMigrationSQL } from '../migration-lint.js';
+
+interface MockTable {
+  rows: number;
+  dependents?: Record<string, string[]>;
+}
+
+// Catálogo simulado: tablas existentes con sus filas y las funciones volátiles conocidas
+const mockCatalog = (tables: Record<string, MockTable>, volatile: string[] = ['now', 'random', 'gen_random_uuid']) => {
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM pg_class c')) {
+      const key = String(params[0]).includes('.') ? String(params[0]) : `public.${params[0]}`;
+      const table = tables[key];
+      if (!table) {
+        return { rows: [] };
+      }
+      const [schema, name] = key.split('.');
+      return { rows: [{ schema, name, estimate: table.rows }] };
+    }
+    if (sql.includes('has_rows')) {
+      const name = Object.keys(tables).find(key => sql.includes(key));
+      return { rows: [{ has_rows: (tables[name!]?.rows ?? 0) > 0 }] };
+    }
+    if (sql.includes('FROM pg_depend d')) {
+      const [table, column] = params as string[];
+      return { rows: (tables[table!]?.dependents?.[column!] ?? []).map(dependent => ({ dependent })) };
+    }
+    if (sql.includes('FROM pg_proc')) {
+      return { rows: (params[0] as string[]).filter(name => volatile.includes(name)).map(proname => ({ proname })) };
+    }
+    return { rows: [] };
+  });
+  return { query } as unknown as Queryable;
+};
+
+const rules = (findings: { rule: string; severity: string }[]) => findings.map(finding => `${finding.rule}:${finding.severity}`);
+
+describe('lintMigrationSQL', () => {
+  it('avisa de índices sin CONCURRENTLY solo en tablas con filas', async () => {
+    const client = mockCatalog({ 'public.orders': { rows: 5000 }, 'public.empty': { rows: 0 } });
+
+    const lint = await lintMigrationSQL(client, [
+      'CREATE INDEX orders_user_idx ON orders (user_id);',
+      'CREATE INDEX empty_idx ON public.empty (id);'
+    ].join('\n'), ['public']);
+
+    expect(rules(lint.findings)).toEqual(['index-without-concurrently:warning', 'index-without-concurrently:info']);
+    expect(lint.findings[0]!.message).toContain('~5000 filas');
+    expect(lint.summary).toEqual({ error: 0, warning: 1, info: 1 });
+  });
+
+  it('marca CONCURRENTLY dentro de una transacción como error', async () => {
+    const lint = await lintMigrationSQL(mockCatalog({}), 'CREATE INDEX CONCURRENTLY idx ON items (id);', ['public']);
+    const outside = await lintMigrationSQL(mockCatalog({}), '-- mcp:no-transaction\nCREATE INDEX CONCURRENTLY idx ON items (id);', ['public']);
+
+    expect(rules(lint.findings)).toEqual(['concurrently-in-transaction:error']);
+    expect(outside.findings).toEqual([]);
+  });
+
+  it('detecta columnas NOT NULL sin default, defaults volátiles y cambios de tipo', async () => {
+    const client = mockCatalog({ 'public.orders': { rows: 10 } });
+
+    const lint = await lintMigrationSQL(client, [
+      'ALTER TABLE orders ADD COLUMN status text NOT NULL;',
+      'ALTER TABLE orders ADD COLUMN created_at timestamptz DEFAULT now() NOT NULL;',
+      "ALTER TABLE orders ADD COLUMN kind text DEFAULT 'web' NOT NULL;",
+      'ALTER TABLE orders ALTER COLUMN total TYPE numeric;'
+    ].join('\n'), ['public']);
+
+    expect(rules(lint.findings)).toEqual(['not-null-without-default:error', 'volatile-default:warning', 'table-rewrite:warning']);
+    expect(lint.findings.map(finding => finding.statement)).toEqual([1, 2, 4]);
+  });
+
+  it('avisa de columnas en uso al borrarlas', async () => {
+    const client = mockCatalog({ 'public.orders': { rows: 1, dependents: { total: ['vista public.order_totals'] } } });
+
+    const lint = await lintMigrationSQL(client, 'ALTER TABLE public.orders DROP COLUMN total CASCADE;', ['public']);
+
+    expect(lint.findings[0]).toMatchObject({ rule: 'drop-column-in-use', severity: 'error', object: 'public.orders.total' });
+    expect(lint.findings[0]!.message).toContain('CASCADE también borrará: vista public.order_totals');
+  });
+
+  it('exige RLS en las tablas nuevas de los esquemas expuestos y no revisa su contenido', async () => {
+    const client = mockCatalog({});
+
+    const lint = await lintMigrationSQL(client, [
+      'CREATE TABLE public.items (id int);',
+      'ALTER TABLE public.items ADD COLUMN name text NOT NULL;',
+      'CREATE TABLE public.secure (id int);',
+      'ALTER TABLE public.secure ENABLE ROW LEVEL SECURITY;',
+      'CREATE TABLE private.audit (id int);'
+    ].join('\n'), ['public']);
+
+    expect(lint.findings).toEqual([expect.objectContaining({ rule: 'table-without-rls', object: 'public.items', statement: 1 })]);
+  });
+});
+
+describe('blockingFindings', () => {
+  it('bloquea según el nivel configurado', async () => {
+    const lint = await lintMigrationSQL(mockCatalog({ 'public.orders': { rows: 10 } }), [
+      'ALTER TABLE orders ADD COLUMN status text NOT NULL;',
+      'CREATE INDEX orders_status_idx ON orders (status);'
+    ].join('\n'), ['public']);
+
+    expect(rules(blockingFindings(lint, 'error'))).toEqual(['not-null-without-default:error']);
+    expect(blockingFindings(lint, 'warning')).toHaveLength(2);
+    expect(blockingFindings(lint, 'off')).toEqual([]);
+  });
+});
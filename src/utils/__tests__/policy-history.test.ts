@@ -0,0 +1,92 @@
+import { Queryable } from '../introspection.js';
+import { PolicyDefinition, adaptToCommand, alterPolicySQL, createPolicySQL, listPolicyHistory } from '../policy-history.js';
+
+const policy = (overrides: Partial<PolicyDefinition> = {}): PolicyDefinition => ({
+  schema: 'public',
+  table: 'items',
+  name: 'items_owner',
+  permissive: true,
+  command: 'UPDATE',
+  roles: ['authenticated'],
+  using: '(user_id = auth.uid())',
+  withCheck: null,
+  ...overrides
+});
+
+describe('createPolicySQL', () => {
+  it('recrea la política con su tipo, roles y expresiones', () => {
+    expect(createPolicySQL(policy({ permissive: false, roles: ['public', 'anon'], withCheck: 'true' }))).toBe(
+      'CREATE POLICY items_owner ON public.items AS RESTRICTIVE FOR UPDATE TO public, anon USING ((user_id = auth.uid())) WITH CHECK (true);'
+    );
+  });
+});
+
+describe('alterPolicySQL', () => {
+  it('solo incluye las cláusulas que cambian', () => {
+    expect(alterPolicySQL(policy(), policy({ roles: ['authenticated', 'service_role'], withCheck: '(user_id = auth.uid())' }))).toEqual([
+      'ALTER POLICY items_owner ON public.items TO authenticated, service_role WITH CHECK ((user_id = auth.uid()));'
+    ]);
+  });
+
+  it('renombra después de alterar', () => {
+    expect(alterPolicySQL(policy(), policy({ name: 'items_owner_update', using: 'true' }))).toEqual([
+      'ALTER POLICY items_owner ON public.items USING (true);',
+      'ALTER POLICY items_owner ON public.items RENAME TO items_owner_update;'
+    ]);
+  });
+
+  it('no genera nada si la política no cambia', () => {
+    expect(alterPolicySQL(policy(), policy())).toEqual([]);
+  });
+});
+
+describe('adaptToCommand', () => {
+  it('mueve USING a WITH CHECK al pasar a INSERT', () => {
+    expect(adaptToCommand(policy({ command: 'INSERT' }))).toMatchObject({ using: null, withCheck: '(user_id = auth.uid())' });
+  });
+
+  it('mueve WITH CHECK a USING al pasar a SELECT o DELETE', () => {
+    expect(adaptToCommand(policy({ command: 'SELECT', using: null, withCheck: 'true' }))).toMatchObject({ using: 'true', withCheck: null });
+    expect(adaptToCommand(policy({ command: 'DELETE', withCheck: 'false' }))).toMatchObject({ using: '(user_id = auth.uid())', withCheck: null });
+  });
+
+  it('mantiene las dos expresiones en UPDATE y ALL', () => {
+    const definition = policy({ command: 'ALL', withCheck: 'true' });
+
+    expect(adaptToCommand(definition)).toBe(definition);
+  });
+});
+
+describe('listPolicyHistory', () => {
+  it('devuelve una lista vacía sin crear la tabla de historial', async () => {
+    const query = jest.fn().mockResolvedValueOnce({ rows: [{ exists: false }] });
+
+    expect(await listPolicyHistory({ query } as unknown as Queryable, 'public')).toEqual([]);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('convierte las filas del historial', async () => {
+    const query = jest.fn()
+      .mockResolvedValueOnce({ rows: [{ exists: true }] })
+      .mockResolvedValueOnce({
+        rows: [{
+          id: '7',
+          schema_name: 'public',
+          table_name: 'items',
+          policy_name: 'items_owner',
+          permissive: true,
+          command: 'UPDATE',
+          roles: ['authenticated'],
+          using_expression: '(user_id = auth.uid())',
+          with_check_expression: null,
+          change: 'alter',
+          changed_at: new Date('2024-01-01T00:00:00Z')
+        }]
+      });
+
+    const [entry] = await listPolicyHistory({ query } as unknown as Queryable, 'public', 'items');
+
+    expect(entry).toEqual({ ...policy(), id: 7, change: 'alter', changedAt: '2024-01-01T00:00:00.000Z' });
+    expect(query.mock.calls[1]![1]).toEqual(['public', 'items', null]);
+  });
+});
@@ -0,0 +1,34 @@
+import { formatRows } from '../result-format.js';
+
+describe('formatRows', () => {
+  const rows = [
+    { id: 1, name: 'Ana', created_at: new Date('2024-01-02T03:04:05.000Z') },
+    { id: 2, name: 'Luis, "el Sabio"', created_at: null }
+  ];
+
+  it('serializa fechas, binarios y bigint en json', () => {
+    const result = formatRows([{ at: new Date(0), raw: Buffer.from([0xde, 0xad]), big: BigInt(10) }], ['at', 'raw', 'big'], 'json', 1000);
+
+    expect(result.data).toEqual([{ at: '1970-01-01T00:00:00.000Z', raw: '\\xdead', big: '10' }]);
+    expect(result).toMatchObject({ count: 1, truncated: false });
+  });
+
+  it('escapa comas y comillas en csv e incluye la cabecera', () => {
+    const result = formatRows(rows, ['id', 'name', 'created_at'], 'csv', 1000);
+
+    expect(result.data).toBe('id,name,created_at\n1,Ana,2024-01-02T03:04:05.000Z\n2,"Luis, ""el Sabio""",');
+  });
+
+  it('devuelve una línea JSON por fila en ndjson', () => {
+    const result = formatRows(rows, ['id', 'name'], 'ndjson', 1000);
+
+    expect((result.data as string).split('\n').map(line => JSON.parse(line).id)).toEqual([1, 2]);
+  });
+
+  it('descarta las filas que superan el tamaño máximo pero devuelve al menos una', () => {
+    const result = formatRows(rows, ['id', 'name', 'created_at'], 'json', 10);
+
+    expect(result).toMatchObject({ count: 1, truncated: true });
+    expect(result.bytes).toBe(Buffer.byteLength(JSON.stringify((result.data as unknown[])[0])) + 1);
+  });
+});
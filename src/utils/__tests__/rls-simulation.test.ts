@@ -0,0 +1,132 @@
+import { Queryable } from '../introspection.js';
+import { RLSTableSample, resolveIdentity, simulateTableAccess, withSimulatedRole } from '../rls-simulation.js';
+
+type Responder = (sql: string, params?: unknown[]) => { rows: Record<string, unknown>[]; rowCount?: number };
+
+// Cliente que responde según el texto de la consulta; las sentencias de control devuelven vacío
+const mockClient = (respond: Responder = () => ({ rows: [] })) => {
+  const query = jest.fn(async (sql: string, params?: unknown[]) => respond(sql, params));
+  return { query, client: { query } as unknown as Queryable };
+};
+
+const pgError = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+const USER_ID = '2f1c7c3e-8a4b-4d6e-9f10-1a2b3c4d5e6f';
+
+describe('resolveIdentity', () => {
+  it('construye los claims de un usuario a partir de auth.users', async () => {
+    const { client } = mockClient(sql => sql.includes('to_regclass')
+      ? { rows: [{ exists: true }] }
+      : { rows: [{ email: 'ana@example.com', phone: null, raw_app_meta_data: { role: 'admin' }, raw_user_meta_data: null }] });
+
+    const identity = await resolveIdentity(client, USER_ID, { aal: 'aal2' });
+
+    expect(identity).toEqual({
+      role: 'authenticated',
+      userId: USER_ID,
+      claims: {
+        sub: USER_ID,
+        role: 'authenticated',
+        aud: 'authenticated',
+        email: 'ana@example.com',
+        phone: null,
+        app_metadata: { role: 'admin' },
+        user_metadata: {},
+        aal: 'aal2'
+      }
+    });
+  });
+
+  it('falla si el usuario no existe', async () => {
+    const { client } = mockClient(sql => (sql.includes('to_regclass') ? { rows: [{ exists: true }] } : { rows: [] }));
+
+    await expect(resolveIdentity(client, USER_ID)).rejects.toThrow(`Usuario ${USER_ID} no encontrado en auth.users`);
+  });
+
+  it('acepta un rol existente y rechaza nombres inválidos o desconocidos', async () => {
+    expect(await resolveIdentity(mockClient(() => ({ rows: [{ '?column?': 1 }] })).client, 'anon'))
+      .toEqual({ role: 'anon', userId: null, claims: { role: 'anon' } });
+    await expect(resolveIdentity(mockClient().client, 'anon; DROP TABLE x')).rejects.toThrow('Rol inválido');
+    await expect(resolveIdentity(mockClient().client, 'ghost')).rejects.toThrow('El rol ghost no existe');
+  });
+});
+
+describe('withSimulatedRole', () => {
+  it('revierte el savepoint aunque la prueba falle', async () => {
+    const { query, client } = mockClient();
+
+    await expect(withSimulatedRole(client, { role: 'anon', userId: null, claims: {} }, async () => {
+      throw new Error('fallo');
+    })).rejects.toThrow('fallo');
+
+    expect(query.mock.calls.map(([sql]) => sql)).toEqual([
+      'SAVEPOINT rls_simulation',
+      expect.stringContaining('request.jwt.claims'),
+      'SET LOCAL ROLE anon',
+      'ROLLBACK TO SAVEPOINT rls_simulation'
+    ]);
+  });
+});
+
+describe('simulateTableAccess', () => {
+  const sample: RLSTableSample = { schema: 'public', table: 'items', ctids: '{"(0,1)","(0,2)"}', size: 2, updateColumn: 'id' };
+  const identity = { role: 'authenticated', userId: USER_ID, claims: { sub: USER_ID } };
+
+  it('clasifica cada comando según las filas afectadas y los errores de permisos', async () => {
+    const { client } = mockClient(sql => {
+      if (sql.startsWith('SELECT count(*)')) {
+        return { rows: [{ visible: 1 }] };
+      }
+      if (sql.startsWith('INSERT')) {
+        throw pgError('new row violates row-level security policy for table "items"', '42501');
+      }
+      if (sql.startsWith('UPDATE')) {
+        return { rows: [], rowCount: 2 };
+      }
+      if (sql.startsWith('DELETE')) {
+        return { rows: [], rowCount: 0 };
+      }
+      return { rows: [] };
+    });
+
+    const access = await simulateTableAccess(client, sample, identity, { id: 3, data: { a: 1 } });
+
+    expect(access.SELECT).toEqual({ status: 'partial', rows: 1, of: 2 });
+    expect(access.INSERT).toMatchObject({ status: 'deny', error: { code: '42501' } });
+    expect(access.UPDATE).toEqual({ status: 'allow', rows: 2, of: 2 });
+    expect(access.DELETE).toEqual({ status: 'deny', rows: 0, of: 2 });
+  });
+
+  it('marca como no probadas las escrituras en modo de solo lectura', async () => {
+    const { client } = mockClient(sql => {
+      if (sql.startsWith('SELECT count(*)')) {
+        return { rows: [{ visible: 2 }] };
+      }
+      if (sql.startsWith('UPDATE') || sql.startsWith('DELETE')) {
+        throw pgError('cannot execute UPDATE in a read-only transaction', '25006');
+      }
+      return { rows: [] };
+    });
+
+    const access = await simulateTableAccess(client, sample, identity, { id: 3 });
+
+    expect(access.UPDATE.status).toBe('untested');
+    expect(access.DELETE.note).toContain('solo lectura');
+  });
+
+  it('sin fila de ejemplo evalúa el INSERT con las políticas', async () => {
+    const { client } = mockClient(sql => {
+      if (sql.includes('has_table_privilege')) {
+        return { rows: [{ privileged: true, rls_enabled: true, bypass: false, checks: ['(owner_id = auth.uid())'] }] };
+      }
+      return { rows: [{ visible: 0 }] };
+    });
+
+    const access = await simulateTableAccess(client, { ...sample, size: 0, ctids: '{}' }, identity);
+
+    expect(access.SELECT).toMatchObject({ status: 'allow', rows: 0, of: 0 });
+    expect(access.INSERT).toMatchObject({ status: 'untested', note: expect.stringContaining('owner_id = auth.uid()') });
+    expect(access.UPDATE.status).toBe('untested');
+    expect(access.DELETE.status).toBe('untested');
+  });
+});
@@ -0,0 +1,86 @@
+import { TemplateParams, buildTemplatePolicies, parseClaimPath, templateColumns, templatePolicySQL } from '../rls-templates.js';
+
+const params = (overrides: Partial<TemplateParams> = {}): TemplateParams => ({
+  prefix: 'items',
+  ownerColumn: 'user_id',
+  teamColumn: 'team_id',
+  membership: null,
+  claimPath: ['app_metadata', 'role'],
+  claimValues: [],
+  tenantColumn: 'tenant_id',
+  tenantType: 'uuid',
+  ...overrides
+});
+
+describe('parseClaimPath', () => {
+  it('separa la ruta por puntos y rechaza segmentos que podrían romper el SQL', () => {
+    expect(parseClaimPath('app_metadata.tenant-id')).toEqual(['app_metadata', 'tenant-id']);
+    expect(() => parseClaimPath("app_metadata.role}'")).toThrow('Ruta de claim inválida');
+    expect(() => parseClaimPath('app_metadata..role')).toThrow('Ruta de claim inválida');
+  });
+});
+
+describe('buildTemplatePolicies', () => {
+  it('owner-only crea una política por comando con la comprobación en la cláusula que corresponde', () => {
+    const policies = buildTemplatePolicies('owner-only', params());
+
+    expect(policies.map(policy => [policy.name, policy.command, policy.using !== null, policy.withCheck !== null])).toEqual([
+      ['items_owner_select', 'SELECT', true, false],
+      ['items_owner_insert', 'INSERT', false, true],
+      ['items_owner_update', 'UPDATE', true, true],
+      ['items_owner_delete', 'DELETE', true, false]
+    ]);
+    expect(policies[0]!.using).toBe('user_id = (SELECT auth.uid())');
+  });
+
+  it('public-read-owner-write abre la lectura a anon y reserva las escrituras al propietario', () => {
+    const policies = buildTemplatePolicies('public-read-owner-write', params());
+
+    expect(policies[0]).toEqual({ name: 'items_public_select', command: 'SELECT', roles: ['anon', 'authenticated'], using: 'true', withCheck: null });
+    expect(policies.slice(1).map(policy => policy.command)).toEqual(['INSERT', 'UPDATE', 'DELETE']);
+  });
+
+  it('team-membership necesita la tabla de pertenencia', () => {
+    expect(() => buildTemplatePolicies('team-membership', params())).toThrow('necesita membershipTable');
+
+    const [select] = buildTemplatePolicies('team-membership', params({
+      membership: { table: 'public.team_members', teamColumn: 'team_id', userColumn: 'user_id' }
+    }));
+    expect(select!.using).toBe('team_id IN (SELECT team_id FROM public.team_members WHERE user_id = (SELECT auth.uid()))');
+  });
+
+  it('role-claim compara el claim con uno o varios valores escapados', () => {
+    expect(() => buildTemplatePolicies('role-claim', params())).toThrow('necesita claimValues');
+
+    const [single] = buildTemplatePolicies('role-claim', params({ claimValues: ['admin'] }));
+    const [several] = buildTemplatePolicies('role-claim', params({ claimValues: ['admin', "o'neil"] }));
+
+    expect(single!.using).toBe("((SELECT auth.jwt()) #>> '{app_metadata,role}') = 'admin'");
+    expect(several!.using).toBe("((SELECT auth.jwt()) #>> '{app_metadata,role}') = ANY (ARRAY['admin', 'o''neil'])");
+  });
+
+  it('tenant-isolation convierte el claim al tipo de la columna', () => {
+    const [select] = buildTemplatePolicies('tenant-isolation', params({ claimPath: ['app_metadata', 'tenant_id'] }));
+
+    expect(select!.using).toBe(`tenant_id = ((SELECT auth.jwt()) #>> '{app_metadata,tenant_id}')::uuid`);
+  });
+});
+
+describe('templateColumns', () => {
+  it('indica las columnas que cada plantilla necesita en la tabla', () => {
+    expect(templateColumns('owner-only', params())).toEqual(['user_id']);
+    expect(templateColumns('team-membership', params())).toEqual(['team_id']);
+    expect(templateColumns('role-claim', params())).toEqual([]);
+  });
+});
+
+describe('templatePolicySQL', () => {
+  it('genera CREATE POLICY con USING y WITH CHECK', () => {
+    const [, , update] = buildTemplatePolicies('owner-only', params());
+
+    expect(templatePolicySQL('public.items', update!)).toBe(
+      'CREATE POLICY items_owner_update ON public.items FOR UPDATE TO authenticated ' +
+      'USING (user_id = (SELECT auth.uid())) WITH CHECK (user_id = (SELECT auth.uid()));'
+    );
+  });
+});
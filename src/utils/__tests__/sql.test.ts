@@ -0,0 +1,82 @@
+import { classifySQL, classifyStatement, findTransactionControl, isStatementAllowed, splitSQLStatements } from '../sql.js';
+
+describe('splitSQLStatements', () => {
+  it('no divide dentro de literales, identificadores, dollar-quoting ni comentarios', () => {
+    const sql = `
+      SELECT 'a;b', "c;d" FROM t; -- comentario; con punto y coma
+      CREATE FUNCTION f() RETURNS int AS $body$ SELECT 1; $body$ LANGUAGE sql;
+      /* bloque; /* anidado; */ */ SELECT 2
+    `;
+    const statements = splitSQLStatements(sql);
+    expect(statements).toHaveLength(3);
+    expect(statements[1]).toContain('$body$ SELECT 1; $body$');
+    expect(statements[2]).toMatch(/SELECT 2$/);
+  });
+
+  it('ignora las sentencias que solo contienen comentarios', () => {
+    expect(splitSQLStatements('-- nada\n; /* tampoco */ ;')).toEqual([]);
+  });
+});
+
+describe('classifyStatement', () => {
+  it.each([
+    ['SELECT * FROM users', 'read', 'SELECT'],
+    ['WITH x AS (SELECT 1) SELECT * FROM x', 'read', 'WITH'],
+    ['SHOW search_path', 'read', 'SHOW'],
+    ['EXPLAIN SELECT 1', 'read', 'EXPLAIN'],
+    ['INSERT INTO t VALUES (1)', 'write', 'INSERT'],
+    ['WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d', 'write', 'WITH DELETE'],
+    ['SELECT * FROM t FOR UPDATE', 'write', 'SELECT FOR UPDATE'],
+    ['EXPLAIN ANALYZE DELETE FROM t', 'write', 'EXPLAIN ANALYZE DELETE'],
+    ['COPY t FROM STDIN', 'write', 'COPY FROM'],
+    ['BEGIN', 'transaction', 'BEGIN'],
+    ['COMMIT', 'transaction', 'COMMIT'],
+    ['CREATE TABLE t (id int)', 'ddl', 'CREATE TABLE'],
+    ['CREATE OR REPLACE VIEW v AS SELECT 1', 'ddl', 'CREATE VIEW'],
+    ['SELECT 1 INTO nueva', 'ddl', 'SELECT INTO'],
+    ['GRANT SELECT ON t TO anon', 'privileged', 'GRANT'],
+    ['SET ROLE postgres', 'privileged', 'SET ROLE'],
+    ['SET LOCAL TRANSACTION READ WRITE', 'privileged', 'SET TRANSACTION'],
+    ['CREATE EXTENSION pgcrypto', 'privileged', 'CREATE EXTENSION'],
+    ["COPY t TO '/tmp/x.csv'", 'privileged', 'COPY'],
+    ['DO $$ BEGIN END $$', 'privileged', 'DO'],
+    ['VACIAR t', 'privileged', 'VACIAR']
+  ])('%s → %s', (statement, expectedClass, command) => {
+    const classified = classifyStatement(statement);
+    expect(classified.class).toBe(expectedClass);
+    expect(classified.command).toBe(command);
+  });
+
+  it('no se deja engañar por palabras clave dentro de literales o comentarios', () => {
+    expect(classifyStatement("SELECT 'DELETE FROM t' AS texto").class).toBe('read');
+    expect(classifyStatement('/* DROP TABLE t */ SELECT 1').class).toBe('read');
+  });
+
+  it('SET de un parámetro de la lista segura es de lectura', () => {
+    expect(classifyStatement('SET statement_timeout = 1000').class).toBe('read');
+    expect(classifyStatement('SET LOCAL TIME ZONE UTC').class).toBe('read');
+  });
+
+  it('SET y RESET de cualquier otro parámetro son privilegiados', () => {
+    expect(classifyStatement('SET session_replication_role = replica')).toMatchObject({ class: 'privileged', command: 'SET SESSION_REPLICATION_ROLE' });
+    expect(classifyStatement('SET search_path TO evil, public').class).toBe('privileged');
+    expect(classifyStatement('RESET ALL').class).toBe('privileged');
+  });
+});
+
+describe('classifySQL', () => {
+  it('numera cada sentencia del script', () => {
+    const statements = classifySQL('SELECT 1; UPDATE t SET a = 1; DROP TABLE t;');
+    expect(statements.map(s => [s.index, s.class])).toEqual([[0, 'read'], [1, 'write'], [2, 'ddl']]);
+  });
+
+  it('detecta el control de transacciones', () => {
+    expect(findTransactionControl('BEGIN; SELECT 1; COMMIT;').map(s => s.command)).toEqual(['BEGIN', 'COMMIT']);
+  });
+
+  it('isStatementAllowed aplica la lista de clases permitidas', () => {
+    const [read, write] = classifySQL('SELECT 1; DELETE FROM t');
+    expect(isStatementAllowed(read!, ['read'])).toBe(true);
+    expect(isStatementAllowed(write!, ['read'])).toBe(false);
+  });
+});
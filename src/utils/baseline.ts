@@ -0,0 +1,113 @@
+import { DatabaseType, ObjectGrant, SchemaSnapshot } from '../types/supabase.js';
+import { Queryable, introspectGrants, introspectSchema, introspectTypes } from './introspection.js';
+import { buildSchemaMigration } from './schema-diff.js';
+import { qualifiedName, quoteIdentifier, quoteLiteral } from './sql.js';
+
+export interface BaselineMigration {
+  up: string;
+  snapshots: SchemaSnapshot[];
+  summary: {
+    schemas: string[];
+    types: number;
+    tables: number;
+    views: number;
+    functions: number;
+    grants: number;
+  };
+  warnings: string[];
+}
+
+// Los dominios pueden usar enums y los compuestos ambos
+const TYPE_ORDER: DatabaseType['kind'][] = ['enum', 'domain', 'composite'];
+
+export const createTypeSQL = (type: DatabaseType): string => {
+  const name = qualifiedName(type.schema, type.name);
+
+  if (type.kind === 'enum') {
+    return `CREATE TYPE ${name} AS ENUM (${(type.labels ?? []).map(quoteLiteral).join(', ')});`;
+  }
+  if (type.kind === 'composite') {
+    const attributes = (type.attributes ?? []).map(attr => `${quoteIdentifier(attr.name)} ${attr.type}`);
+    return `CREATE TYPE ${name} AS (${attributes.join(', ')});`;
+  }
+
+  let sql = `CREATE DOMAIN ${name} AS ${type.baseType}`;
+  if (type.defaultValue) {
+    sql += ` DEFAULT ${type.defaultValue}`;
+  }
+  if (type.notNull) {
+    sql += ' NOT NULL';
+  }
+  for (const constraint of type.constraints ?? []) {
+    sql += ` ${constraint}`;
+  }
+  return `${sql};`;
+};
+
+export const grantSQL = (grant: ObjectGrant): string => {
+  const grantee = grant.grantee === 'PUBLIC' ? 'PUBLIC' : quoteIdentifier(grant.grantee);
+  const target = grant.objectType === 'schema'
+    ? `SCHEMA ${quoteIdentifier(grant.name)}`
+    : grant.objectType === 'function'
+      ? `FUNCTION ${qualifiedName(grant.schema, grant.name)}(${grant.arguments ?? ''})`
+      : `${grant.objectType === 'sequence' ? 'SEQUENCE' : 'TABLE'} ${qualifiedName(grant.schema, grant.name)}`;
+  return `GRANT ${grant.privileges.join(', ')} ON ${target} TO ${grantee}${grant.grantable ? ' WITH GRANT OPTION' : ''};`;
+};
+
+const emptySnapshot = (schema: string): SchemaSnapshot => ({ schema, tables: [], views: [], functions: [] });
+
+// Migración que recrea desde cero los esquemas indicados tal como están ahora
+export const buildBaselineMigration = async (client: Queryable, schemas: string[]): Promise<BaselineMigration> => {
+  const sections: string[] = [];
+  const warnings: string[] = [];
+  const snapshots: SchemaSnapshot[] = [];
+  const summary: BaselineMigration['summary'] = { schemas, types: 0, tables: 0, views: 0, functions: 0, grants: 0 };
+
+  const schemaStatements = schemas
+    .filter(schema => schema !== 'public')
+    .map(schema => `CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)};`);
+  if (schemaStatements.length > 0) {
+    sections.push(`-- Esquemas\n${schemaStatements.join('\n')}`);
+  }
+
+  // Todos los tipos antes que cualquier tabla: las columnas pueden usar tipos de otro esquema
+  const types: DatabaseType[] = [];
+  for (const schema of schemas) {
+    types.push(...await introspectTypes(client, schema));
+  }
+  types.sort((a, b) => TYPE_ORDER.indexOf(a.kind) - TYPE_ORDER.indexOf(b.kind));
+  if (types.length > 0) {
+    sections.push(`-- Tipos\n${types.map(createTypeSQL).join('\n')}`);
+  }
+  summary.types = types.length;
+
+  for (const schema of schemas) {
+    const snapshot = await introspectSchema(client, schema);
+    snapshots.push(snapshot);
+
+    const migration = buildSchemaMigration(emptySnapshot(schema), snapshot);
+    if (migration.up) {
+      sections.push(`-- Esquema ${schema}\n${migration.up}`);
+    }
+    warnings.push(...migration.diff.warnings);
+    summary.tables += snapshot.tables.length;
+    summary.views += snapshot.views.length;
+    summary.functions += snapshot.functions.length;
+  }
+
+  const grants: ObjectGrant[] = [];
+  for (const schema of schemas) {
+    grants.push(...await introspectGrants(client, schema));
+  }
+  if (grants.length > 0) {
+    sections.push(`-- Privilegios\n${grants.map(grantSQL).join('\n')}`);
+  }
+  summary.grants = grants.length;
+
+  return {
+    up: sections.join('\n\n'),
+    snapshots,
+    summary,
+    warnings
+  };
+};
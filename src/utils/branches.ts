@@ -0,0 +1,187 @@
+import { DatabaseTable, SchemaSnapshot } from '../types/supabase.js';
+import { Queryable } from './introspection.js';
+import { SchemaChange, buildSchemaMigration, retargetSnapshot } from './schema-diff.js';
+import { buildSequenceResets, orderByForeignKeys } from './seeds.js';
+import { qualifiedName, quoteIdentifier } from './sql.js';
+
+export type BranchKind = 'schema' | 'database';
+
+export interface BranchRecord {
+  name: string;
+  kind: BranchKind;
+  // Esquema o base de datos que contiene la rama
+  target: string;
+  sourceSchema: string;
+  withData: boolean;
+  // Fotos tomadas al crear la rama: los cambios de cada lado se miden contra ellas
+  sourceSnapshot: SchemaSnapshot;
+  // Proyectada sobre el esquema de origen para que las dos fotos sean comparables
+  branchSnapshot: SchemaSnapshot;
+  createdAt: string;
+}
+
+export interface CopiedTable {
+  table: string;
+  rows: number;
+}
+
+export const BRANCH_PREFIX = 'branch_';
+
+export const branchTarget = (name: string): string => `${BRANCH_PREFIX}${name}`;
+
+// Misma cadena de conexión apuntando a otra base de datos del servidor
+export const branchConnectionString = (dbUrl: string, database: string): string => {
+  const url = new URL(dbUrl);
+  url.pathname = `/${encodeURIComponent(database)}`;
+  return url.toString();
+};
+
+export const ensureBranchRegistry = async (client: Queryable): Promise<void> => {
+  await client.query(`
+    CREATE SCHEMA IF NOT EXISTS supabase_migrations;
+    CREATE TABLE IF NOT EXISTS supabase_migrations.mcp_branches (
+      name TEXT NOT NULL PRIMARY KEY,
+      kind TEXT NOT NULL CHECK (kind IN ('schema', 'database')),
+      target TEXT NOT NULL,
+      source_schema TEXT NOT NULL,
+      with_data BOOLEAN NOT NULL DEFAULT false,
+      source_snapshot JSONB NOT NULL,
+      branch_snapshot JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+};
+
+interface BranchRow {
+  name: string;
+  kind: BranchKind;
+  target: string;
+  source_schema: string;
+  with_data: boolean;
+  source_snapshot: SchemaSnapshot;
+  branch_snapshot: SchemaSnapshot;
+  created_at: Date | string;
+}
+
+const toBranchRecord = (row: BranchRow): BranchRecord => ({
+  name: row.name,
+  kind: row.kind,
+  target: row.target,
+  sourceSchema: row.source_schema,
+  withData: row.with_data,
+  sourceSnapshot: row.source_snapshot,
+  branchSnapshot: row.branch_snapshot,
+  createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at)
+});
+
+// Sin crear nada: las lecturas no deben ejecutar DDL y, si el registro aún no existe, no hay ramas
+const branchRegistryExists = async (client: Queryable): Promise<boolean> => {
+  const result = await client.query<{ exists: boolean }>(
+    `SELECT to_regclass('supabase_migrations.mcp_branches') IS NOT NULL AS exists;`
+  );
+  return result.rows[0]?.exists ?? false;
+};
+
+export const listBranchRecords = async (client: Queryable): Promise<BranchRecord[]> => {
+  if (!(await branchRegistryExists(client))) {
+    return [];
+  }
+  const result = await client.query<BranchRow>('SELECT * FROM supabase_migrations.mcp_branches ORDER BY created_at, name;');
+  return result.rows.map(toBranchRecord);
+};
+
+export const getBranchRecord = async (client: Queryable, name: string): Promise<BranchRecord | null> => {
+  if (!(await branchRegistryExists(client))) {
+    return null;
+  }
+  const result = await client.query<BranchRow>('SELECT * FROM supabase_migrations.mcp_branches WHERE name = $1;', [name]);
+  return result.rows[0] ? toBranchRecord(result.rows[0]) : null;
+};
+
+export const insertBranchRecord = async (client: Queryable, record: Omit<BranchRecord, 'createdAt'>): Promise<void> => {
+  await client.query(
+    `INSERT INTO supabase_migrations.mcp_branches (name, kind, target, source_schema, with_data, source_snapshot, branch_snapshot)
+     VALUES ($1, $2, $3, $4, $5, $6, $7);`,
+    [
+      record.name,
+      record.kind,
+      record.target,
+      record.sourceSchema,
+      record.withData,
+      JSON.stringify(record.sourceSnapshot),
+      JSON.stringify(record.branchSnapshot)
+    ]
+  );
+};
+
+export const deleteBranchRecord = async (client: Queryable, name: string): Promise<void> => {
+  await client.query('DELETE FROM supabase_migrations.mcp_branches WHERE name = $1;', [name]);
+};
+
+// SQL que recrea la estructura del esquema de origen dentro del esquema de la rama
+export const cloneSchemaSQL = (snapshot: SchemaSnapshot, branchSchema: string): { sql: string; warnings: string[] } => {
+  const empty: SchemaSnapshot = { schema: branchSchema, tables: [], views: [], functions: [] };
+  const migration = buildSchemaMigration(empty, retargetSnapshot(snapshot, branchSchema));
+  return {
+    sql: [`CREATE SCHEMA ${quoteIdentifier(branchSchema)};`, migration.up].filter(Boolean).join('\n\n'),
+    warnings: migration.diff.warnings
+  };
+};
+
+// Copiar una muestra de filas por tabla; las claves foráneas hacia el propio esquema solo admiten
+// filas cuyo padre ya se copió, así la muestra mantiene la integridad referencial
+export const copySampleData = async (
+  client: Queryable,
+  tables: DatabaseTable[],
+  branchSchema: string,
+  sampleRows: number
+): Promise<{ copied: CopiedTable[]; cycles: string[] }> => {
+  const { order, cycles } = orderByForeignKeys(tables);
+  const copied: CopiedTable[] = [];
+
+  for (const table of order) {
+    const columns = table.columns.filter(col => col.generated === undefined).map(col => col.name);
+    if (columns.length === 0) {
+      continue;
+    }
+
+    const conditions = (table.foreignKeys ?? [])
+      .filter(fk => (fk.referencedSchema ?? table.schema) === table.schema)
+      .map(fk => {
+        const nullable = fk.columns.map(col => `s.${quoteIdentifier(col)} IS NULL`).join(' OR ');
+        const matches = fk.columns
+          .map((col, i) => `p.${quoteIdentifier(fk.referencedColumns[i] ?? col)} = s.${quoteIdentifier(col)}`)
+          .join(' AND ');
+        return `(${nullable} OR EXISTS (SELECT 1 FROM ${qualifiedName(branchSchema, fk.referencedTable)} p WHERE ${matches}))`;
+      });
+
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    const selectList = columns.map(col => `s.${quoteIdentifier(col)}`).join(', ');
+    const overriding = table.columns.some(col => col.identity === 'ALWAYS') ? ' OVERRIDING SYSTEM VALUE' : '';
+    const orderBy = (table.primaryKey ?? []).map(col => `s.${quoteIdentifier(col)}`).join(', ');
+
+    const result = await client.query(
+      `INSERT INTO ${qualifiedName(branchSchema, table.name)} (${columnList})${overriding}
+       SELECT ${selectList} FROM ${qualifiedName(table.schema, table.name)} s
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ${orderBy ? `ORDER BY ${orderBy}` : ''}
+       LIMIT $1;`,
+      [sampleRows]
+    );
+
+    for (const reset of buildSequenceResets({ ...table, schema: branchSchema }, columns)) {
+      await client.query(reset.sql, reset.params);
+    }
+    copied.push({ table: table.name, rows: result.rowCount ?? 0 });
+  }
+
+  return { copied, cycles };
+};
+
+const changeKey = (change: SchemaChange): string => `${change.objectType}:${change.table ?? ''}:${change.name}`;
+
+// Objetos que cambiaron tanto en la rama como en el origen desde que se creó la rama
+export const findBranchConflicts = (branchChanges: SchemaChange[], sourceChanges: SchemaChange[]): SchemaChange[] => {
+  const touched = new Set(sourceChanges.map(changeKey));
+  return branchChanges.filter(change => touched.has(changeKey(change)));
+};
@@ -1,16 +1,60 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { Client as PgClient } from 'pg';
-import { SupabaseConfig } from '../types/supabase.js';
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SupabaseConfig, ProjectProfiles } from '../types/supabase.js';
 import { logger } from './logger.js';
+import { CursorManager } from './cursors.js';
+
+export interface ConnectionHealth {
+  healthy: boolean;
+  latencyMs: number | null;
+  checkedAt: string;
+  lastError: string | null;
+  pool: {
+    total: number;
+    idle: number;
+    waiting: number;
+    max: number;
+  };
+}
+
+// Errores que indican que la conexión se perdió y merece reintentar
+const isConnectionError = (error: unknown): boolean => {
+  const code = (error as { code?: string }).code;
+  const message = (error as Error).message ?? '';
+  return code === 'ECONNREFUSED'
+    || code === 'ECONNRESET'
+    || code === 'ETIMEDOUT'
+    || code === 'EPIPE'
+    || code === '57P01'
+    || code === '57P03'
+    || /Connection terminated|timeout exceeded when trying to connect/i.test(message);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Ocultar la contraseña de la URL de PostgreSQL
+const describeDatabase = (dbUrl: string): string => {
+  try {
+    const parsed = new URL(dbUrl);
+    return `${parsed.hostname}${parsed.port ? `:${parsed.port}` : ''}${parsed.pathname}`;
+  } catch {
+    return 'desconocida';
+  }
+};
 
 export class SupabaseConnection {
   private supabaseClient: SupabaseClient;
-  private pgClient: PgClient;
+  private pool: Pool;
   private config: SupabaseConfig;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private lastHealth: ConnectionHealth | null = null;
+  private ready: Promise<void> | null = null;
+  private cursors: CursorManager;
 
   constructor(config: SupabaseConfig) {
     this.config = config;
-    
+
     // Crear cliente de Supabase con configuración para self-hosted
     // Según la documentación oficial: usar service role key en ambos headers
     this.supabaseClient = createClient(config.url, config.serviceRoleKey, {
@@ -25,28 +69,58 @@ export class SupabaseConnection {
         }
       }
     });
-    
-    this.pgClient = new PgClient({
-      connectionString: config.dbUrl
+
+    this.pool = new Pool({
+      connectionString: config.dbUrl,
+      max: config.pool.max,
+      idleTimeoutMillis: config.pool.idleTimeoutMs,
+      connectionTimeoutMillis: config.pool.connectionTimeoutMs,
+      ...(config.pool.statementTimeoutMs > 0 ? { statement_timeout: config.pool.statementTimeoutMs } : {})
+    });
+
+    // Un socket caído en un cliente inactivo no debe tumbar el servidor:
+    // el pool lo descarta y abre uno nuevo en la siguiente petición
+    this.pool.on('error', (error) => {
+      logger.error('Error en cliente inactivo del pool de PostgreSQL', error);
     });
+
+    this.cursors = new CursorManager(async () => {
+      await this.connect();
+      return this.acquireClient();
+    }, (client, error) => this.releaseClient(client, error), config.results);
   }
 
-  async connect(): Promise<void> {
+  // Comprobar la conexión una sola vez y arrancar la sonda de salud; si falla, se reintenta en la siguiente llamada
+  connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.establish().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async establish(): Promise<void> {
     try {
-      await this.pgClient.connect();
-      logger.info('Conexión a PostgreSQL establecida');
+      const client = await this.acquireClient();
+      client.release();
+      logger.info(`Pool de PostgreSQL inicializado (máximo ${this.config.pool.max} conexiones)`);
+      this.startHealthProbe();
     } catch (error) {
       logger.error('Error conectando a PostgreSQL', error);
-      throw error;
+      throw new Error(`No se pudo conectar a PostgreSQL en ${describeDatabase(this.config.dbUrl)}: ${(error as Error).message}`);
     }
   }
 
   async disconnect(): Promise<void> {
+    this.stopHealthProbe();
     try {
-      await this.pgClient.end();
-      logger.info('Conexión a PostgreSQL cerrada');
+      await this.cursors.closeAll();
+      await this.pool.end();
+      logger.info('Pool de PostgreSQL cerrado');
     } catch (error) {
-      logger.error('Error cerrando conexión a PostgreSQL', error);
+      logger.error('Error cerrando el pool de PostgreSQL', error);
     }
   }
 
@@ -54,13 +128,96 @@ export class SupabaseConnection {
     return this.supabaseClient;
   }
 
-  getPgClient(): PgClient {
-    return this.pgClient;
+  getConfig(): SupabaseConfig {
+    return this.config;
+  }
+
+  // Cursores de servidor de database_query, ligados al pool de este proyecto
+  getCursors(): CursorManager {
+    return this.cursors;
+  }
+
+  // Obtener un cliente del pool, reintentando con backoff si la base de datos no responde
+  private async acquireClient(): Promise<PoolClient> {
+    const { connectRetries } = this.config.pool;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= connectRetries; attempt++) {
+      try {
+        return await this.pool.connect();
+      } catch (error) {
+        lastError = error;
+        if (!isConnectionError(error) || attempt === connectRetries) {
+          break;
+        }
+        const delay = Math.min(500 * 2 ** attempt, 5000);
+        logger.warn(`Conexión a PostgreSQL fallida, reintentando en ${delay}ms (${attempt + 1}/${connectRetries})`);
+        await sleep(delay);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Devolver un cliente al pool sin el estado de sesión que dejó la herramienta (SET, SET ROLE, tablas
+  // temporales, sentencias preparadas); si no se puede limpiar, se destruye en lugar de reutilizarlo
+  private async releaseClient(client: PoolClient, error?: Error): Promise<void> {
+    if (error) {
+      client.release(error);
+      return;
+    }
+
+    try {
+      await client.query('DISCARD ALL');
+      client.release();
+    } catch (discardError) {
+      logger.warn(`No se pudo limpiar la sesión antes de devolverla al pool; se descarta el cliente: ${(discardError as Error).message}`);
+      client.release(true);
+    }
+  }
+
+  // Ejecutar una función con un cliente dedicado que se devuelve al pool al terminar
+  async withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    await this.connect();
+    const client = await this.acquireClient();
+    let releaseError: Error | undefined;
+
+    try {
+      return await fn(client);
+    } catch (error) {
+      // Si la conexión se rompió, destruir el cliente en lugar de devolverlo al pool
+      if (isConnectionError(error)) {
+        releaseError = error as Error;
+      }
+      throw error;
+    } finally {
+      await this.releaseClient(client, releaseError);
+    }
+  }
+
+  // Ejecutar una función dentro de una transacción aislada en su propio cliente
+  async withTransaction<T>(fn: (client: PoolClient) => Promise<T>, options: { readOnly?: boolean } = {}): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query(options.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+      try {
+        const result = await fn(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  // Consulta de un solo paso en un cliente del pool
+  async query<R extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]): Promise<QueryResult<R>> {
+    return this.withClient(client => client.query<R>(text, params));
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      const result = await this.pgClient.query('SELECT 1');
+      const result = await this.query('SELECT 1');
       return result.rows.length > 0;
     } catch (error) {
       logger.error('Error en test de conexión', error);
@@ -68,9 +225,72 @@ export class SupabaseConnection {
     }
   }
 
+  async checkHealth(): Promise<ConnectionHealth> {
+    const start = Date.now();
+    let lastError: string | null = null;
+    let healthy = false;
+
+    try {
+      healthy = await this.testConnection();
+    } catch (error) {
+      lastError = (error as Error).message;
+    }
+
+    if (!healthy && !lastError) {
+      lastError = 'La consulta de prueba no devolvió resultados';
+    }
+
+    const health: ConnectionHealth = {
+      healthy,
+      latencyMs: healthy ? Date.now() - start : null,
+      checkedAt: new Date().toISOString(),
+      lastError,
+      pool: {
+        total: this.pool.totalCount,
+        idle: this.pool.idleCount,
+        waiting: this.pool.waitingCount,
+        max: this.config.pool.max
+      }
+    };
+
+    if (this.lastHealth && this.lastHealth.healthy !== health.healthy) {
+      if (health.healthy) {
+        logger.info('Conexión a PostgreSQL recuperada');
+      } else {
+        logger.warn('Conexión a PostgreSQL perdida, se reintentará en la siguiente petición');
+      }
+    }
+    this.lastHealth = health;
+
+    return health;
+  }
+
+  getLastHealth(): ConnectionHealth | null {
+    return this.lastHealth;
+  }
+
+  private startHealthProbe(): void {
+    const interval = this.config.pool.healthCheckIntervalMs;
+    if (interval <= 0 || this.healthTimer) {
+      return;
+    }
+
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(error => logger.error('Error en la sonda de salud', error));
+    }, interval);
+    this.healthTimer.unref();
+  }
+
+  private stopHealthProbe(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
   async getVersion(): Promise<string> {
     try {
-      const result = await this.pgClient.query('SELECT version()');
+      const result = await this.query('SELECT version()');
       return result.rows[0]?.version || 'Desconocida';
     } catch (error) {
       logger.error('Error obteniendo versión', error);
@@ -79,24 +299,141 @@ export class SupabaseConnection {
   }
 }
 
-let connection: SupabaseConnection | null = null;
+export interface ProjectSummary {
+  name: string;
+  url: string;
+  database: string;
+  readOnly: boolean;
+  connected: boolean;
+  active: boolean;
+  isDefault: boolean;
+}
+
+// Registro de proyectos: las conexiones se crean bajo demanda y se reutilizan
+const profiles = new Map<string, SupabaseConfig>();
+const connections = new Map<string, SupabaseConnection>();
+const pendingConnections = new Map<string, Promise<SupabaseConnection>>();
+const projectContext = new AsyncLocalStorage<SupabaseConnection>();
+// Cambia al cerrar las conexiones: las que se estaban creando antes no deben registrarse después
+let connectionGeneration = 0;
+let defaultProject: string | null = null;
+let activeProject: string | null = null;
 
-export const getConnection = (): SupabaseConnection => {
-  if (!connection) {
+const resolveProjectName = (project?: string): string => {
+  const name = project ?? activeProject;
+  if (!name) {
     throw new Error('Conexión no inicializada. Llama a initConnection() primero.');
   }
-  return connection;
+  if (!profiles.has(name)) {
+    throw new Error(`Proyecto '${name}' no definido. Proyectos disponibles: ${Array.from(profiles.keys()).join(', ')}`);
+  }
+  return name;
+};
+
+// Devuelve la conexión del proyecto de la llamada en curso, o la del proyecto activo
+export const getConnection = (): SupabaseConnection => {
+  const scoped = projectContext.getStore();
+  if (scoped) {
+    return scoped;
+  }
+
+  const name = resolveProjectName();
+  const existing = connections.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  // Creación perezosa: se conecta y arranca la sonda de salud ya; si el perfil no es accesible,
+  // la primera consulta falla con el error de conexión del proyecto
+  const created = new SupabaseConnection(profiles.get(name)!);
+  connections.set(name, created);
+  created.connect().catch(() => undefined);
+  return created;
 };
 
-export const initConnection = async (config: SupabaseConfig): Promise<SupabaseConnection> => {
-  connection = new SupabaseConnection(config);
-  await connection.connect();
-  return connection;
+export const getProjectConnection = async (project?: string): Promise<SupabaseConnection> => {
+  const name = resolveProjectName(project);
+  const existing = connections.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  const pending = pendingConnections.get(name);
+  if (pending) {
+    return pending;
+  }
+
+  const generation = connectionGeneration;
+  const connecting = (async () => {
+    const created = new SupabaseConnection(profiles.get(name)!);
+    await created.connect();
+    if (generation !== connectionGeneration) {
+      await created.disconnect();
+      throw new Error(`Conexión al proyecto '${name}' cancelada: las conexiones se cerraron mientras se establecía`);
+    }
+    connections.set(name, created);
+    logger.info(`Conexión al proyecto '${name}' establecida`);
+    return created;
+  })();
+
+  pendingConnections.set(name, connecting);
+  try {
+    return await connecting;
+  } finally {
+    if (pendingConnections.get(name) === connecting) {
+      pendingConnections.delete(name);
+    }
+  }
 };
 
-export const closeConnection = async (): Promise<void> => {
-  if (connection) {
-    await connection.disconnect();
-    connection = null;
+// Ejecutar una llamada enrutada al proyecto indicado (o al activo si no se indica)
+export const runWithProject = async <T>(project: string | undefined, fn: () => Promise<T>): Promise<T> => {
+  const scopedConnection = await getProjectConnection(project);
+  return projectContext.run(scopedConnection, fn);
+};
+
+export const listProjects = (): ProjectSummary[] =>
+  Array.from(profiles.entries()).map(([name, config]) => ({
+    name,
+    url: config.url,
+    database: describeDatabase(config.dbUrl),
+    readOnly: config.readOnly,
+    connected: connections.has(name),
+    active: name === activeProject,
+    isDefault: name === defaultProject
+  }));
+
+export const getActiveProject = (): string | null => activeProject;
+
+export const switchProject = async (project: string): Promise<SupabaseConnection> => {
+  const switched = await getProjectConnection(project);
+  activeProject = project;
+  logger.info(`Proyecto activo: ${project}`);
+  return switched;
+};
+
+export const initConnections = async (projectProfiles: ProjectProfiles): Promise<SupabaseConnection> => {
+  profiles.clear();
+  for (const [name, config] of Object.entries(projectProfiles.projects)) {
+    profiles.set(name, config);
   }
-};
\ No newline at end of file
+  defaultProject = projectProfiles.defaultProject;
+  activeProject = projectProfiles.defaultProject;
+
+  // Solo el proyecto por defecto se conecta al arrancar; el resto al usarse por primera vez
+  return getProjectConnection(projectProfiles.defaultProject);
+};
+
+export const initConnection = async (config: SupabaseConfig): Promise<SupabaseConnection> =>
+  initConnections({
+    defaultProject: 'default',
+    projects: { default: config }
+  });
+
+export const closeConnection = async (): Promise<void> => {
+  connectionGeneration++;
+  pendingConnections.clear();
+  const open = Array.from(connections.values());
+  connections.clear();
+  await Promise.all(open.map(conn => conn.disconnect()));
+};
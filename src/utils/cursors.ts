@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+import { FieldDef, PoolClient } from 'pg';
+import { QueryResultsConfig } from '../types/supabase.js';
+import { ResultFormat } from './result-format.js';
+import { logger } from './logger.js';
+
+interface OpenCursor {
+  id: string;
+  name: string;
+  client: PoolClient;
+  fields: FieldDef[];
+  // Filas ya leídas del servidor que aún no se han devuelto
+  buffered: Record<string, unknown>[];
+  exhausted: boolean;
+  // Fuera del modo de solo lectura la consulta puede tener efectos (setval, funciones que escriben)
+  readOnly: boolean;
+  format: ResultFormat;
+  rowsReturned: number;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+export interface CursorPage {
+  rows: Record<string, unknown>[];
+  fields: FieldDef[];
+  format: ResultFormat;
+  offset: number;
+  hasMore: boolean;
+}
+
+// Cursores de servidor que sobreviven entre llamadas: cada uno retiene un cliente del pool
+// con su transacción abierta hasta que se agota, se cierra o caduca; al cerrarse sin error se confirma
+// la transacción si no era de solo lectura
+export class CursorManager {
+  private cursors = new Map<string, OpenCursor>();
+
+  constructor(
+    private acquire: () => Promise<PoolClient>,
+    private release: (client: PoolClient, error?: Error) => Promise<void>,
+    private config: QueryResultsConfig
+  ) {}
+
+  async open(sql: string, params: unknown[] | undefined, options: { readOnly: boolean; format: ResultFormat }): Promise<string> {
+    if (this.cursors.size >= this.config.maxOpenCursors) {
+      throw new Error(`Hay ${this.cursors.size} cursores abiertos (máximo ${this.config.maxOpenCursors}); termina de leerlos o ciérralos con close_query_cursor`);
+    }
+
+    const id = randomUUID();
+    const name = `mcp_cursor_${id.replace(/-/g, '')}`;
+    const client = await this.acquire();
+
+    try {
+      await client.query(options.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+      await client.query(`DECLARE ${name} NO SCROLL CURSOR FOR ${sql}`, params);
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      await this.release(client);
+      throw error;
+    }
+
+    this.cursors.set(id, {
+      id,
+      name,
+      client,
+      fields: [],
+      buffered: [],
+      exhausted: false,
+      readOnly: options.readOnly,
+      format: options.format,
+      rowsReturned: 0,
+      expiresAt: 0,
+      timer: this.scheduleExpiry(id)
+    });
+    this.touch(id);
+
+    return id;
+  }
+
+  has(id: string): boolean {
+    return this.cursors.has(id);
+  }
+
+  // Leer la siguiente página; se lee una fila de más para saber si quedan resultados
+  async next(id: string, limit: number): Promise<CursorPage> {
+    const cursor = this.cursors.get(id);
+    if (!cursor) {
+      throw new Error('Cursor desconocido o caducado; vuelve a ejecutar la consulta');
+    }
+
+    const needed = limit + 1 - cursor.buffered.length;
+    if (needed > 0 && !cursor.exhausted) {
+      try {
+        const result = await cursor.client.query(`FETCH FORWARD ${needed} FROM ${cursor.name}`);
+        if (cursor.fields.length === 0) {
+          cursor.fields = result.fields;
+        }
+        cursor.buffered.push(...result.rows);
+        cursor.exhausted = result.rows.length < needed;
+      } catch (error) {
+        await this.close(id, error as Error);
+        throw error;
+      }
+    }
+
+    const rows = cursor.buffered.splice(0, limit);
+    const offset = cursor.rowsReturned;
+    cursor.rowsReturned += rows.length;
+    const hasMore = cursor.buffered.length > 0 || !cursor.exhausted;
+
+    this.touch(id);
+
+    return { rows, fields: cursor.fields, format: cursor.format, offset, hasMore };
+  }
+
+  // Devolver al buffer las filas que no cupieron en la respuesta
+  giveBack(id: string, rows: Record<string, unknown>[]): void {
+    const cursor = this.cursors.get(id);
+    if (!cursor || rows.length === 0) {
+      return;
+    }
+    cursor.buffered.unshift(...rows);
+    cursor.rowsReturned -= rows.length;
+  }
+
+  expiresAt(id: string): string | null {
+    const cursor = this.cursors.get(id);
+    return cursor ? new Date(cursor.expiresAt).toISOString() : null;
+  }
+
+  async close(id: string, error?: Error): Promise<boolean> {
+    const cursor = this.cursors.get(id);
+    if (!cursor) {
+      return false;
+    }
+
+    this.cursors.delete(id);
+    clearTimeout(cursor.timer);
+
+    if (error || cursor.readOnly) {
+      await cursor.client.query('ROLLBACK').catch(() => undefined);
+      await this.release(cursor.client, error);
+      return true;
+    }
+
+    try {
+      await cursor.client.query(`CLOSE ${cursor.name}`);
+      await cursor.client.query('COMMIT');
+    } catch (commitError) {
+      await cursor.client.query('ROLLBACK').catch(() => undefined);
+      await this.release(cursor.client, commitError as Error);
+      throw commitError;
+    }
+    await this.release(cursor.client);
+    return true;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.cursors.keys()).map(id =>
+      this.close(id).catch(error => logger.error(`Error cerrando el cursor ${id}`, error))));
+  }
+
+  get openCount(): number {
+    return this.cursors.size;
+  }
+
+  private touch(id: string): void {
+    const cursor = this.cursors.get(id);
+    if (!cursor) {
+      return;
+    }
+    clearTimeout(cursor.timer);
+    cursor.expiresAt = Date.now() + this.config.cursorTtlMs;
+    cursor.timer = this.scheduleExpiry(id);
+  }
+
+  private scheduleExpiry(id: string): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      logger.info(`Cursor ${id} caducado por inactividad`);
+      this.close(id).catch(error => logger.error('Error cerrando cursor caducado', error));
+    }, this.config.cursorTtlMs);
+    timer.unref();
+    return timer;
+  }
+}
@@ -0,0 +1,161 @@
+import { sanitizeSQLIdentifier, sanitizePostgresType, sanitizeSQLExpression } from './validation.js';
+import { AlterTableOperation, ColumnDefinitionArgs, CreateTableArgs, ForeignKeyConstraintArgs } from '../types/mcp.js';
+import { ForeignKeyAction } from '../types/supabase.js';
+
+const columnList = (columns: string[]): string =>
+  columns.map(col => sanitizeSQLIdentifier(col)).join(', ');
+
+const constraintPrefix = (constraintName?: string): string =>
+  constraintName ? `CONSTRAINT ${sanitizeSQLIdentifier(constraintName)} ` : '';
+
+const referentialActions = (onDelete?: ForeignKeyAction, onUpdate?: ForeignKeyAction): string =>
+  `${onDelete ? ` ON DELETE ${onDelete}` : ''}${onUpdate ? ` ON UPDATE ${onUpdate}` : ''}`;
+
+// Definición de columna para CREATE TABLE / ADD COLUMN
+export const buildColumnDefinition = (col: ColumnDefinitionArgs, schema: string): string => {
+  const colName = sanitizeSQLIdentifier(col.name);
+  let definition = `${colName} ${sanitizePostgresType(col.type)}`;
+
+  if (!col.nullable) {
+    definition += ' NOT NULL';
+  }
+
+  if (col.defaultValue) {
+    definition += ` DEFAULT ${sanitizeSQLExpression(col.defaultValue)}`;
+  }
+
+  if (col.isUnique) {
+    definition += ' UNIQUE';
+  }
+
+  if (col.isPrimaryKey) {
+    definition += ' PRIMARY KEY';
+  }
+
+  if (col.references) {
+    const referencedSchema = sanitizeSQLIdentifier(col.references.schema || schema);
+    const referencedTable = sanitizeSQLIdentifier(col.references.table);
+    const referencedColumn = sanitizeSQLIdentifier(col.references.column);
+    definition += ` REFERENCES ${referencedSchema}.${referencedTable} (${referencedColumn})`;
+    definition += referentialActions(col.references.onDelete, col.references.onUpdate);
+  }
+
+  return definition;
+};
+
+export const buildForeignKeyClause = (fk: ForeignKeyConstraintArgs, schema: string): string => {
+  if (fk.columns.length !== fk.referencedColumns.length) {
+    throw new Error('La clave foránea debe tener el mismo número de columnas locales y referenciadas');
+  }
+
+  const referencedSchema = sanitizeSQLIdentifier(fk.referencedSchema || schema);
+  const referencedTable = sanitizeSQLIdentifier(fk.referencedTable);
+
+  return `${constraintPrefix(fk.constraintName)}FOREIGN KEY (${columnList(fk.columns)}) REFERENCES ${referencedSchema}.${referencedTable} (${columnList(fk.referencedColumns)})`
+    + referentialActions(fk.onDelete, fk.onUpdate);
+};
+
+// Restricciones a nivel de tabla para CREATE TABLE
+const buildTableConstraints = (args: CreateTableArgs, schema: string): string[] => {
+  const constraints: string[] = [];
+
+  if (args.primaryKey) {
+    constraints.push(`${constraintPrefix(args.primaryKey.constraintName)}PRIMARY KEY (${columnList(args.primaryKey.columns)})`);
+  }
+
+  for (const unique of args.uniqueConstraints) {
+    constraints.push(`${constraintPrefix(unique.constraintName)}UNIQUE (${columnList(unique.columns)})`);
+  }
+
+  for (const check of args.checkConstraints) {
+    constraints.push(`${constraintPrefix(check.constraintName)}CHECK (${sanitizeSQLExpression(check.expression)})`);
+  }
+
+  for (const fk of args.foreignKeys) {
+    constraints.push(buildForeignKeyClause(fk, schema));
+  }
+
+  return constraints;
+};
+
+const TIMESTAMP_COLUMNS: ColumnDefinitionArgs[] = [
+  { name: 'created_at', type: 'timestamptz', nullable: false, defaultValue: 'now()', isUnique: false, isPrimaryKey: false },
+  { name: 'updated_at', type: 'timestamptz', nullable: false, defaultValue: 'now()', isUnique: false, isPrimaryKey: false }
+];
+
+export const buildCreateTableStatement = (args: CreateTableArgs, schema: string, table: string): string => {
+  const inlinePrimaryKeys = args.columns.filter(col => col.isPrimaryKey);
+  if (args.primaryKey && inlinePrimaryKeys.length > 0) {
+    throw new Error('Indica la clave primaria con isPrimaryKey o con primaryKey, no con ambos');
+  }
+  if (inlinePrimaryKeys.length > 1) {
+    throw new Error('Para una clave primaria compuesta usa primaryKey a nivel de tabla');
+  }
+
+  // Las columnas de auditoría solo se añaden si no vienen ya definidas
+  const declared = new Set(args.columns.map(col => col.name));
+  const columns = args.timestamps
+    ? [...args.columns, ...TIMESTAMP_COLUMNS.filter(col => !declared.has(col.name))]
+    : args.columns;
+
+  const definitions = [
+    ...columns.map(col => buildColumnDefinition(col, schema)),
+    ...buildTableConstraints(args, schema)
+  ];
+
+  let statement = `CREATE TABLE IF NOT EXISTS ${schema}.${table} (\n  ${definitions.join(',\n  ')}\n)`;
+
+  if (args.partitionBy) {
+    statement += ` PARTITION BY ${args.partitionBy.strategy} (${columnList(args.partitionBy.columns)})`;
+  }
+
+  return `${statement};`;
+};
+
+// Función propia del MCP por esquema, para no pisar una set_updated_at() del usuario, y trigger por tabla
+export const buildUpdatedAtTrigger = (schema: string, table: string): string[] => [
+  `CREATE OR REPLACE FUNCTION ${schema}.mcp_set_updated_at() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;`,
+  `CREATE TRIGGER ${table}_set_updated_at BEFORE UPDATE ON ${schema}.${table} FOR EACH ROW EXECUTE FUNCTION ${schema}.mcp_set_updated_at();`
+];
+
+// Traducir una operación de alter_table a su sentencia ALTER TABLE
+export const buildAlterTableStatement = (schema: string, table: string, operation: AlterTableOperation): string => {
+  const target = `ALTER TABLE ${schema}.${table}`;
+
+  switch (operation.action) {
+    case 'add_column':
+      return `${target} ADD COLUMN ${operation.ifNotExists ? 'IF NOT EXISTS ' : ''}${buildColumnDefinition(operation.column, schema)};`;
+    case 'drop_column':
+      return `${target} DROP COLUMN ${operation.ifExists ? 'IF EXISTS ' : ''}${sanitizeSQLIdentifier(operation.column)}${operation.cascade ? ' CASCADE' : ''};`;
+    case 'rename_column':
+      return `${target} RENAME COLUMN ${sanitizeSQLIdentifier(operation.column)} TO ${sanitizeSQLIdentifier(operation.newName)};`;
+    case 'alter_column_type': {
+      const column = sanitizeSQLIdentifier(operation.column);
+      const using = operation.using ? ` USING ${sanitizeSQLExpression(operation.using)}` : '';
+      return `${target} ALTER COLUMN ${column} TYPE ${sanitizePostgresType(operation.type)}${using};`;
+    }
+    case 'set_default':
+      return `${target} ALTER COLUMN ${sanitizeSQLIdentifier(operation.column)} SET DEFAULT ${sanitizeSQLExpression(operation.defaultValue)};`;
+    case 'drop_default':
+      return `${target} ALTER COLUMN ${sanitizeSQLIdentifier(operation.column)} DROP DEFAULT;`;
+    case 'set_not_null':
+      return `${target} ALTER COLUMN ${sanitizeSQLIdentifier(operation.column)} SET NOT NULL;`;
+    case 'drop_not_null':
+      return `${target} ALTER COLUMN ${sanitizeSQLIdentifier(operation.column)} DROP NOT NULL;`;
+    case 'add_primary_key':
+      return `${target} ADD ${constraintPrefix(operation.constraintName)}PRIMARY KEY (${columnList(operation.columns)});`;
+    case 'add_foreign_key':
+      return `${target} ADD ${buildForeignKeyClause(operation, schema)};`;
+    case 'add_unique':
+      return `${target} ADD ${constraintPrefix(operation.constraintName)}UNIQUE (${columnList(operation.columns)});`;
+    case 'add_check':
+      return `${target} ADD ${constraintPrefix(operation.constraintName)}CHECK (${sanitizeSQLExpression(operation.expression)});`;
+    case 'drop_constraint':
+      return `${target} DROP CONSTRAINT ${operation.ifExists ? 'IF EXISTS ' : ''}${sanitizeSQLIdentifier(operation.constraintName)}${operation.cascade ? ' CASCADE' : ''};`;
+  }
+};
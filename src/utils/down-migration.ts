@@ -0,0 +1,255 @@
+import { splitQualifiedName, splitSQLStatements, splitTopLevel, sqlPattern, stripSQLComments } from './sql.js';
+import { isTransactionalSQL, NO_TRANSACTION_DIRECTIVE } from './migration-files.js';
+
+export interface IrreversibleStatement {
+  statement: string;
+  reason: string;
+}
+
+export interface GeneratedDownMigration {
+  // null si alguna sentencia no se puede invertir: mejor sin rollback que con uno falso
+  down: string | null;
+  reversible: boolean;
+  irreversible: IrreversibleStatement[];
+  warnings: string[];
+}
+
+// commented: las sentencias se dejan comentadas en el rollback para que el usuario decida
+type Inverse = { down: string[]; warning?: string; commented?: boolean } | { irreversible: string };
+
+const CREATE_TABLE = sqlPattern('^CREATE\\s+(?:(?:GLOBAL|LOCAL)\\s+)?(?:(?:TEMP|TEMPORARY|UNLOGGED)\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(QNAME)');
+const CREATE_INDEX = sqlPattern('^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(IDENT)\\s+ON\\s+(?:ONLY\\s+)?(QNAME)');
+const CREATE_ANONYMOUS_INDEX = sqlPattern('^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(?:CONCURRENTLY\\s+)?ON\\b');
+const CREATE_VIEW = sqlPattern('^CREATE\\s+(OR\\s+REPLACE\\s+)?(?:(?:TEMP|TEMPORARY|RECURSIVE)\\s+)*(MATERIALIZED\\s+)?VIEW\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(QNAME)');
+const CREATE_ROUTINE = sqlPattern('^CREATE\\s+(OR\\s+REPLACE\\s+)?(FUNCTION|PROCEDURE)\\s+(QNAME)\\s*\\(');
+const CREATE_TRIGGER = sqlPattern('^CREATE\\s+(OR\\s+REPLACE\\s+)?(?:CONSTRAINT\\s+)?TRIGGER\\s+(IDENT)\\s+[\\s\\S]*?\\bON\\s+(QNAME)');
+const CREATE_POLICY = sqlPattern('^CREATE\\s+POLICY\\s+(IDENT)\\s+ON\\s+(QNAME)');
+const CREATE_OBJECT = sqlPattern('^CREATE\\s+(SCHEMA|SEQUENCE|TYPE|DOMAIN|EXTENSION)\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(QNAME)');
+const ALTER_TABLE = sqlPattern('^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(QNAME)\\s+([\\s\\S]+)$');
+const GRANT_ON = /^GRANT\s+([\s\S]+?)\s+ON\s+([\s\S]+?)\s+TO\s+([\s\S]+?)(?:\s+WITH\s+GRANT\s+OPTION)?$/i;
+const REVOKE_ON = /^REVOKE\s+(?:GRANT\s+OPTION\s+FOR\s+)?([\s\S]+?)\s+ON\s+([\s\S]+?)\s+FROM\s+([\s\S]+?)(?:\s+(?:CASCADE|RESTRICT))?$/i;
+
+const IF_NOT_EXISTS = /\bIF\s+NOT\s+EXISTS\b/i;
+
+// Con IF NOT EXISTS el objeto podía existir antes de la migración y un DROP lo borraría igualmente
+const conditionalCreate = (object: string, down: string): Inverse => ({
+  down: [down],
+  commented: true,
+  warning: `${object} se crea con IF NOT EXISTS y podía existir antes: el DROP queda comentado en el rollback; descoméntalo si la migración lo crea`
+});
+
+// Contenido del paréntesis que empieza en `start`
+const balancedParens = (text: string, start: number): string | null => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(start + 1, i);
+      }
+    }
+  }
+  return null;
+};
+
+const invertAlterTableAction = (table: string, action: string): Inverse => {
+  let match: RegExpMatchArray | null;
+
+  if ((match = action.match(sqlPattern('^RENAME\\s+TO\\s+(IDENT)$')))) {
+    const { schema, name } = splitQualifiedName(table);
+    return { down: [`ALTER TABLE ${schema ? `${schema}.` : ''}${match[1]} RENAME TO ${name}`] };
+  }
+  if ((match = action.match(sqlPattern('^RENAME\\s+CONSTRAINT\\s+(IDENT)\\s+TO\\s+(IDENT)$')))) {
+    return { down: [`ALTER TABLE ${table} RENAME CONSTRAINT ${match[2]} TO ${match[1]}`] };
+  }
+  if ((match = action.match(sqlPattern('^RENAME\\s+(?:COLUMN\\s+)?(IDENT)\\s+TO\\s+(IDENT)$')))) {
+    return { down: [`ALTER TABLE ${table} RENAME COLUMN ${match[2]} TO ${match[1]}`] };
+  }
+  if ((match = action.match(sqlPattern('^ADD\\s+CONSTRAINT\\s+(IDENT)')))) {
+    return { down: [`DROP CONSTRAINT IF EXISTS ${match[1]}`] };
+  }
+  if (/^ADD\s+(PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE)\b/i.test(action)) {
+    return { irreversible: 'Restricción sin nombre: usa ADD CONSTRAINT <nombre> para poder borrarla' };
+  }
+  if ((match = action.match(sqlPattern('^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(IDENT)')))) {
+    const drop = `DROP COLUMN IF EXISTS ${match[1]}`;
+    return IF_NOT_EXISTS.test(match[0]) ? conditionalCreate(`La columna ${table}.${match[1]}`, drop) : { down: [drop] };
+  }
+  if ((match = action.match(sqlPattern('^ALTER\\s+(?:COLUMN\\s+)?(IDENT)\\s+SET\\s+NOT\\s+NULL$')))) {
+    return { down: [`ALTER COLUMN ${match[1]} DROP NOT NULL`] };
+  }
+  if ((match = action.match(sqlPattern('^ALTER\\s+(?:COLUMN\\s+)?(IDENT)\\s+DROP\\s+NOT\\s+NULL$')))) {
+    return {
+      down: [`ALTER COLUMN ${match[1]} SET NOT NULL`],
+      warning: `Volver a SET NOT NULL en ${match[1]} falla si mientras tanto se han guardado valores nulos`
+    };
+  }
+  if (/^ALTER\s+(?:COLUMN\s+)?\S+\s+(?:SET\s+DEFAULT|DROP\s+DEFAULT|TYPE|SET\s+DATA\s+TYPE)\b/i.test(action)) {
+    return { irreversible: 'Se desconoce el valor anterior (tipo o default) de la columna' };
+  }
+  if (/^ENABLE\s+ROW\s+LEVEL\s+SECURITY$/i.test(action)) {
+    return { down: ['DISABLE ROW LEVEL SECURITY'] };
+  }
+  if (/^DISABLE\s+ROW\s+LEVEL\s+SECURITY$/i.test(action)) {
+    return { down: ['ENABLE ROW LEVEL SECURITY'] };
+  }
+  if (/^FORCE\s+ROW\s+LEVEL\s+SECURITY$/i.test(action)) {
+    return { down: ['NO FORCE ROW LEVEL SECURITY'] };
+  }
+  if (/^NO\s+FORCE\s+ROW\s+LEVEL\s+SECURITY$/i.test(action)) {
+    return { down: ['FORCE ROW LEVEL SECURITY'] };
+  }
+  if (/^DROP\b/i.test(action)) {
+    return { irreversible: 'Borra una columna o restricción: sus datos y definición no se pueden recuperar' };
+  }
+  return { irreversible: `Acción de ALTER TABLE no soportada: ${action.split(/\s+/).slice(0, 3).join(' ')}` };
+};
+
+const invertAlterTable = (table: string, actionsText: string): Inverse => {
+  const actions = splitTopLevel(actionsText);
+
+  // RENAME va solo y genera su propia sentencia completa
+  if (actions.length === 1 && /^RENAME\b/i.test(actions[0]!)) {
+    return invertAlterTableAction(table, actions[0]!);
+  }
+
+  const inverses: string[] = [];
+  const warnings: string[] = [];
+  let commented = false;
+  for (const action of actions) {
+    const inverse = invertAlterTableAction(table, action);
+    if ('irreversible' in inverse) {
+      return inverse;
+    }
+    inverses.unshift(...inverse.down);
+    commented ||= inverse.commented ?? false;
+    if (inverse.warning) {
+      warnings.push(inverse.warning);
+    }
+  }
+  return {
+    down: [`ALTER TABLE ${table} ${inverses.join(', ')}`],
+    ...(commented ? { commented } : {}),
+    ...(warnings.length > 0 ? { warning: warnings.join('; ') } : {})
+  };
+};
+
+// DROP FUNCTION no admite los DEFAULT de los argumentos
+const routineSignature = (args: string): string =>
+  splitTopLevel(args)
+    .map(arg => arg.replace(/\s*(?:\bDEFAULT\b|=)[\s\S]*$/i, '').trim())
+    .join(', ');
+
+const invertStatement = (statement: string): Inverse => {
+  const sql = stripSQLComments(statement).trim().replace(/;$/, '');
+  let match: RegExpMatchArray | null;
+
+  if ((match = sql.match(CREATE_TABLE))) {
+    const drop = `DROP TABLE IF EXISTS ${match[1]}`;
+    return IF_NOT_EXISTS.test(match[0]) ? conditionalCreate(`La tabla ${match[1]}`, drop) : { down: [drop] };
+  }
+  if ((match = sql.match(CREATE_INDEX))) {
+    const { schema } = splitQualifiedName(match[3]!);
+    const index = `${schema ? `${schema}.` : ''}${match[2]}`;
+    const drop = `DROP INDEX ${match[1] ? 'CONCURRENTLY ' : ''}IF EXISTS ${index}`;
+    return IF_NOT_EXISTS.test(match[0]) ? conditionalCreate(`El índice ${index}`, drop) : { down: [drop] };
+  }
+  if (CREATE_ANONYMOUS_INDEX.test(sql)) {
+    return { irreversible: 'Índice sin nombre: indica un nombre para poder borrarlo' };
+  }
+  if ((match = sql.match(CREATE_VIEW))) {
+    if (IF_NOT_EXISTS.test(match[0])) {
+      return conditionalCreate(`La vista ${match[3]}`, `DROP ${match[2] ? 'MATERIALIZED ' : ''}VIEW IF EXISTS ${match[3]}`);
+    }
+    return {
+      down: [`DROP ${match[2] ? 'MATERIALIZED ' : ''}VIEW IF EXISTS ${match[3]}`],
+      ...(match[1] ? { warning: `${match[3]}: se asume que la vista es nueva; si reemplazaba otra, la definición anterior no se restaura` } : {})
+    };
+  }
+  if ((match = sql.match(CREATE_ROUTINE))) {
+    const args = balancedParens(sql, match[0].length - 1);
+    if (args === null) {
+      return { irreversible: 'No se pudo leer la lista de argumentos' };
+    }
+    return {
+      down: [`DROP ${match[2]!.toUpperCase()} IF EXISTS ${match[3]}(${routineSignature(args)})`],
+      ...(match[1] ? { warning: `${match[3]}: se asume que la función es nueva; si reemplazaba otra, la definición anterior no se restaura` } : {})
+    };
+  }
+  if ((match = sql.match(CREATE_TRIGGER))) {
+    return { down: [`DROP TRIGGER IF EXISTS ${match[2]} ON ${match[3]}`] };
+  }
+  if ((match = sql.match(CREATE_POLICY))) {
+    return { down: [`DROP POLICY IF EXISTS ${match[1]} ON ${match[2]}`] };
+  }
+  if ((match = sql.match(CREATE_OBJECT))) {
+    const drop = `DROP ${match[1]!.toUpperCase()} IF EXISTS ${match[2]}`;
+    return IF_NOT_EXISTS.test(match[0]) ? conditionalCreate(`${match[1]!.toUpperCase()} ${match[2]}`, drop) : { down: [drop] };
+  }
+  if ((match = sql.match(ALTER_TABLE))) {
+    return invertAlterTable(match[1]!, match[2]!);
+  }
+  if ((match = sql.match(GRANT_ON))) {
+    return { down: [`REVOKE ${match[1]} ON ${match[2]} FROM ${match[3]}`] };
+  }
+  if ((match = sql.match(REVOKE_ON))) {
+    return {
+      down: [`GRANT ${match[1]} ON ${match[2]} TO ${match[3]}`],
+      warning: `Se asume que ${match[3]} tenía ${match[1]} antes del REVOKE`
+    };
+  }
+  if (/^COMMENT\s+ON\b/i.test(sql)) {
+    return { down: [], warning: 'El comentario anterior no se restaura' };
+  }
+  if (/^(SET|RESET)\b/i.test(sql)) {
+    return { down: [] };
+  }
+
+  const command = sql.split(/\s+/).slice(0, 2).join(' ').toUpperCase();
+  if (/^DROP\b/i.test(sql)) {
+    return { irreversible: `${command} borra el objeto y su contenido` };
+  }
+  if (/^(INSERT|UPDATE|DELETE|TRUNCATE|MERGE|COPY)\b/i.test(sql)) {
+    return { irreversible: `${command.split(' ')[0]} modifica datos; los valores anteriores no se conocen` };
+  }
+  return { irreversible: `No se sabe invertir ${command}` };
+};
+
+// Derivar el SQL de reversión de una migración invirtiendo sus sentencias en orden inverso
+export const generateDownMigration = (up: string): GeneratedDownMigration => {
+  const down: string[] = [];
+  const irreversible: IrreversibleStatement[] = [];
+  const warnings: string[] = [];
+
+  for (const statement of splitSQLStatements(up)) {
+    const inverse = invertStatement(statement);
+    if ('irreversible' in inverse) {
+      irreversible.push({ statement: stripSQLComments(statement).slice(0, 200), reason: inverse.irreversible });
+      continue;
+    }
+    down.unshift(...inverse.down.map(sql => `${inverse.commented ? '-- ' : ''}${sql};`));
+    if (inverse.warning) {
+      warnings.push(inverse.warning);
+    }
+  }
+
+  const reversible = irreversible.length === 0;
+  const script = isTransactionalSQL(up) ? down.join('\n') : [NO_TRANSACTION_DIRECTIVE, ...down].join('\n');
+
+  return {
+    down: reversible && down.length > 0 ? script : null,
+    reversible,
+    irreversible,
+    warnings
+  };
+};
@@ -0,0 +1,353 @@
+import { ObjectGrant } from '../types/supabase.js';
+import { Queryable, introspectGrants } from './introspection.js';
+import { qualifiedName, quoteIdentifier } from './sql.js';
+
+export type GrantObjectType = ObjectGrant['objectType'];
+
+export type ColumnPrivilege = 'SELECT' | 'INSERT' | 'UPDATE' | 'REFERENCES';
+
+export interface ColumnGrant {
+  schema: string;
+  table: string;
+  column: string;
+  grantee: string;
+  privileges: string[];
+  grantable: boolean;
+}
+
+export interface DefaultPrivilege {
+  // Rol creador de los objetos a los que se aplican
+  owner: string;
+  // null: privilegios por defecto globales, no de un esquema
+  schema: string | null;
+  objectType: 'table' | 'sequence' | 'function' | 'type' | 'schema';
+  grantee: string;
+  privileges: string[];
+  grantable: boolean;
+}
+
+export interface EffectiveTableAccess {
+  name: string;
+  kind: 'table' | 'view' | 'materialized_view' | 'foreign_table';
+  privileges: string[];
+  // Solo para los privilegios concedidos en algunas columnas y no en toda la tabla
+  columns?: Partial<Record<'SELECT' | 'INSERT' | 'UPDATE', { granted: string[]; hidden: string[] }>>;
+}
+
+export interface EffectiveRoleAccess {
+  role: string;
+  // Sin USAGE sobre el esquema el rol no llega a ningún objeto, tenga los privilegios que tenga
+  schemaUsage: boolean;
+  tables: EffectiveTableAccess[];
+  sequences: { name: string; privileges: string[] }[];
+  functions: string[];
+}
+
+export interface PrivilegeTarget {
+  objectType: GrantObjectType;
+  schema: string;
+  name?: string;
+  arguments?: string;
+  columns?: string[];
+  all: boolean;
+}
+
+// Roles con los que Supabase accede a la base de datos desde la API
+export const SUPABASE_ROLES = ['anon', 'authenticated', 'service_role'];
+
+export const OBJECT_PRIVILEGES: Record<GrantObjectType, string[]> = {
+  table: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER'],
+  sequence: ['USAGE', 'SELECT', 'UPDATE'],
+  function: ['EXECUTE'],
+  schema: ['USAGE', 'CREATE']
+};
+
+export const COLUMN_PRIVILEGES: ColumnPrivilege[] = ['SELECT', 'INSERT', 'UPDATE', 'REFERENCES'];
+
+const DEFAULT_ACL_TYPES: Record<string, DefaultPrivilege['objectType']> = {
+  r: 'table',
+  S: 'sequence',
+  f: 'function',
+  T: 'type',
+  n: 'schema'
+};
+
+const RELATION_KINDS: Record<string, EffectiveTableAccess['kind']> = {
+  r: 'table',
+  p: 'table',
+  v: 'view',
+  m: 'materialized_view',
+  f: 'foreign_table'
+};
+
+// Normalizar y comprobar que los privilegios existen para el tipo de objeto (o para columnas)
+export const normalizePrivileges = (objectType: GrantObjectType, privileges: string[], columns: boolean): string[] => {
+  const allowed: string[] = columns ? COLUMN_PRIVILEGES : OBJECT_PRIVILEGES[objectType];
+  const normalized = [...new Set(privileges.map(privilege => privilege.trim().toUpperCase().replace(/\s+PRIVILEGES$/, '')))];
+  if (normalized.includes('ALL')) {
+    return ['ALL'];
+  }
+  const invalid = normalized.filter(privilege => !allowed.includes(privilege));
+  if (invalid.length > 0) {
+    throw new Error(`Privilegios no válidos para ${columns ? 'columnas' : objectType}: ${invalid.join(', ')}; usa ${allowed.join(', ')} o ALL`);
+  }
+  return normalized;
+};
+
+export const granteeSQL = (role: string): string => (role.toUpperCase() === 'PUBLIC' ? 'PUBLIC' : quoteIdentifier(role));
+
+export const privilegeTargetSQL = (target: PrivilegeTarget): string => {
+  if (target.objectType === 'schema') {
+    return `SCHEMA ${quoteIdentifier(target.schema)}`;
+  }
+  const keyword = target.objectType === 'sequence' ? 'SEQUENCE' : target.objectType === 'function' ? 'FUNCTION' : 'TABLE';
+  if (target.all) {
+    return `ALL ${keyword === 'TABLE' ? 'TABLES' : `${keyword}S`} IN SCHEMA ${quoteIdentifier(target.schema)}`;
+  }
+  const name = qualifiedName(target.schema, target.name!);
+  // Sin argumentos PostgreSQL resuelve la función si no está sobrecargada
+  return target.objectType === 'function' && target.arguments !== undefined ? `${keyword} ${name}(${target.arguments})` : `${keyword} ${name}`;
+};
+
+const privilegeListSQL = (privileges: string[], columns?: string[]): string => {
+  if (!columns || columns.length === 0) {
+    return privileges.join(', ');
+  }
+  const columnList = `(${columns.map(quoteIdentifier).join(', ')})`;
+  const expanded: string[] = privileges[0] === 'ALL' ? COLUMN_PRIVILEGES : privileges;
+  return expanded.map(privilege => `${privilege} ${columnList}`).join(', ');
+};
+
+export const grantStatementSQL = (privileges: string[], target: PrivilegeTarget, roles: string[], grantOption: boolean): string =>
+  `GRANT ${privilegeListSQL(privileges, target.columns)} ON ${privilegeTargetSQL(target)} TO ${roles.map(granteeSQL).join(', ')}` +
+  `${grantOption ? ' WITH GRANT OPTION' : ''};`;
+
+export const revokeStatementSQL = (
+  privileges: string[],
+  target: PrivilegeTarget,
+  roles: string[],
+  grantOptionOnly: boolean,
+  cascade: boolean
+): string =>
+  `REVOKE ${grantOptionOnly ? 'GRANT OPTION FOR ' : ''}${privilegeListSQL(privileges, target.columns)} ON ${privilegeTargetSQL(target)} ` +
+  `FROM ${roles.map(granteeSQL).join(', ')}${cascade ? ' CASCADE' : ''};`;
+
+// Privilegios que se aplicarán a los objetos que se creen en el esquema a partir de ahora
+export const defaultPrivilegesSQL = (
+  action: 'GRANT' | 'REVOKE',
+  privileges: string[],
+  objectType: Exclude<GrantObjectType, 'schema'>,
+  schema: string,
+  roles: string[],
+  forRole: string | undefined,
+  options: { grantOption: boolean; cascade?: boolean }
+): string => {
+  const objects = objectType === 'table' ? 'TABLES' : objectType === 'sequence' ? 'SEQUENCES' : 'FUNCTIONS';
+  const prefix = `ALTER DEFAULT PRIVILEGES${forRole ? ` FOR ROLE ${quoteIdentifier(forRole)}` : ''} IN SCHEMA ${quoteIdentifier(schema)}`;
+  const grantees = roles.map(granteeSQL).join(', ');
+  return action === 'GRANT'
+    ? `${prefix} GRANT ${privileges.join(', ')} ON ${objects} TO ${grantees}${options.grantOption ? ' WITH GRANT OPTION' : ''};`
+    : `${prefix} REVOKE ${options.grantOption ? 'GRANT OPTION FOR ' : ''}${privileges.join(', ')} ON ${objects} FROM ${grantees}${options.cascade ? ' CASCADE' : ''};`;
+};
+
+// Privilegios concedidos columna a columna (no aparecen en el ACL de la tabla)
+export const introspectColumnGrants = async (client: Queryable, schema: string, table?: string): Promise<ColumnGrant[]> => {
+  const result = await client.query(
+    `SELECT c.relname AS table, a.attname AS column,
+            CASE WHEN x.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(x.grantee) END AS grantee,
+            array_agg(x.privilege_type ORDER BY x.privilege_type) AS privileges,
+            x.is_grantable AS grantable
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     CROSS JOIN LATERAL aclexplode(a.attacl) x
+     WHERE n.nspname = $1 AND ($2::text IS NULL OR c.relname = $2)
+       AND a.attnum > 0 AND NOT a.attisdropped
+     GROUP BY c.relname, a.attnum, a.attname, x.grantee, x.is_grantable
+     ORDER BY c.relname, a.attnum, 3;`,
+    [schema, table ?? null]
+  );
+  return result.rows.map(row => ({
+    schema,
+    table: row.table,
+    column: row.column,
+    grantee: row.grantee,
+    privileges: row.privileges,
+    grantable: row.grantable
+  }));
+};
+
+export const introspectDefaultPrivileges = async (client: Queryable, schema: string): Promise<DefaultPrivilege[]> => {
+  const result = await client.query(
+    `SELECT pg_get_userbyid(d.defaclrole) AS owner, n.nspname AS schema, d.defaclobjtype::text AS object_type,
+            CASE WHEN x.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(x.grantee) END AS grantee,
+            array_agg(x.privilege_type ORDER BY x.privilege_type) AS privileges,
+            x.is_grantable AS grantable
+     FROM pg_default_acl d
+     LEFT JOIN pg_namespace n ON n.oid = d.defaclnamespace
+     CROSS JOIN LATERAL aclexplode(d.defaclacl) x
+     WHERE d.defaclnamespace = 0 OR n.nspname = $1
+     GROUP BY 1, 2, 3, 4, x.is_grantable
+     ORDER BY 1, 2 NULLS FIRST, 3, 4;`,
+    [schema]
+  );
+  return result.rows.map(row => ({
+    owner: row.owner,
+    schema: row.schema,
+    objectType: DEFAULT_ACL_TYPES[row.object_type] ?? row.object_type,
+    grantee: row.grantee,
+    privileges: row.privileges,
+    grantable: row.grantable
+  }));
+};
+
+// Privilegios explícitos de un esquema, opcionalmente de un solo objeto
+export const introspectObjectGrants = async (client: Queryable, schema: string, name?: string): Promise<ObjectGrant[]> => {
+  const grants = await introspectGrants(client, schema);
+  return name ? grants.filter(grant => grant.objectType !== 'schema' && grant.name === name) : grants;
+};
+
+export const missingRoles = async (client: Queryable, roles: string[]): Promise<string[]> => {
+  const named = roles.filter(role => role.toUpperCase() !== 'PUBLIC');
+  const result = await client.query('SELECT rolname FROM pg_roles WHERE rolname = ANY($1);', [named]);
+  const existing = new Set(result.rows.map(row => row.rolname));
+  return named.filter(role => !existing.has(role));
+};
+
+interface ColumnAccessRow {
+  name: string;
+  SELECT: boolean;
+  INSERT: boolean;
+  UPDATE: boolean;
+}
+
+interface RelationAccessRow {
+  role: string;
+  name: string;
+  kind: string;
+  privileges: string[];
+  columns: ColumnAccessRow[];
+}
+
+// Lo que cada rol puede hacer de verdad, contando PUBLIC, la pertenencia a otros roles y las columnas
+export const effectivePrivileges = async (
+  client: Queryable,
+  schema: string,
+  roles: string[],
+  table?: string
+): Promise<EffectiveRoleAccess[]> => {
+  const relations = await client.query<RelationAccessRow>(
+    `SELECT r.rolname AS role, c.relname AS name, c.relkind::text AS kind,
+            ARRAY(
+              SELECT p FROM unnest(ARRAY['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER']) p
+              WHERE has_table_privilege(r.oid, c.oid, p)
+            ) AS privileges,
+            COALESCE((
+              SELECT json_agg(json_build_object(
+                'name', a.attname,
+                'SELECT', has_column_privilege(r.oid, c.oid, a.attnum, 'SELECT'),
+                'INSERT', has_column_privilege(r.oid, c.oid, a.attnum, 'INSERT'),
+                'UPDATE', has_column_privilege(r.oid, c.oid, a.attnum, 'UPDATE')
+              ) ORDER BY a.attnum)
+              FROM pg_attribute a
+              WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+            ), '[]') AS columns
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     CROSS JOIN pg_roles r
+     WHERE n.nspname = $1 AND r.rolname = ANY($2)
+       AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+       AND ($3::text IS NULL OR c.relname = $3)
+       AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = c.oid AND d.deptype = 'e')
+     ORDER BY r.rolname, c.relname;`,
+    [schema, roles, table ?? null]
+  );
+
+  const access = new Map<string, EffectiveRoleAccess>();
+  const schemaUsage = await client.query(
+    `SELECT rolname AS role, has_schema_privilege(oid, $1, 'USAGE') AS usage FROM pg_roles WHERE rolname = ANY($2);`,
+    [schema, roles]
+  );
+  for (const row of schemaUsage.rows) {
+    access.set(row.role, { role: row.role, schemaUsage: row.usage, tables: [], sequences: [], functions: [] });
+  }
+
+  for (const row of relations.rows) {
+    const entry: EffectiveTableAccess = { name: row.name, kind: RELATION_KINDS[row.kind] ?? 'table', privileges: row.privileges };
+    const { columns } = row;
+    for (const privilege of ['SELECT', 'INSERT', 'UPDATE'] as const) {
+      if (entry.privileges.includes(privilege)) {
+        continue;
+      }
+      const granted = columns.filter(column => column[privilege]).map(column => column.name);
+      if (granted.length > 0) {
+        entry.columns = {
+          ...entry.columns,
+          [privilege]: { granted, hidden: columns.filter(column => !column[privilege]).map(column => column.name) }
+        };
+      }
+    }
+    access.get(row.role)?.tables.push(entry);
+  }
+
+  // Secuencias y funciones solo en el informe del esquema completo
+  if (!table) {
+    const sequences = await client.query(
+      `SELECT r.rolname AS role, c.relname AS name,
+              ARRAY(SELECT p FROM unnest(ARRAY['USAGE', 'SELECT', 'UPDATE']) p WHERE has_sequence_privilege(r.oid, c.oid, p)) AS privileges
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       CROSS JOIN pg_roles r
+       WHERE n.nspname = $1 AND r.rolname = ANY($2) AND c.relkind = 'S'
+         AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = c.oid AND d.deptype = 'e')
+       ORDER BY r.rolname, c.relname;`,
+      [schema, roles]
+    );
+    for (const row of sequences.rows) {
+      if (row.privileges.length > 0) {
+        access.get(row.role)?.sequences.push({ name: row.name, privileges: row.privileges });
+      }
+    }
+
+    const functions = await client.query(
+      `SELECT r.rolname AS role, p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS signature
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       CROSS JOIN pg_roles r
+       WHERE n.nspname = $1 AND r.rolname = ANY($2) AND p.prokind IN ('f', 'p')
+         AND has_function_privilege(r.oid, p.oid, 'EXECUTE')
+         AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+       ORDER BY r.rolname, 2;`,
+      [schema, roles]
+    );
+    for (const row of functions.rows) {
+      access.get(row.role)?.functions.push(row.signature);
+    }
+  }
+
+  return roles.map(role => access.get(role)).filter((entry): entry is EffectiveRoleAccess => entry !== undefined);
+};
+
+// Privilegios concedidos directamente al rol sobre la tabla entera
+export const directTablePrivileges = async (client: Queryable, schema: string, table: string, role: string): Promise<string[]> => {
+  const result = await client.query(
+    `SELECT COALESCE(array_agg(x.privilege_type::text), '{}') AS privileges
+     FROM pg_class c
+     CROSS JOIN LATERAL aclexplode(c.relacl) x
+     WHERE c.oid = to_regclass($1)
+       AND x.grantee = CASE WHEN upper($2) = 'PUBLIC' THEN 0 ELSE (SELECT oid FROM pg_roles WHERE rolname = $2) END;`,
+    [qualifiedName(schema, table), role]
+  );
+  return result.rows[0]?.privileges ?? [];
+};
+
+export const tableColumns = async (client: Queryable, schema: string, table: string): Promise<string[]> => {
+  const result = await client.query(
+    `SELECT a.attname
+     FROM pg_attribute a
+     WHERE a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attnum;`,
+    [qualifiedName(schema, table)]
+  );
+  return result.rows.map(row => row.attname);
+};
@@ -0,0 +1,504 @@
+import { ClientBase } from 'pg';
+import {
+  DatabaseTable,
+  DatabaseColumn,
+  ForeignKey,
+  ForeignKeyAction,
+  UniqueConstraint,
+  CheckConstraint,
+  TableIndex,
+  TableTrigger,
+  RLSPolicy,
+  DatabaseView,
+  DatabaseFunction,
+  DatabaseType,
+  ObjectGrant,
+  SchemaSnapshot
+} from '../types/supabase.js';
+
+// Cualquier cliente de pg (del pool o independiente) sirve para introspección
+export type Queryable = Pick<ClientBase, 'query'>;
+
+const RELATION_KINDS: Record<string, NonNullable<DatabaseTable['kind']>> = {
+  r: 'table',
+  p: 'partitioned_table',
+  v: 'view',
+  m: 'materialized_view',
+  f: 'foreign_table'
+};
+
+const FK_ACTIONS: Record<string, ForeignKeyAction> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT'
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Decodificar pg_trigger.tgtype
+const decodeTriggerType = (tgtype: number): Pick<TableTrigger, 'timing' | 'events' | 'level'> => {
+  const events: TableTrigger['events'] = [];
+  if (tgtype & 4) events.push('INSERT');
+  if (tgtype & 8) events.push('DELETE');
+  if (tgtype & 16) events.push('UPDATE');
+  if (tgtype & 32) events.push('TRUNCATE');
+
+  return {
+    timing: tgtype & 64 ? 'INSTEAD OF' : tgtype & 2 ? 'BEFORE' : 'AFTER',
+    events,
+    level: tgtype & 1 ? 'ROW' : 'STATEMENT'
+  };
+};
+
+const groupBy = <T extends { relid: number }>(rows: T[]): Map<number, T[]> => {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.relid) ?? [];
+    group.push(row);
+    groups.set(row.relid, group);
+  }
+  return groups;
+};
+
+// Introspección completa de las tablas de un esquema (todas, o solo las indicadas)
+export const introspectTables = async (client: Queryable, schema: string, tableNames?: string[]): Promise<DatabaseTable[]> => {
+  const relations = await client.query(`
+    SELECT
+      c.oid::int AS relid,
+      c.relname AS name,
+      c.relkind AS kind,
+      c.relrowsecurity AS rls_enabled,
+      c.relforcerowsecurity AS rls_forced,
+      obj_description(c.oid, 'pg_class') AS comment,
+      CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS estimated_rows,
+      pg_table_size(c.oid) AS table_bytes,
+      pg_total_relation_size(c.oid) AS total_bytes
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND ($2::text[] IS NULL OR c.relname = ANY($2::text[]))
+    ORDER BY c.relname;
+  `, [schema, tableNames ?? null]);
+
+  if (relations.rows.length === 0) {
+    return [];
+  }
+
+  const relids = relations.rows.map(row => row.relid as number);
+
+  const [columns, constraints, indexes, triggers, policies] = await Promise.all([
+    client.query(`
+      SELECT
+        a.attrelid::int AS relid,
+        a.attname AS name,
+        format_type(a.atttypid, a.atttypmod) AS type,
+        NOT a.attnotnull AS nullable,
+        CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS default_value,
+        CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END AS generated,
+        a.attidentity AS identity,
+        col_description(a.attrelid, a.attnum) AS comment
+      FROM pg_attribute a
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE a.attrelid = ANY($1::oid[]) AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY a.attrelid, a.attnum;
+    `, [relids]),
+    client.query(`
+      SELECT
+        con.conrelid::int AS relid,
+        con.conname AS name,
+        con.contype AS type,
+        pg_get_constraintdef(con.oid) AS definition,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS columns,
+        fn.nspname AS referenced_schema,
+        fc.relname AS referenced_table,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS referenced_columns,
+        con.confdeltype AS on_delete,
+        con.confupdtype AS on_update,
+        CASE WHEN con.contype = 'c' THEN pg_get_expr(con.conbin, con.conrelid) END AS expression
+      FROM pg_constraint con
+      LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+      LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+      WHERE con.conrelid = ANY($1::oid[])
+      ORDER BY con.conrelid, con.conname;
+    `, [relids]),
+    client.query(`
+      SELECT
+        i.indrelid::int AS relid,
+        ic.relname AS name,
+        pg_get_indexdef(i.indexrelid) AS definition,
+        i.indisunique AS unique,
+        i.indisprimary AS primary,
+        am.amname AS method,
+        ARRAY(
+          SELECT pg_get_indexdef(i.indexrelid, k + 1, true)
+          FROM generate_subscripts(i.indkey, 1) AS k
+          ORDER BY k
+        ) AS columns,
+        pg_get_expr(i.indpred, i.indrelid) AS predicate,
+        pg_relation_size(i.indexrelid) AS size_bytes
+      FROM pg_index i
+      JOIN pg_class ic ON ic.oid = i.indexrelid
+      JOIN pg_am am ON am.oid = ic.relam
+      WHERE i.indrelid = ANY($1::oid[])
+      ORDER BY i.indrelid, ic.relname;
+    `, [relids]),
+    client.query(`
+      SELECT
+        t.tgrelid::int AS relid,
+        t.tgname AS name,
+        t.tgtype::int AS tgtype,
+        t.tgenabled <> 'D' AS enabled,
+        pn.nspname || '.' || p.proname AS function,
+        pg_get_triggerdef(t.oid) AS definition
+      FROM pg_trigger t
+      JOIN pg_proc p ON p.oid = t.tgfoid
+      JOIN pg_namespace pn ON pn.oid = p.pronamespace
+      WHERE t.tgrelid = ANY($1::oid[]) AND NOT t.tgisinternal
+      ORDER BY t.tgrelid, t.tgname;
+    `, [relids]),
+    client.query(`
+      SELECT
+        pol.polrelid::int AS relid,
+        pol.polname AS name,
+        pol.polpermissive AS permissive,
+        CASE pol.polcmd
+          WHEN 'r' THEN 'SELECT'
+          WHEN 'a' THEN 'INSERT'
+          WHEN 'w' THEN 'UPDATE'
+          WHEN 'd' THEN 'DELETE'
+          ELSE 'ALL'
+        END AS command,
+        CASE
+          WHEN pol.polroles = '{0}' THEN ARRAY['public']
+          ELSE ARRAY(SELECT r.rolname::text FROM pg_roles r WHERE r.oid = ANY(pol.polroles) ORDER BY r.rolname)
+        END AS roles,
+        pg_get_expr(pol.polqual, pol.polrelid) AS using,
+        pg_get_expr(pol.polwithcheck, pol.polrelid) AS with_check
+      FROM pg_policy pol
+      WHERE pol.polrelid = ANY($1::oid[])
+      ORDER BY pol.polrelid, pol.polname;
+    `, [relids])
+  ]);
+
+  const columnsByTable = groupBy(columns.rows);
+  const constraintsByTable = groupBy(constraints.rows);
+  const indexesByTable = groupBy(indexes.rows);
+  const triggersByTable = groupBy(triggers.rows);
+  const policiesByTable = groupBy(policies.rows);
+
+  return relations.rows.map((relation): DatabaseTable => {
+    const tableConstraints = constraintsByTable.get(relation.relid) ?? [];
+    const primaryKey = tableConstraints.find(con => con.type === 'p');
+
+    const foreignKeys: ForeignKey[] = tableConstraints
+      .filter(con => con.type === 'f')
+      .map(con => ({
+        name: con.name,
+        columns: con.columns,
+        referencedSchema: con.referenced_schema,
+        referencedTable: con.referenced_table,
+        referencedColumns: con.referenced_columns,
+        onDelete: FK_ACTIONS[con.on_delete] ?? 'NO ACTION',
+        onUpdate: FK_ACTIONS[con.on_update] ?? 'NO ACTION'
+      }));
+
+    const uniqueConstraints: UniqueConstraint[] = tableConstraints
+      .filter(con => con.type === 'u')
+      .map(con => ({ name: con.name, columns: con.columns, definition: con.definition }));
+
+    const checkConstraints: CheckConstraint[] = tableConstraints
+      .filter(con => con.type === 'c')
+      .map(con => ({ name: con.name, expression: con.expression, definition: con.definition }));
+
+    const tableIndexes: TableIndex[] = (indexesByTable.get(relation.relid) ?? []).map(index => {
+      const result: TableIndex = {
+        name: index.name,
+        columns: index.columns,
+        unique: index.unique,
+        primary: index.primary,
+        method: index.method,
+        definition: index.definition
+      };
+      if (index.predicate) result.predicate = index.predicate;
+      const sizeBytes = toNumber(index.size_bytes);
+      if (sizeBytes !== undefined) result.sizeBytes = sizeBytes;
+      return result;
+    });
+
+    const uniqueColumns = new Set<string>([
+      ...uniqueConstraints.filter(con => con.columns.length === 1).map(con => con.columns[0]!),
+      ...(primaryKey && primaryKey.columns.length === 1 ? [primaryKey.columns[0] as string] : []),
+      ...tableIndexes.filter(index => index.unique && index.columns.length === 1 && !index.predicate).map(index => index.columns[0]!)
+    ]);
+    const indexedColumns = new Set<string>(tableIndexes.map(index => index.columns[0]).filter((col): col is string => !!col));
+
+    const tableColumns: DatabaseColumn[] = (columnsByTable.get(relation.relid) ?? []).map(col => {
+      const result: DatabaseColumn = {
+        name: col.name,
+        type: col.type,
+        nullable: col.nullable,
+        isUnique: uniqueColumns.has(col.name),
+        isIndexed: indexedColumns.has(col.name)
+      };
+      if (col.default_value) result.defaultValue = col.default_value;
+      if (col.generated) result.generated = col.generated;
+      if (col.identity === 'a') result.identity = 'ALWAYS';
+      if (col.identity === 'd') result.identity = 'BY DEFAULT';
+      if (col.comment) result.comment = col.comment;
+      return result;
+    });
+
+    const tableTriggers: TableTrigger[] = (triggersByTable.get(relation.relid) ?? []).map(trigger => ({
+      name: trigger.name,
+      ...decodeTriggerType(trigger.tgtype),
+      function: trigger.function,
+      enabled: trigger.enabled,
+      definition: trigger.definition
+    }));
+
+    const tablePolicies: RLSPolicy[] = (policiesByTable.get(relation.relid) ?? []).map(policy => {
+      const result: RLSPolicy = {
+        name: policy.name,
+        table: relation.name,
+        schema,
+        command: policy.command,
+        permissive: policy.permissive,
+        roles: policy.roles
+      };
+      if (policy.using) result.using = policy.using;
+      if (policy.with_check) result.withCheck = policy.with_check;
+      return result;
+    });
+
+    const table: DatabaseTable = {
+      name: relation.name,
+      schema,
+      kind: RELATION_KINDS[relation.kind] ?? 'table',
+      columns: tableColumns,
+      primaryKey: primaryKey ? primaryKey.columns : [],
+      foreignKeys,
+      uniqueConstraints,
+      checkConstraints,
+      indexes: tableIndexes,
+      triggers: tableTriggers,
+      rlsEnabled: relation.rls_enabled,
+      rlsForced: relation.rls_forced,
+      policies: tablePolicies
+    };
+
+    if (primaryKey) table.primaryKeyName = primaryKey.name;
+    if (relation.comment) table.comment = relation.comment;
+    const estimatedRowCount = toNumber(relation.estimated_rows);
+    if (estimatedRowCount !== undefined) table.estimatedRowCount = estimatedRowCount;
+    const tableSizeBytes = toNumber(relation.table_bytes);
+    if (tableSizeBytes !== undefined) table.tableSizeBytes = tableSizeBytes;
+    const totalSizeBytes = toNumber(relation.total_bytes);
+    if (totalSizeBytes !== undefined) table.totalSizeBytes = totalSizeBytes;
+
+    return table;
+  });
+};
+
+export const introspectTable = async (client: Queryable, schema: string, tableName: string): Promise<DatabaseTable | null> => {
+  const [table] = await introspectTables(client, schema, [tableName]);
+  return table ?? null;
+};
+
+export const introspectViews = async (client: Queryable, schema: string): Promise<DatabaseView[]> => {
+  const result = await client.query(`
+    SELECT
+      c.relname AS name,
+      c.relkind = 'm' AS materialized,
+      pg_get_viewdef(c.oid, true) AS definition,
+      obj_description(c.oid, 'pg_class') AS comment
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1
+      AND c.relkind IN ('v', 'm')
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = c.oid AND d.deptype = 'e')
+    ORDER BY c.relname;
+  `, [schema]);
+
+  return result.rows.map(row => {
+    const view: DatabaseView = {
+      name: row.name,
+      schema,
+      materialized: row.materialized,
+      definition: row.definition
+    };
+    if (row.comment) view.comment = row.comment;
+    return view;
+  });
+};
+
+// Funciones y procedimientos definidos por el usuario (excluye los de extensiones)
+export const introspectFunctions = async (client: Queryable, schema: string): Promise<DatabaseFunction[]> => {
+  const result = await client.query(`
+    SELECT
+      p.proname AS name,
+      pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+      COALESCE(pg_get_function_result(p.oid), '') AS returns,
+      l.lanname AS language,
+      p.prokind AS kind,
+      CASE WHEN p.prokind IN ('f', 'p') THEN pg_get_functiondef(p.oid) ELSE '' END AS definition
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    JOIN pg_language l ON l.oid = p.prolang
+    WHERE n.nspname = $1
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+    ORDER BY p.proname, identity_arguments;
+  `, [schema]);
+
+  const kinds: Record<string, DatabaseFunction['kind']> = { f: 'function', p: 'procedure', a: 'aggregate', w: 'window' };
+
+  return result.rows.map(row => ({
+    name: row.name,
+    schema,
+    identityArguments: row.identity_arguments,
+    returns: row.returns,
+    language: row.language,
+    kind: kinds[row.kind] ?? 'function',
+    definition: row.definition
+  }));
+};
+
+// Tipos enum, dominio y compuestos definidos por el usuario (excluye los de extensiones)
+export const introspectTypes = async (client: Queryable, schema: string): Promise<DatabaseType[]> => {
+  const result = await client.query(`
+    SELECT
+      t.typname AS name,
+      t.typtype AS typtype,
+      (SELECT array_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid) AS labels,
+      CASE WHEN t.typtype = 'd' THEN format_type(t.typbasetype, t.typtypmod) END AS base_type,
+      t.typnotnull AS not_null,
+      t.typdefault AS default_value,
+      (
+        SELECT array_agg('CONSTRAINT ' || quote_ident(con.conname) || ' ' || pg_get_constraintdef(con.oid) ORDER BY con.conname)
+        FROM pg_constraint con
+        WHERE con.contypid = t.oid
+      ) AS constraints,
+      (
+        SELECT json_agg(json_build_object('name', a.attname, 'type', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+        FROM pg_attribute a
+        WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+      ) AS attributes
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    LEFT JOIN pg_class c ON c.oid = t.typrelid
+    WHERE n.nspname = $1
+      AND (t.typtype IN ('e', 'd') OR (t.typtype = 'c' AND c.relkind = 'c'))
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = t.oid AND d.deptype = 'e')
+    ORDER BY t.typname;
+  `, [schema]);
+
+  return result.rows.map(row => {
+    const type: DatabaseType = {
+      name: row.name,
+      schema,
+      kind: row.typtype === 'e' ? 'enum' : row.typtype === 'd' ? 'domain' : 'composite'
+    };
+    if (type.kind === 'enum') {
+      type.labels = row.labels ?? [];
+    } else if (type.kind === 'domain') {
+      type.baseType = row.base_type;
+      type.notNull = row.not_null;
+      if (row.default_value) type.defaultValue = row.default_value;
+      type.constraints = row.constraints ?? [];
+    } else {
+      type.attributes = row.attributes ?? [];
+    }
+    return type;
+  });
+};
+
+// Privilegios concedidos explícitamente sobre tablas, secuencias, funciones y el propio esquema (sin los del propietario)
+export const introspectGrants = async (client: Queryable, schema: string): Promise<ObjectGrant[]> => {
+  const result = await client.query(`
+    WITH acl AS (
+      SELECT
+        CASE WHEN c.relkind = 'S' THEN 'sequence' ELSE 'table' END AS object_type,
+        c.relname AS name,
+        NULL::text AS arguments,
+        a.grantee,
+        a.privilege_type,
+        a.is_grantable
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      CROSS JOIN LATERAL aclexplode(c.relacl) a
+      WHERE n.nspname = $1
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+        AND a.grantee <> c.relowner
+        AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = c.oid AND d.deptype = 'e')
+      UNION ALL
+      SELECT 'function', p.proname, pg_get_function_identity_arguments(p.oid), a.grantee, a.privilege_type, a.is_grantable
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      CROSS JOIN LATERAL aclexplode(p.proacl) a
+      WHERE n.nspname = $1
+        AND a.grantee <> p.proowner
+        AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+      UNION ALL
+      SELECT 'schema', n.nspname, NULL, a.grantee, a.privilege_type, a.is_grantable
+      FROM pg_namespace n
+      CROSS JOIN LATERAL aclexplode(n.nspacl) a
+      WHERE n.nspname = $1
+        AND a.grantee <> n.nspowner
+    )
+    SELECT
+      object_type,
+      name,
+      arguments,
+      CASE WHEN grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(grantee) END AS grantee,
+      array_agg(privilege_type ORDER BY privilege_type) AS privileges,
+      is_grantable AS grantable
+    FROM acl
+    GROUP BY object_type, name, arguments, grantee, is_grantable
+    ORDER BY object_type, name, grantee;
+  `, [schema]);
+
+  return result.rows.map(row => {
+    const grant: ObjectGrant = {
+      objectType: row.object_type,
+      schema,
+      name: row.name,
+      grantee: row.grantee,
+      privileges: row.privileges,
+      grantable: row.grantable
+    };
+    if (row.arguments !== null) grant.arguments = row.arguments;
+    return grant;
+  });
+};
+
+// Foto completa de un esquema: tablas, vistas y funciones
+export const introspectSchema = async (client: Queryable, schema: string): Promise<SchemaSnapshot> => {
+  const tables = await introspectTables(client, schema);
+  const views = await introspectViews(client, schema);
+  const functions = await introspectFunctions(client, schema);
+
+  return {
+    schema,
+    tables: tables.filter(table => table.kind === 'table' || table.kind === 'partitioned_table'),
+    views,
+    functions
+  };
+};
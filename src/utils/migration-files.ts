@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { Migration, MigrationsConfig } from '../types/supabase.js';
+
+// Mismo patrón que Supabase CLI: <version>_<nombre>.sql
+const MIGRATION_FILE_REGEX = /^(\d+)_(.+)\.sql$/;
+
+// Directiva para ejecutar una migración sentencia a sentencia fuera de una transacción
+// (CREATE INDEX CONCURRENTLY, VACUUM, ALTER TYPE ... ADD VALUE en versiones antiguas...)
+export const NO_TRANSACTION_DIRECTIVE = '-- mcp:no-transaction';
+
+const NO_TRANSACTION_REGEX = /^\s*--\s*mcp:no-transaction\s*$/m;
+
+export const isTransactionalSQL = (sql: string): boolean => !NO_TRANSACTION_REGEX.test(sql);
+
+export const stripNoTransactionDirective = (sql: string): string =>
+  sql.replace(new RegExp(NO_TRANSACTION_REGEX.source, 'gm'), '').trim();
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  fileName: string;
+  path: string;
+  rollbackPath?: string;
+}
+
+// Versión con el formato de Supabase CLI (YYYYMMDDHHmmss, UTC)
+export const formatMigrationVersion = (date: Date): string =>
+  date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+export const slugifyMigrationName = (name: string): string => {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error(`Nombre de migración inválido: ${name}`);
+  }
+  return slug;
+};
+
+export const migrationFileName = (version: string, name: string): string => `${version}_${name}.sql`;
+
+export const listMigrationFiles = (config: MigrationsConfig): MigrationFile[] => {
+  if (!fs.existsSync(config.dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(config.dir, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => {
+      const match = entry.name.match(MIGRATION_FILE_REGEX);
+      if (!match) {
+        return null;
+      }
+      const file: MigrationFile = {
+        version: match[1]!,
+        name: match[2]!,
+        fileName: entry.name,
+        path: path.join(config.dir, entry.name)
+      };
+      const rollbackPath = path.join(config.rollbacksDir, entry.name);
+      if (fs.existsSync(rollbackPath)) {
+        file.rollbackPath = rollbackPath;
+      }
+      return file;
+    })
+    .filter((file): file is MigrationFile => file !== null)
+    .sort((a, b) => a.version.localeCompare(b.version));
+};
+
+export const findMigrationFile = (config: MigrationsConfig, version: string): MigrationFile | undefined =>
+  listMigrationFiles(config).find(file => file.version === version);
+
+export const readMigration = (file: MigrationFile): Migration => {
+  const migration: Migration = {
+    version: file.version,
+    name: file.name,
+    up: fs.readFileSync(file.path, 'utf8'),
+    path: file.path
+  };
+  if (file.rollbackPath) {
+    migration.down = fs.readFileSync(file.rollbackPath, 'utf8');
+    migration.rollbackPath = file.rollbackPath;
+  }
+  return migration;
+};
+
+// Versión un segundo posterior a la indicada
+export const incrementMigrationVersion = (version: string): string => {
+  const parsed = version.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!parsed) {
+    return (BigInt(version) + 1n).toString();
+  }
+  const [, year, month, day, hour, minute, second] = parsed;
+  return formatMigrationVersion(new Date(Date.UTC(+year!, +month! - 1, +day!, +hour!, +minute!, +second! + 1)));
+};
+
+// Primera versión libre a partir de `date`, sin colisionar con las ya usadas ni quedar por detrás de la última
+export const nextMigrationVersion = (taken: Iterable<string>, date = new Date()): string => {
+  const used = new Set(taken);
+  const latest = Array.from(used).sort().pop();
+  let candidate = formatMigrationVersion(date);
+  if (latest && latest.length === candidate.length && latest >= candidate) {
+    candidate = incrementMigrationVersion(latest);
+  }
+  while (used.has(candidate)) {
+    candidate = incrementMigrationVersion(candidate);
+  }
+  return candidate;
+};
+
+// Sufijo de los ficheros escritos antes de confirmar un cambio; listMigrationFiles no los reconoce
+const STAGED_SUFFIX = '.staged';
+
+const writeMigrationFiles = (config: MigrationsConfig, version: string, name: string, up: string, down: string | undefined, suffix: string): MigrationFile => {
+  const fileName = migrationFileName(version, name);
+  fs.mkdirSync(config.dir, { recursive: true });
+  const filePath = path.join(config.dir, `${fileName}${suffix}`);
+  fs.writeFileSync(filePath, up.endsWith('\n') ? up : `${up}\n`, 'utf8');
+
+  const file: MigrationFile = { version, name, fileName, path: filePath };
+
+  if (down !== undefined && down.trim() !== '') {
+    fs.mkdirSync(config.rollbacksDir, { recursive: true });
+    const rollbackPath = path.join(config.rollbacksDir, `${fileName}${suffix}`);
+    fs.writeFileSync(rollbackPath, down.endsWith('\n') ? down : `${down}\n`, 'utf8');
+    file.rollbackPath = rollbackPath;
+  }
+
+  return file;
+};
+
+export const writeMigration = (config: MigrationsConfig, version: string, name: string, up: string, down?: string): MigrationFile => {
+  if (listMigrationFiles(config).some(file => file.version === version)) {
+    throw new Error(`Ya existe una migración con la versión ${version}`);
+  }
+  return writeMigrationFiles(config, version, name, up, down, '');
+};
+
+// Escribir una migración que puede sustituir a ficheros existentes sin tocarlos todavía;
+// se publica con publishStagedMigration o se descarta con removeMigrationFiles
+export const stageMigration = (config: MigrationsConfig, version: string, name: string, up: string, down?: string): MigrationFile =>
+  writeMigrationFiles(config, version, name, up, down, STAGED_SUFFIX);
+
+export const publishStagedMigration = (staged: MigrationFile): MigrationFile => {
+  const file: MigrationFile = { ...staged, path: staged.path.slice(0, -STAGED_SUFFIX.length) };
+  fs.renameSync(staged.path, file.path);
+  if (staged.rollbackPath) {
+    file.rollbackPath = staged.rollbackPath.slice(0, -STAGED_SUFFIX.length);
+    fs.renameSync(staged.rollbackPath, file.rollbackPath);
+  }
+  return file;
+};
+
+// Borrar el fichero de una migración y su rollback
+export const removeMigrationFiles = (file: MigrationFile): void => {
+  fs.rmSync(file.path, { force: true });
+  if (file.rollbackPath) {
+    fs.rmSync(file.rollbackPath, { force: true });
+  }
+};
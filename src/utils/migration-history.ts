@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import { SchemaSnapshot } from '../types/supabase.js';
+import { Queryable, introspectSchema } from './introspection.js';
+import { splitSQLStatements } from './sql.js';
+
+export interface AppliedMigration {
+  version: string;
+  name: string | null;
+  statements: string[];
+}
+
+export type MigrationDirection = 'up' | 'down';
+
+// Avance de una migración no transaccional que aún no ha terminado
+export interface MigrationProgress {
+  version: string;
+  direction: MigrationDirection;
+  checksum: string;
+  statementsTotal: number;
+  statementsDone: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+export interface MigrationMetadata {
+  version: string;
+  checksum: string;
+  hasSnapshot: boolean;
+  appliedAt: string;
+}
+
+// Tabla de historial de Supabase CLI: `supabase db push` y estas herramientas comparten registro
+export const ensureMigrationHistory = async (client: Queryable): Promise<void> => {
+  await client.query(`
+    CREATE SCHEMA IF NOT EXISTS supabase_migrations;
+    CREATE TABLE IF NOT EXISTS supabase_migrations.schema_migrations (
+      version TEXT NOT NULL PRIMARY KEY,
+      statements TEXT[],
+      name TEXT
+    );
+    -- Metadatos propios: Supabase CLI no conoce esta tabla y el ON DELETE CASCADE la mantiene al día
+    -- cuando supabase migration repair borra una versión
+    CREATE TABLE IF NOT EXISTS supabase_migrations.mcp_migration_metadata (
+      version TEXT NOT NULL PRIMARY KEY REFERENCES supabase_migrations.schema_migrations(version) ON DELETE CASCADE,
+      checksum TEXT NOT NULL,
+      schema_snapshot JSONB,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE TABLE IF NOT EXISTS supabase_migrations.mcp_migration_progress (
+      version TEXT NOT NULL PRIMARY KEY,
+      direction TEXT NOT NULL CHECK (direction IN ('up', 'down')),
+      checksum TEXT NOT NULL,
+      statements_total INTEGER NOT NULL,
+      statements_done INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+};
+
+// Sin crear nada: si la tabla aún no existe no hay migraciones aplicadas
+export const getAppliedMigrations = async (client: Queryable): Promise<AppliedMigration[]> => {
+  const exists = await client.query(`SELECT to_regclass('supabase_migrations.schema_migrations') IS NOT NULL AS exists;`);
+  if (!exists.rows[0]?.exists) {
+    return [];
+  }
+
+  const result = await client.query(`
+    SELECT version, name, COALESCE(statements, '{}') AS statements
+    FROM supabase_migrations.schema_migrations
+    ORDER BY version;
+  `);
+  return result.rows;
+};
+
+export const isMigrationApplied = async (client: Queryable, version: string): Promise<boolean> => {
+  const result = await client.query('SELECT 1 FROM supabase_migrations.schema_migrations WHERE version = $1;', [version]);
+  return result.rows.length > 0;
+};
+
+// Checksum del SQL sin depender de finales de línea ni espacios al principio o al final
+export const migrationChecksum = (sql: string): string =>
+  createHash('sha256').update(sql.replace(/\r\n/g, '\n').trim()).digest('hex');
+
+// Catálogo de los esquemas indicados, tal como queda tras aplicar una migración
+export const captureSchemaSnapshots = async (client: Queryable, schemas: string[]): Promise<SchemaSnapshot[]> => {
+  const snapshots: SchemaSnapshot[] = [];
+  for (const schema of schemas) {
+    snapshots.push(await introspectSchema(client, schema));
+  }
+  return snapshots;
+};
+
+export const recordAppliedMigration = async (
+  client: Queryable,
+  version: string,
+  name: string,
+  sql: string,
+  snapshots: SchemaSnapshot[] | null = null
+): Promise<void> => {
+  await client.query(`
+    INSERT INTO supabase_migrations.schema_migrations (version, name, statements)
+    VALUES ($1, $2, $3);
+  `, [version, name, splitSQLStatements(sql)]);
+  await client.query(`
+    INSERT INTO supabase_migrations.mcp_migration_metadata (version, checksum, schema_snapshot)
+    VALUES ($1, $2, $3);
+  `, [version, migrationChecksum(sql), snapshots === null ? null : JSON.stringify(snapshots)]);
+};
+
+// Sin crear nada: las migraciones aplicadas con Supabase CLI no tienen metadatos
+export const getMigrationMetadata = async (client: Queryable): Promise<Map<string, MigrationMetadata>> => {
+  const exists = await client.query(`SELECT to_regclass('supabase_migrations.mcp_migration_metadata') IS NOT NULL AS exists;`);
+  if (!exists.rows[0]?.exists) {
+    return new Map();
+  }
+
+  const result = await client.query(`
+    SELECT version, checksum, schema_snapshot IS NOT NULL AS "hasSnapshot", applied_at AS "appliedAt"
+    FROM supabase_migrations.mcp_migration_metadata;
+  `);
+  return new Map(result.rows.map(row => [row.version, {
+    version: row.version,
+    checksum: row.checksum,
+    hasSnapshot: row.hasSnapshot,
+    appliedAt: new Date(row.appliedAt).toISOString()
+  }]));
+};
+
+export const getMigrationSnapshots = async (client: Queryable, version: string): Promise<SchemaSnapshot[] | null> => {
+  const result = await client.query(
+    'SELECT schema_snapshot FROM supabase_migrations.mcp_migration_metadata WHERE version = $1;',
+    [version]
+  );
+  return result.rows[0]?.schema_snapshot ?? null;
+};
+
+export const removeAppliedMigration = async (client: Queryable, version: string): Promise<void> => {
+  // Los metadatos se borran en cascada
+  await client.query('DELETE FROM supabase_migrations.schema_migrations WHERE version = $1;', [version]);
+};
+
+// Sin crear nada: si la tabla aún no existe no hay migraciones a medias
+export const getMigrationProgress = async (client: Queryable): Promise<Map<string, MigrationProgress>> => {
+  const exists = await client.query(`SELECT to_regclass('supabase_migrations.mcp_migration_progress') IS NOT NULL AS exists;`);
+  if (!exists.rows[0]?.exists) {
+    return new Map();
+  }
+
+  const result = await client.query(`
+    SELECT version, direction, checksum,
+      statements_total AS "statementsTotal", statements_done AS "statementsDone",
+      last_error AS "lastError", updated_at AS "updatedAt"
+    FROM supabase_migrations.mcp_migration_progress;
+  `);
+  return new Map(result.rows.map(row => [row.version, { ...row, updatedAt: new Date(row.updatedAt).toISOString() }]));
+};
+
+export const startMigrationProgress = async (
+  client: Queryable,
+  version: string,
+  direction: MigrationDirection,
+  checksum: string,
+  statementsTotal: number
+): Promise<void> => {
+  await client.query(`
+    INSERT INTO supabase_migrations.mcp_migration_progress (version, direction, checksum, statements_total)
+    VALUES ($1, $2, $3, $4);
+  `, [version, direction, checksum, statementsTotal]);
+};
+
+export const updateMigrationProgress = async (client: Queryable, version: string, statementsDone: number, lastError: string | null = null): Promise<void> => {
+  await client.query(`
+    UPDATE supabase_migrations.mcp_migration_progress
+    SET statements_done = $2, last_error = $3, updated_at = now()
+    WHERE version = $1;
+  `, [version, statementsDone, lastError]);
+};
+
+export const clearMigrationProgress = async (client: Queryable, version: string): Promise<void> => {
+  await client.query('DELETE FROM supabase_migrations.mcp_migration_progress WHERE version = $1;', [version]);
+};
+
+// Clave del advisory lock compartida por todas las herramientas que aplican o revierten migraciones
+const MIGRATION_LOCK_KEY = 'mcp_supabase_migrations';
+
+// Tiempo máximo de espera a que otra ejecución suelte el lock de migraciones
+const MIGRATION_LOCK_TIMEOUT_MS = 30000;
+
+// Ejecutar `fn` con el lock de migraciones tomado en la sesión de `client`; si otro proceso lo tiene,
+// se espera a que termine como mucho MIGRATION_LOCK_TIMEOUT_MS antes de fallar
+export const withMigrationLock = async <T>(client: Queryable, fn: () => Promise<T>): Promise<T> => {
+  await client.query(`SET lock_timeout = ${MIGRATION_LOCK_TIMEOUT_MS};`);
+  try {
+    await client.query('SELECT pg_advisory_lock(hashtext($1));', [MIGRATION_LOCK_KEY]);
+  } catch (error) {
+    // 55P03 (lock_not_available): venció lock_timeout
+    if ((error as { code?: string }).code === '55P03') {
+      throw new Error(`Otra ejecución de migraciones sigue en curso en esta base de datos tras esperar ${MIGRATION_LOCK_TIMEOUT_MS / 1000} s; inténtalo de nuevo cuando termine`);
+    }
+    throw error;
+  } finally {
+    await client.query('RESET lock_timeout;');
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await client.query('SELECT pg_advisory_unlock(hashtext($1));', [MIGRATION_LOCK_KEY]);
+  }
+};
+
+// Reconstruir el SQL de una migración a partir de las sentencias guardadas en el historial
+export const statementsToSQL = (statements: string[]): string =>
+  statements.map(statement => `${statement.trim().replace(/;$/, '')};`).join('\n\n');
@@ -0,0 +1,328 @@
+import { MigrationLintBlock } from '../types/supabase.js';
+import { Queryable } from './introspection.js';
+import { isTransactionalSQL } from './migration-files.js';
+import {
+  qualifiedName,
+  splitQualifiedName,
+  splitSQLStatements,
+  splitTopLevel,
+  sqlPattern,
+  stripSQLComments,
+  unquoteIdentifier
+} from './sql.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'not-null-without-default'
+  | 'table-rewrite'
+  | 'volatile-default'
+  | 'index-without-concurrently'
+  | 'concurrently-in-transaction'
+  | 'drop-column-in-use'
+  | 'table-without-rls';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  // Posición de la sentencia en la migración, empezando en 1
+  statement: number;
+  sql: string;
+  object: string;
+  message: string;
+  hint: string;
+}
+
+export interface MigrationLint {
+  findings: LintFinding[];
+  summary: Record<LintSeverity, number>;
+}
+
+interface TableInfo {
+  schema: string;
+  name: string;
+  hasRows: boolean;
+  // reltuples: -1 si la tabla nunca se ha analizado
+  estimatedRows: number;
+}
+
+const CREATE_TABLE = sqlPattern('^CREATE\\s+(?:(?:GLOBAL|LOCAL)\\s+)?(?:(TEMP|TEMPORARY)\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(QNAME)');
+const CREATE_INDEX = sqlPattern('^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(CONCURRENTLY\\s+)?(?:(?:IF\\s+NOT\\s+EXISTS\\s+)?IDENT\\s+)?ON\\s+(?:ONLY\\s+)?(QNAME)');
+const CONCURRENT_STATEMENT = /^(?:CREATE\s+(?:UNIQUE\s+)?INDEX|DROP\s+INDEX|REINDEX\s+\w+|REFRESH\s+MATERIALIZED\s+VIEW)\s+CONCURRENTLY\b/i;
+const ALTER_TABLE = sqlPattern('^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(QNAME)\\s+([\\s\\S]+)$');
+const ADD_CONSTRAINT = /^ADD\s+(?:CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE)\b/i;
+const ADD_COLUMN = sqlPattern('^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(IDENT)\\s+([\\s\\S]+)$');
+const DROP_COLUMN = sqlPattern('^DROP\\s+(?:COLUMN\\s+)?(?:IF\\s+EXISTS\\s+)?(IDENT)(?:\\s+(CASCADE|RESTRICT))?$');
+const ALTER_COLUMN_TYPE = sqlPattern('^ALTER\\s+(?:COLUMN\\s+)?(IDENT)\\s+(?:SET\\s+DATA\\s+)?TYPE\\b');
+const SET_PERSISTENCE = /^SET\s+(LOGGED|UNLOGGED)$/i;
+const ENABLE_RLS = /^ENABLE\s+ROW\s+LEVEL\s+SECURITY$/i;
+// El DEFAULT termina donde empieza la siguiente restricción de la columna
+const COLUMN_DEFAULT = /\bDEFAULT\s+([\s\S]+?)(?=\s+(?:NOT\s+NULL|NULL|CONSTRAINT|CHECK|UNIQUE|PRIMARY\s+KEY|REFERENCES|GENERATED|COLLATE)\b|$)/i;
+
+const tableKey = (qualified: string): string => {
+  const { schema, name } = splitQualifiedName(qualified);
+  return `${schema ? unquoteIdentifier(schema) : 'public'}.${unquoteIdentifier(name)}`;
+};
+
+const loadTableInfo = async (client: Queryable, qualified: string): Promise<TableInfo | null> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, c.reltuples::bigint AS estimate
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.oid = to_regclass($1) AND c.relkind IN ('r', 'p');`,
+    [qualified]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  const rows = await client.query(`SELECT EXISTS (SELECT 1 FROM ${qualifiedName(row.schema, row.name)}) AS has_rows;`);
+  return { schema: row.schema, name: row.name, hasRows: rows.rows[0].has_rows, estimatedRows: Number(row.estimate) };
+};
+
+// Vistas y políticas que dependen de una columna
+const columnDependents = async (client: Queryable, qualified: string, column: string): Promise<string[]> => {
+  const result = await client.query(
+    `SELECT DISTINCT CASE
+       WHEN d.classid = 'pg_rewrite'::regclass
+         THEN 'vista ' || (SELECT r.ev_class::regclass::text FROM pg_rewrite r WHERE r.oid = d.objid)
+       ELSE 'política ' || (SELECT p.polname || ' de ' || p.polrelid::regclass::text FROM pg_policy p WHERE p.oid = d.objid)
+     END AS dependent
+     FROM pg_depend d
+     JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+     WHERE d.refclassid = 'pg_class'::regclass
+       AND d.refobjid = to_regclass($1)
+       AND a.attname = $2
+       AND d.classid IN ('pg_rewrite'::regclass, 'pg_policy'::regclass)
+     ORDER BY 1;`,
+    [qualified, column]
+  );
+  return result.rows.map(row => row.dependent);
+};
+
+const volatileFunctions = async (client: Queryable, expression: string): Promise<string[]> => {
+  const names = Array.from(expression.matchAll(/([A-Za-z_][\w$]*)\s*\(/g), match => match[1]!.toLowerCase());
+  if (names.length === 0) {
+    return [];
+  }
+  const result = await client.query(
+    `SELECT DISTINCT proname FROM pg_proc WHERE proname = ANY($1) AND provolatile = 'v' ORDER BY 1;`,
+    [names]
+  );
+  return result.rows.map(row => row.proname);
+};
+
+const describeRows = (table: TableInfo): string =>
+  table.estimatedRows > 0 ? `~${table.estimatedRows} filas` : 'con filas';
+
+// En una tabla vacía los cambios costosos no bloquean a nadie
+const scaled = (table: TableInfo, severity: LintSeverity): LintSeverity => (table.hasRows ? severity : 'info');
+
+// Revisar el SQL de una migración contra el estado actual de la base de datos
+export const lintMigrationSQL = async (client: Queryable, sql: string, exposedSchemas: string[]): Promise<MigrationLint> => {
+  const findings: LintFinding[] = [];
+  const transactional = isTransactionalSQL(sql);
+  const createdTables = new Map<string, { statement: number; sql: string; object: string }>();
+  const rlsEnabled = new Set<string>();
+  const tableCache = new Map<string, TableInfo | null>();
+
+  const tableInfo = async (qualified: string): Promise<TableInfo | null> => {
+    const key = tableKey(qualified);
+    if (createdTables.has(key)) {
+      // Creada en la propia migración: está vacía y nadie más la usa todavía
+      return null;
+    }
+    if (!tableCache.has(key)) {
+      tableCache.set(key, await loadTableInfo(client, qualified));
+    }
+    return tableCache.get(key)!;
+  };
+
+  const statements = splitSQLStatements(sql);
+  for (const [index, rawStatement] of statements.entries()) {
+    const statement = stripSQLComments(rawStatement).trim().replace(/;$/, '').trim();
+    const position = index + 1;
+    const excerpt = statement.slice(0, 200);
+    const add = (finding: Omit<LintFinding, 'statement' | 'sql'>) =>
+      findings.push({ statement: position, sql: excerpt, ...finding });
+    let match: RegExpMatchArray | null;
+
+    if (transactional && CONCURRENT_STATEMENT.test(statement)) {
+      add({
+        rule: 'concurrently-in-transaction',
+        severity: 'error',
+        object: statement.split(/\s+/).slice(0, 3).join(' '),
+        message: 'CONCURRENTLY no se puede ejecutar dentro de una transacción y la migración fallará',
+        hint: 'Añade la directiva "-- mcp:no-transaction" (create_migration con transactional: false)'
+      });
+    }
+
+    if ((match = statement.match(CREATE_TABLE))) {
+      if (!match[1] && !/\bPARTITION\s+OF\b/i.test(statement)) {
+        createdTables.set(tableKey(match[2]!), { statement: position, sql: excerpt, object: match[2]! });
+      }
+      continue;
+    }
+
+    if ((match = statement.match(CREATE_INDEX))) {
+      const table = match[1] ? null : await tableInfo(match[2]!);
+      if (table) {
+        add({
+          rule: 'index-without-concurrently',
+          severity: scaled(table, 'warning'),
+          object: `${table.schema}.${table.name}`,
+          message: `CREATE INDEX sin CONCURRENTLY bloquea las escrituras en ${table.schema}.${table.name} (${describeRows(table)}) mientras se construye el índice`,
+          hint: 'Usa CREATE INDEX CONCURRENTLY en una migración con "-- mcp:no-transaction"'
+        });
+      }
+      continue;
+    }
+
+    if (!(match = statement.match(ALTER_TABLE))) {
+      continue;
+    }
+
+    const qualified = match[1]!;
+    for (const action of splitTopLevel(match[2]!)) {
+      if (ENABLE_RLS.test(action)) {
+        rlsEnabled.add(tableKey(qualified));
+        continue;
+      }
+
+      let actionMatch: RegExpMatchArray | null;
+
+      if (!ADD_CONSTRAINT.test(action) && (actionMatch = action.match(ADD_COLUMN))) {
+        const table = await tableInfo(qualified);
+        if (!table) {
+          continue;
+        }
+        const column = unquoteIdentifier(actionMatch[1]!);
+        const definition = actionMatch[2]!;
+        const object = `${table.schema}.${table.name}.${column}`;
+        const identity = /\bGENERATED\s+(?:ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/i.test(definition);
+        const stored = /\bGENERATED\s+ALWAYS\s+AS\s*\(/i.test(definition);
+        const serial = /^(?:small|big)?serial\b/i.test(definition);
+        const defaultValue = definition.match(COLUMN_DEFAULT)?.[1];
+
+        if (identity || stored) {
+          add({
+            rule: 'table-rewrite',
+            severity: scaled(table, 'warning'),
+            object,
+            message: `Añadir una columna ${identity ? 'identity' : 'generada'} reescribe ${table.schema}.${table.name} (${describeRows(table)}) con un bloqueo exclusivo`,
+            hint: 'Añade la columna sin valor y rellénala por lotes antes de añadir la restricción'
+          });
+        } else if (serial) {
+          add({
+            rule: 'volatile-default',
+            severity: scaled(table, 'warning'),
+            object,
+            message: `Una columna serial usa nextval() como default: se reescribe ${table.schema}.${table.name} (${describeRows(table)}) con un bloqueo exclusivo`,
+            hint: 'Añade la columna sin default, rellénala por lotes y después asigna el default'
+          });
+        } else if (defaultValue) {
+          const volatile = await volatileFunctions(client, defaultValue);
+          if (volatile.length > 0) {
+            add({
+              rule: 'volatile-default',
+              severity: scaled(table, 'warning'),
+              object,
+              message: `El default usa funciones volátiles (${volatile.join(', ')}): se reescribe ${table.schema}.${table.name} (${describeRows(table)}) con un bloqueo exclusivo`,
+              hint: 'Añade la columna sin default (o con uno estable), rellénala por lotes y después asigna el default'
+            });
+          }
+        } else if (/\bNOT\s+NULL\b/i.test(definition)) {
+          add({
+            rule: 'not-null-without-default',
+            severity: scaled(table, 'error'),
+            object,
+            message: table.hasRows
+              ? `Añadir una columna NOT NULL sin default falla porque ${table.schema}.${table.name} tiene filas (${describeRows(table)})`
+              : `Columna NOT NULL sin default: la migración fallará si ${table.schema}.${table.name} tiene filas al aplicarla`,
+            hint: 'Añade un DEFAULT constante o crea la columna nullable, rellénala y después usa SET NOT NULL'
+          });
+        }
+        continue;
+      }
+
+      if ((actionMatch = action.match(DROP_COLUMN))) {
+        const column = unquoteIdentifier(actionMatch[1]!);
+        const dependents = await columnDependents(client, qualified, column);
+        if (dependents.length > 0) {
+          const cascade = actionMatch[2]?.toUpperCase() === 'CASCADE';
+          add({
+            rule: 'drop-column-in-use',
+            severity: 'error',
+            object: `${tableKey(qualified)}.${column}`,
+            message: cascade
+              ? `DROP COLUMN ... CASCADE también borrará: ${dependents.join(', ')}`
+              : `La columna se usa en ${dependents.join(', ')}; el DROP fallará`,
+            hint: 'Actualiza o elimina primero las vistas y políticas que la usan'
+          });
+        }
+        continue;
+      }
+
+      if ((actionMatch = action.match(ALTER_COLUMN_TYPE))) {
+        const table = await tableInfo(qualified);
+        if (table) {
+          add({
+            rule: 'table-rewrite',
+            severity: scaled(table, 'warning'),
+            object: `${table.schema}.${table.name}.${unquoteIdentifier(actionMatch[1]!)}`,
+            message: `Cambiar el tipo de la columna reescribe ${table.schema}.${table.name} (${describeRows(table)}) y sus índices con un bloqueo exclusivo, salvo conversiones binariamente compatibles (p. ej. ampliar un varchar)`,
+            hint: 'Crea una columna nueva, cópiala por lotes y cambia las referencias en migraciones separadas'
+          });
+        }
+        continue;
+      }
+
+      if ((actionMatch = action.match(SET_PERSISTENCE))) {
+        const table = await tableInfo(qualified);
+        if (table) {
+          add({
+            rule: 'table-rewrite',
+            severity: scaled(table, 'warning'),
+            object: `${table.schema}.${table.name}`,
+            message: `SET ${actionMatch[1]!.toUpperCase()} reescribe ${table.schema}.${table.name} (${describeRows(table)}) con un bloqueo exclusivo`,
+            hint: 'Aplícalo en una ventana de mantenimiento'
+          });
+        }
+      }
+    }
+  }
+
+  // Las tablas nuevas de los esquemas expuestos por la API sin RLS quedan abiertas a anon y authenticated
+  for (const [key, created] of createdTables) {
+    const schema = key.slice(0, key.indexOf('.'));
+    if (exposedSchemas.includes(schema) && !rlsEnabled.has(key)) {
+      findings.push({
+        rule: 'table-without-rls',
+        severity: 'warning',
+        statement: created.statement,
+        sql: created.sql,
+        object: key,
+        message: `La tabla ${key} se crea sin Row Level Security en un esquema expuesto`,
+        hint: `Añade ALTER TABLE ${created.object} ENABLE ROW LEVEL SECURITY y sus políticas en la misma migración`
+      });
+    }
+  }
+
+  findings.sort((a, b) => a.statement - b.statement);
+
+  return {
+    findings,
+    summary: {
+      error: findings.filter(finding => finding.severity === 'error').length,
+      warning: findings.filter(finding => finding.severity === 'warning').length,
+      info: findings.filter(finding => finding.severity === 'info').length
+    }
+  };
+};
+
+export const blockingFindings = (lint: MigrationLint, block: MigrationLintBlock): LintFinding[] => {
+  if (block === 'off') {
+    return [];
+  }
+  return lint.findings.filter(finding => finding.severity === 'error' || (block === 'warning' && finding.severity === 'warning'));
+};
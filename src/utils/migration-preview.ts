@@ -0,0 +1,194 @@
+import { SchemaChange, diffSchemas } from './schema-diff.js';
+import { Queryable } from './introspection.js';
+import { captureSchemaSnapshots } from './migration-history.js';
+import { isTransactionalSQL } from './migration-files.js';
+import { findTransactionControl } from './sql.js';
+
+export interface PreviewLock {
+  relation: string;
+  kind: string;
+  mode: string;
+  // Operaciones de otras sesiones que quedarían esperando mientras dure la migración
+  blocks: string;
+  // false si la relación la crea la propia migración
+  existing: boolean;
+}
+
+export interface PreviewError {
+  message: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  position?: number;
+  // Sentencia aproximada en la que falló, a partir de la posición del error
+  near?: string;
+}
+
+export interface MigrationPreview {
+  ok: boolean;
+  created: (SchemaChange & { schema: string })[];
+  altered: (SchemaChange & { schema: string })[];
+  dropped: (SchemaChange & { schema: string })[];
+  locks: PreviewLock[];
+  error: PreviewError | null;
+}
+
+// Qué bloquea cada modo sobre una tabla (documentación de PostgreSQL, "Table-Level Locks")
+const LOCK_IMPACT: Record<string, string> = {
+  AccessExclusiveLock: 'todas las operaciones, incluidas las lecturas',
+  ExclusiveLock: 'escrituras; solo se permiten lecturas',
+  ShareRowExclusiveLock: 'escrituras y otros cambios de esquema',
+  ShareLock: 'escrituras',
+  ShareUpdateExclusiveLock: 'cambios de esquema, VACUUM y otras migraciones concurrentes',
+  RowExclusiveLock: 'cambios de esquema y bloqueos explícitos de tabla',
+  RowShareLock: 'solo ALTER/DROP exclusivos',
+  AccessShareLock: 'solo ALTER/DROP exclusivos'
+};
+
+const LOCK_STRENGTH = Object.keys(LOCK_IMPACT);
+
+const RELATION_KINDS: Record<string, string> = {
+  r: 'table',
+  p: 'partitioned_table',
+  i: 'index',
+  I: 'partitioned_index',
+  S: 'sequence',
+  v: 'view',
+  m: 'materialized_view',
+  f: 'foreign_table',
+  t: 'toast',
+  c: 'type'
+};
+
+interface HeldLock {
+  oid: string;
+  relation: string;
+  relkind: string;
+  mode: string;
+}
+
+// Bloqueos de relación de esta sesión, sin los del catálogo del sistema
+const currentLocks = async (client: Queryable): Promise<HeldLock[]> => {
+  const result = await client.query(`
+    SELECT c.oid::text AS oid, n.nspname || '.' || c.relname AS relation, c.relkind::text AS relkind, l.mode
+    FROM pg_locks l
+    JOIN pg_class c ON c.oid = l.relation
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE l.pid = pg_backend_pid()
+      AND l.locktype = 'relation'
+      AND l.granted
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
+  `);
+  return result.rows;
+};
+
+const errorNear = (sql: string, position: number): string => {
+  const start = sql.lastIndexOf(';', position - 1) + 1;
+  const end = sql.indexOf(';', position - 1);
+  return sql.slice(start, end === -1 ? undefined : end + 1).trim().slice(0, 500);
+};
+
+const toPreviewError = (error: unknown, sql: string): PreviewError => {
+  const pgError = error as Error & { code?: string; detail?: string; hint?: string; position?: string };
+  const preview: PreviewError = { message: pgError.message };
+  if (pgError.code) {
+    preview.code = pgError.code;
+  }
+  if (pgError.detail) {
+    preview.detail = pgError.detail;
+  }
+  if (pgError.hint) {
+    preview.hint = pgError.hint;
+  }
+  if (pgError.position) {
+    preview.position = Number(pgError.position);
+    preview.near = errorNear(sql, preview.position);
+  }
+  return preview;
+};
+
+// Ejecutar el SQL en una transacción que siempre se revierte y describir su efecto
+export const previewMigrationSQL = async (client: Queryable, sql: string, schemas: string[]): Promise<MigrationPreview> => {
+  const preview: MigrationPreview = { ok: false, created: [], altered: [], dropped: [], locks: [], error: null };
+  const lockedOids: string[] = [];
+
+  if (!isTransactionalSQL(sql)) {
+    preview.error = {
+      message: 'La migración se ejecuta fuera de una transacción (-- mcp:no-transaction); no se puede simular sin aplicarla'
+    };
+    return preview;
+  }
+
+  // Un COMMIT dentro del SQL confirmaría los cambios de verdad
+  const transactionControl = findTransactionControl(sql);
+  if (transactionControl.length > 0) {
+    preview.error = {
+      message: `El SQL contiene control de transacciones (${transactionControl.map(statement => statement.command).join(', ')}); no se puede simular sin aplicarlo`
+    };
+    return preview;
+  }
+
+  await client.query('BEGIN');
+  try {
+    const before = await captureSchemaSnapshots(client, schemas);
+    // La introspección también toma bloqueos; solo interesan los que añade la migración
+    const baseline = new Set((await currentLocks(client)).map(lock => `${lock.oid}:${lock.mode}`));
+
+    try {
+      await client.query(sql);
+    } catch (error) {
+      preview.error = toPreviewError(error, sql);
+      return preview;
+    }
+
+    // Quedarse con el modo más fuerte por relación
+    const strongest = new Map<string, HeldLock>();
+    for (const lock of await currentLocks(client)) {
+      if (baseline.has(`${lock.oid}:${lock.mode}`)) {
+        continue;
+      }
+      const previous = strongest.get(lock.oid);
+      if (!previous || LOCK_STRENGTH.indexOf(lock.mode) < LOCK_STRENGTH.indexOf(previous.mode)) {
+        strongest.set(lock.oid, lock);
+      }
+    }
+    lockedOids.push(...strongest.keys());
+    preview.locks = Array.from(strongest.values()).map(lock => ({
+      relation: lock.relation,
+      kind: RELATION_KINDS[lock.relkind] ?? lock.relkind,
+      mode: lock.mode,
+      blocks: LOCK_IMPACT[lock.mode] ?? 'desconocido',
+      existing: true
+    }));
+
+    const after = await captureSchemaSnapshots(client, schemas);
+    before.forEach((snapshot, i) => {
+      const diff = diffSchemas(snapshot, after[i]!);
+      for (const change of diff.changes) {
+        const entry = { schema: snapshot.schema, ...change };
+        if (change.action === 'added') {
+          preview.created.push(entry);
+        } else if (change.action === 'removed') {
+          preview.dropped.push(entry);
+        } else {
+          preview.altered.push(entry);
+        }
+      }
+    });
+
+    preview.ok = true;
+  } finally {
+    await client.query('ROLLBACK');
+  }
+
+  // Tras revertir, las relaciones creadas por la migración ya no existen
+  if (lockedOids.length > 0) {
+    const existing = await client.query('SELECT oid::text AS oid FROM pg_class WHERE oid = ANY($1::oid[]);', [lockedOids]);
+    const existingOids = new Set(existing.rows.map(row => row.oid));
+    preview.locks = preview.locks
+      .map((lock, i) => ({ ...lock, existing: existingOids.has(lockedOids[i]) }))
+      .sort((a, b) => LOCK_STRENGTH.indexOf(a.mode) - LOCK_STRENGTH.indexOf(b.mode));
+  }
+
+  return preview;
+};
@@ -0,0 +1,196 @@
+import { Queryable } from './introspection.js';
+import { qualifiedName, quoteIdentifier } from './sql.js';
+
+export type PolicyCommand = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'ALL';
+
+export type PolicyChange = 'alter' | 'recreate' | 'delete' | 'revert';
+
+export interface PolicyDefinition {
+  schema: string;
+  table: string;
+  name: string;
+  permissive: boolean;
+  command: PolicyCommand;
+  roles: string[];
+  using: string | null;
+  withCheck: string | null;
+}
+
+// Definición que tenía la política antes del cambio registrado
+export interface PolicyHistoryEntry extends PolicyDefinition {
+  id: number;
+  change: PolicyChange;
+  changedAt: string;
+}
+
+export const ensurePolicyHistory = async (client: Queryable): Promise<void> => {
+  await client.query(`
+    CREATE SCHEMA IF NOT EXISTS supabase_migrations;
+    CREATE TABLE IF NOT EXISTS supabase_migrations.mcp_policy_history (
+      id BIGSERIAL PRIMARY KEY,
+      schema_name TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      policy_name TEXT NOT NULL,
+      permissive BOOLEAN NOT NULL,
+      command TEXT NOT NULL,
+      roles TEXT[] NOT NULL,
+      using_expression TEXT,
+      with_check_expression TEXT,
+      change TEXT NOT NULL CHECK (change IN ('alter', 'recreate', 'delete', 'revert')),
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+};
+
+export const getPolicyDefinition = async (
+  client: Queryable,
+  schema: string,
+  table: string,
+  name: string
+): Promise<PolicyDefinition | null> => {
+  const result = await client.query<{
+    permissive: boolean;
+    command: PolicyCommand;
+    roles: string[];
+    qual: string | null;
+    with_check: string | null;
+  }>(
+    `SELECT permissive = 'PERMISSIVE' AS permissive, cmd AS command, roles::text[] AS roles, qual, with_check
+     FROM pg_policies
+     WHERE schemaname = $1 AND tablename = $2 AND policyname = $3;`,
+    [schema, table, name]
+  );
+  const row = result.rows[0];
+  return row
+    ? { schema, table, name, permissive: row.permissive, command: row.command, roles: row.roles, using: row.qual, withCheck: row.with_check }
+    : null;
+};
+
+export const recordPolicyVersion = async (client: Queryable, definition: PolicyDefinition, change: PolicyChange): Promise<number> => {
+  const result = await client.query<{ id: string }>(
+    `INSERT INTO supabase_migrations.mcp_policy_history
+       (schema_name, table_name, policy_name, permissive, command, roles, using_expression, with_check_expression, change)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id;`,
+    [
+      definition.schema,
+      definition.table,
+      definition.name,
+      definition.permissive,
+      definition.command,
+      definition.roles,
+      definition.using,
+      definition.withCheck,
+      change
+    ]
+  );
+  return Number(result.rows[0]!.id);
+};
+
+interface PolicyHistoryRow {
+  id: string;
+  schema_name: string;
+  table_name: string;
+  policy_name: string;
+  permissive: boolean;
+  command: PolicyCommand;
+  roles: string[];
+  using_expression: string | null;
+  with_check_expression: string | null;
+  change: PolicyChange;
+  changed_at: Date | string;
+}
+
+const toHistoryEntry = (row: PolicyHistoryRow): PolicyHistoryEntry => ({
+  id: Number(row.id),
+  schema: row.schema_name,
+  table: row.table_name,
+  name: row.policy_name,
+  permissive: row.permissive,
+  command: row.command,
+  roles: row.roles,
+  using: row.using_expression,
+  withCheck: row.with_check_expression,
+  change: row.change,
+  changedAt: row.changed_at instanceof Date ? row.changed_at.toISOString() : String(row.changed_at)
+});
+
+export const listPolicyHistory = async (
+  client: Queryable,
+  schema: string,
+  table?: string,
+  name?: string
+): Promise<PolicyHistoryEntry[]> => {
+  const exists = await client.query<{ exists: boolean }>(
+    `SELECT to_regclass('supabase_migrations.mcp_policy_history') IS NOT NULL AS exists;`
+  );
+  if (!exists.rows[0]?.exists) {
+    return [];
+  }
+  const result = await client.query<PolicyHistoryRow>(
+    `SELECT * FROM supabase_migrations.mcp_policy_history
+     WHERE schema_name = $1 AND ($2::text IS NULL OR table_name = $2) AND ($3::text IS NULL OR policy_name = $3)
+     ORDER BY id DESC;`,
+    [schema, table ?? null, name ?? null]
+  );
+  return result.rows.map(toHistoryEntry);
+};
+
+export const getPolicyHistoryEntry = async (client: Queryable, id: number): Promise<PolicyHistoryEntry | null> => {
+  const result = await client.query<PolicyHistoryRow>('SELECT * FROM supabase_migrations.mcp_policy_history WHERE id = $1;', [id]);
+  return result.rows[0] ? toHistoryEntry(result.rows[0]) : null;
+};
+
+const rolesSQL = (roles: string[]): string => roles.map(role => (role === 'public' ? 'public' : quoteIdentifier(role))).join(', ');
+
+export const createPolicySQL = (definition: PolicyDefinition): string => {
+  let sql = `CREATE POLICY ${quoteIdentifier(definition.name)} ON ${qualifiedName(definition.schema, definition.table)}`;
+  if (!definition.permissive) {
+    sql += ' AS RESTRICTIVE';
+  }
+  sql += ` FOR ${definition.command} TO ${rolesSQL(definition.roles)}`;
+  if (definition.using) {
+    sql += ` USING (${definition.using})`;
+  }
+  if (definition.withCheck) {
+    sql += ` WITH CHECK (${definition.withCheck})`;
+  }
+  return `${sql};`;
+};
+
+export const dropPolicySQL = (definition: Pick<PolicyDefinition, 'schema' | 'table' | 'name'>): string =>
+  `DROP POLICY ${quoteIdentifier(definition.name)} ON ${qualifiedName(definition.schema, definition.table)};`;
+
+// ALTER POLICY solo cambia roles, USING y WITH CHECK; el comando o el tipo de política obligan a recrearla
+export const alterPolicySQL = (current: PolicyDefinition, next: PolicyDefinition): string[] => {
+  const table = qualifiedName(current.schema, current.table);
+  const clauses: string[] = [];
+  if (next.roles.join(',') !== current.roles.join(',')) {
+    clauses.push(`TO ${rolesSQL(next.roles)}`);
+  }
+  if (next.using !== current.using && next.using) {
+    clauses.push(`USING (${next.using})`);
+  }
+  if (next.withCheck !== current.withCheck && next.withCheck) {
+    clauses.push(`WITH CHECK (${next.withCheck})`);
+  }
+
+  const statements = clauses.length > 0 ? [`ALTER POLICY ${quoteIdentifier(current.name)} ON ${table} ${clauses.join(' ')};`] : [];
+  if (next.name !== current.name) {
+    statements.push(`ALTER POLICY ${quoteIdentifier(current.name)} ON ${table} RENAME TO ${quoteIdentifier(next.name)};`);
+  }
+  return statements;
+};
+
+// Al cambiar de comando, las expresiones que el nuevo comando no admite pasan a la cláusula que sí admite
+export const adaptToCommand = (definition: PolicyDefinition): PolicyDefinition => {
+  switch (definition.command) {
+    case 'INSERT':
+      return { ...definition, using: null, withCheck: definition.withCheck ?? definition.using };
+    case 'SELECT':
+    case 'DELETE':
+      return { ...definition, using: definition.using ?? definition.withCheck, withCheck: null };
+    default:
+      return definition;
+  }
+};
@@ -0,0 +1,204 @@
+// Análisis de la salida de EXPLAIN (FORMAT JSON)
+
+export interface PlanBuffers {
+  sharedHit: number;
+  sharedRead: number;
+  sharedDirtied: number;
+  sharedWritten: number;
+  tempRead: number;
+  tempWritten: number;
+}
+
+export interface PlanNode {
+  nodeType: string;
+  relation?: string;
+  schema?: string;
+  alias?: string;
+  indexName?: string;
+  joinType?: string;
+  startupCost: number;
+  totalCost: number;
+  planRows: number;
+  actualRows?: number;
+  actualLoops?: number;
+  actualTotalTimeMs?: number;
+  filter?: string;
+  indexCond?: string;
+  rowsRemovedByFilter?: number;
+  buffers?: PlanBuffers;
+  children: PlanNode[];
+}
+
+export interface ParsedPlan {
+  root: PlanNode;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  triggers?: { name: string; relation?: string; timeMs: number; calls: number }[];
+}
+
+export interface SeqScanFinding {
+  schema: string;
+  table: string;
+  filter?: string;
+  planRows: number;
+  actualRows?: number;
+  rowsRemovedByFilter?: number;
+  filterColumns: string[];
+}
+
+type RawPlanNode = Record<string, unknown>;
+
+const num = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+const str = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const parseBuffers = (raw: RawPlanNode): PlanBuffers | undefined => {
+  if (num(raw['Shared Hit Blocks']) === undefined) {
+    return undefined;
+  }
+  return {
+    sharedHit: num(raw['Shared Hit Blocks']) ?? 0,
+    sharedRead: num(raw['Shared Read Blocks']) ?? 0,
+    sharedDirtied: num(raw['Shared Dirtied Blocks']) ?? 0,
+    sharedWritten: num(raw['Shared Written Blocks']) ?? 0,
+    tempRead: num(raw['Temp Read Blocks']) ?? 0,
+    tempWritten: num(raw['Temp Written Blocks']) ?? 0
+  };
+};
+
+const parseNode = (raw: RawPlanNode): PlanNode => {
+  const node: PlanNode = {
+    nodeType: str(raw['Node Type']) ?? 'Unknown',
+    startupCost: num(raw['Startup Cost']) ?? 0,
+    totalCost: num(raw['Total Cost']) ?? 0,
+    planRows: num(raw['Plan Rows']) ?? 0,
+    children: ((raw['Plans'] as RawPlanNode[] | undefined) ?? []).map(parseNode)
+  };
+
+  const optional: [keyof PlanNode, unknown][] = [
+    ['relation', str(raw['Relation Name'])],
+    ['schema', str(raw['Schema'])],
+    ['alias', str(raw['Alias'])],
+    ['indexName', str(raw['Index Name'])],
+    ['joinType', str(raw['Join Type'])],
+    ['actualRows', num(raw['Actual Rows'])],
+    ['actualLoops', num(raw['Actual Loops'])],
+    ['actualTotalTimeMs', num(raw['Actual Total Time'])],
+    ['filter', str(raw['Filter']) ?? str(raw['Join Filter'])],
+    ['indexCond', str(raw['Index Cond']) ?? str(raw['Recheck Cond'])],
+    ['rowsRemovedByFilter', num(raw['Rows Removed by Filter'])],
+    ['buffers', parseBuffers(raw)]
+  ];
+  for (const [key, value] of optional) {
+    if (value !== undefined) {
+      (node as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return node;
+};
+
+export const parseExplainOutput = (output: unknown): ParsedPlan => {
+  const [entry] = (Array.isArray(output) ? output : [output]) as RawPlanNode[];
+  if (!entry || typeof entry['Plan'] !== 'object') {
+    throw new Error('Salida de EXPLAIN inesperada');
+  }
+
+  const parsed: ParsedPlan = { root: parseNode(entry['Plan'] as RawPlanNode) };
+  const planningTime = num(entry['Planning Time']);
+  const executionTime = num(entry['Execution Time']);
+  if (planningTime !== undefined) parsed.planningTimeMs = planningTime;
+  if (executionTime !== undefined) parsed.executionTimeMs = executionTime;
+
+  const triggers = entry['Triggers'] as RawPlanNode[] | undefined;
+  if (triggers && triggers.length > 0) {
+    parsed.triggers = triggers.map(trigger => {
+      const relation = str(trigger['Relation']);
+      return {
+        name: str(trigger['Trigger Name']) ?? '',
+        ...(relation ? { relation } : {}),
+        timeMs: num(trigger['Time']) ?? 0,
+        calls: num(trigger['Calls']) ?? 0
+      };
+    });
+  }
+
+  return parsed;
+};
+
+export const walkPlan = (node: PlanNode, visit: (node: PlanNode) => void): void => {
+  visit(node);
+  for (const child of node.children) {
+    walkPlan(child, visit);
+  }
+};
+
+// Columnas comparadas en un filtro, con las igualdades primero (mejor prefijo para un índice btree)
+export const extractFilterColumns = (filter: string): string[] => {
+  const equality: string[] = [];
+  const range: string[] = [];
+  const pattern = /(?:^|[\s(])(?:[a-z_][a-z0-9_]*\.)?"?([a-z_][a-z0-9_]*)"?(?:\)?::[a-z ]+)?\s*(=\s*ANY|=|<>|!=|<=|>=|<|>|~~\*?|IS\s+(?:NOT\s+)?NULL)/gi;
+
+  for (const match of filter.matchAll(pattern)) {
+    const column = match[1]!;
+    const operator = match[2]!.toUpperCase();
+    if (/^(AND|OR|NOT|NULL|TRUE|FALSE)$/i.test(column)) {
+      continue;
+    }
+    if (operator === '<>' || operator === '!=') {
+      continue;
+    }
+    const bucket = operator.startsWith('=') ? equality : range;
+    if (!equality.includes(column) && !range.includes(column)) {
+      bucket.push(column);
+    }
+  }
+
+  return [...equality, ...range];
+};
+
+// Escaneos secuenciales sobre relaciones con al menos `minRows` filas estimadas
+export const findSeqScans = (plan: ParsedPlan, tableRows: Map<string, number>, minRows: number, defaultSchema: string): SeqScanFinding[] => {
+  const findings: SeqScanFinding[] = [];
+
+  walkPlan(plan.root, node => {
+    if (node.nodeType !== 'Seq Scan' || !node.relation) {
+      return;
+    }
+    const schema = node.schema ?? defaultSchema;
+    const rows = tableRows.get(`${schema}.${node.relation}`) ?? 0;
+    if (rows < minRows) {
+      return;
+    }
+
+    const finding: SeqScanFinding = {
+      schema,
+      table: node.relation,
+      planRows: node.planRows,
+      filterColumns: node.filter ? extractFilterColumns(node.filter) : []
+    };
+    if (node.filter) finding.filter = node.filter;
+    if (node.actualRows !== undefined) finding.actualRows = node.actualRows;
+    if (node.rowsRemovedByFilter !== undefined) finding.rowsRemovedByFilter = node.rowsRemovedByFilter;
+    findings.push(finding);
+  });
+
+  return findings;
+};
+
+// Nodos cuya estimación de filas se desvía más de `factor` veces de las filas reales
+export const findMisestimates = (plan: ParsedPlan, factor = 10): PlanNode[] => {
+  const nodes: PlanNode[] = [];
+
+  walkPlan(plan.root, node => {
+    if (node.actualRows === undefined) {
+      return;
+    }
+    const estimated = Math.max(node.planRows, 1);
+    const actual = Math.max(node.actualRows, 1);
+    if (estimated / actual >= factor || actual / estimated >= factor) {
+      nodes.push(node);
+    }
+  });
+
+  return nodes;
+};
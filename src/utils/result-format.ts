@@ -0,0 +1,81 @@
+export type ResultFormat = 'json' | 'csv' | 'ndjson';
+
+export interface FormattedRows {
+  // Filas (json) o texto (csv / ndjson)
+  data: Record<string, unknown>[] | string;
+  count: number;
+  bytes: number;
+  truncated: boolean;
+}
+
+const serializeValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+};
+
+const normalizeRow = (row: Record<string, unknown>): Record<string, unknown> => {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    normalized[key] = serializeValue(value);
+  }
+  return normalized;
+};
+
+const csvCell = (value: unknown): string => {
+  const serialized = serializeValue(value);
+  if (serialized === null || serialized === undefined) {
+    return '';
+  }
+  const text = typeof serialized === 'object' ? JSON.stringify(serialized) : String(serialized);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serializar filas en el formato pedido sin superar maxBytes; las filas que no caben se descartan
+export const formatRows = (rows: Record<string, unknown>[], columns: string[], format: ResultFormat, maxBytes: number): FormattedRows => {
+  const lines: string[] = [];
+  const jsonRows: Record<string, unknown>[] = [];
+  let bytes = 0;
+
+  if (format === 'csv') {
+    const header = columns.map(csvCell).join(',');
+    lines.push(header);
+    bytes += Buffer.byteLength(header) + 1;
+  }
+
+  let count = 0;
+  for (const row of rows) {
+    const normalized = normalizeRow(row);
+    const line = format === 'csv'
+      ? columns.map(col => csvCell(row[col])).join(',')
+      : JSON.stringify(normalized);
+    const lineBytes = Buffer.byteLength(line) + 1;
+
+    // Siempre se devuelve al menos una fila para que la paginación avance
+    if (count > 0 && bytes + lineBytes > maxBytes) {
+      break;
+    }
+
+    bytes += lineBytes;
+    count++;
+    if (format === 'json') {
+      jsonRows.push(normalized);
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return {
+    data: format === 'json' ? jsonRows : lines.join('\n'),
+    count,
+    bytes,
+    truncated: count < rows.length
+  };
+};
@@ -0,0 +1,233 @@
+import { Queryable } from './introspection.js';
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type AuditRule =
+  | 'rls-disabled'
+  | 'rls-without-policies'
+  | 'policy-open-to-anon'
+  | 'rls-not-forced'
+  | 'security-definer-exposed'
+  | 'view-bypasses-rls';
+
+export interface AuditFinding {
+  severity: AuditSeverity;
+  rule: AuditRule;
+  object: string;
+  message: string;
+  recommendation: string;
+}
+
+export interface RLSAudit {
+  schemas: string[];
+  summary: Record<AuditSeverity, number> & { tables: number; functions: number; views: number };
+  findings: AuditFinding[];
+}
+
+const SEVERITY_ORDER: AuditSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Roles con los que PostgREST atiende las peticiones de clientes
+const API_ROLES = ['anon', 'authenticated'];
+
+const WRITE_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'ALL']);
+
+const isTrueExpression = (expression: string | null): boolean =>
+  expression !== null && expression.replace(/[()\s]/g, '').toLowerCase() === 'true';
+
+// Excluir los objetos que pertenecen a extensiones: no se gestionan desde las migraciones
+const NOT_EXTENSION_MEMBER = (column: string) =>
+  `NOT EXISTS (SELECT 1 FROM pg_depend e WHERE e.objid = ${column} AND e.deptype = 'e')`;
+
+const auditTables = async (client: Queryable, schemas: string[], findings: AuditFinding[]): Promise<number> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name,
+            c.relrowsecurity AS rls_enabled, c.relforcerowsecurity AS rls_forced,
+            (SELECT count(*)::int FROM pg_policy p WHERE p.polrelid = c.oid) AS policies,
+            has_table_privilege('anon', c.oid, 'SELECT,INSERT,UPDATE,DELETE') AS anon_access,
+            has_table_privilege('authenticated', c.oid, 'SELECT,INSERT,UPDATE,DELETE') AS authenticated_access
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = ANY($1)
+       AND c.relkind IN ('r', 'p')
+       AND NOT c.relispartition
+       AND ${NOT_EXTENSION_MEMBER('c.oid')}
+     ORDER BY 1, 2;`,
+    [schemas]
+  );
+
+  for (const table of result.rows) {
+    const object = `${table.schema}.${table.name}`;
+
+    if (!table.rls_enabled) {
+      const exposedTo = [table.anon_access ? 'anon' : null, table.authenticated_access ? 'authenticated' : null].filter(Boolean);
+      findings.push({
+        severity: table.anon_access ? 'critical' : table.authenticated_access ? 'high' : 'low',
+        rule: 'rls-disabled',
+        object,
+        message: exposedTo.length > 0
+          ? `RLS deshabilitado y con privilegios para ${exposedTo.join(' y ')}: cualquier cliente de la API puede leer o modificar todas las filas`
+          : 'RLS deshabilitado; hoy ningún rol de la API tiene privilegios sobre la tabla',
+        recommendation: `ALTER TABLE ${object} ENABLE ROW LEVEL SECURITY; y crea las políticas necesarias`
+      });
+      continue;
+    }
+
+    if (table.policies === 0) {
+      findings.push({
+        severity: 'low',
+        rule: 'rls-without-policies',
+        object,
+        message: 'RLS habilitado sin políticas: la API no puede acceder a ninguna fila',
+        recommendation: 'Crea las políticas que necesiten los clientes o revoca los privilegios de anon y authenticated si es intencionado'
+      });
+    }
+
+    if (!table.rls_forced) {
+      findings.push({
+        severity: 'low',
+        rule: 'rls-not-forced',
+        object,
+        message: 'Sin FORCE ROW LEVEL SECURITY: el propietario de la tabla, y las funciones SECURITY DEFINER que le pertenecen, ignoran las políticas',
+        recommendation: `ALTER TABLE ${object} FORCE ROW LEVEL SECURITY;`
+      });
+    }
+  }
+
+  return result.rows.length;
+};
+
+const auditPolicies = async (client: Queryable, schemas: string[], findings: AuditFinding[]): Promise<void> => {
+  const result = await client.query(
+    `SELECT schemaname AS schema, tablename AS table, policyname AS name, cmd AS command,
+            roles::text[] AS roles, qual, with_check
+     FROM pg_policies
+     WHERE schemaname = ANY($1) AND permissive = 'PERMISSIVE'
+     ORDER BY 1, 2, 3;`,
+    [schemas]
+  );
+
+  for (const policy of result.rows) {
+    const roles: string[] = policy.roles;
+    if (!roles.includes('anon') && !roles.includes('public')) {
+      continue;
+    }
+    // En INSERT solo cuenta WITH CHECK; en el resto USING (y WITH CHECK toma su valor si se omite)
+    const openRows = policy.command === 'INSERT' ? false : isTrueExpression(policy.qual);
+    const openWrites = policy.command === 'INSERT'
+      ? isTrueExpression(policy.with_check)
+      : policy.command !== 'SELECT' && policy.command !== 'DELETE' && openRows && (policy.with_check === null || isTrueExpression(policy.with_check));
+    if (!openRows && !openWrites) {
+      continue;
+    }
+
+    const object = `${policy.schema}.${policy.table}`;
+    findings.push({
+      severity: WRITE_COMMANDS.has(policy.command) ? 'critical' : 'high',
+      rule: 'policy-open-to-anon',
+      object,
+      message: `La política '${policy.name}' (${policy.command}) permite a ${roles.includes('public') ? 'public (incluido anon)' : 'anon'} acceder a todas las filas sin condición`,
+      recommendation: `Restringe la política a authenticated o añade una condición (p. ej. auth.uid() = user_id) con alter_rls_policy`
+    });
+  }
+};
+
+const auditFunctions = async (client: Queryable, schemas: string[], findings: AuditFinding[]): Promise<number> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, p.proname AS name, pg_get_function_identity_arguments(p.oid) AS arguments,
+            COALESCE(p.proconfig, '{}') AS config
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE n.nspname = ANY($1)
+       AND p.prosecdef
+       AND has_function_privilege('anon', p.oid, 'EXECUTE')
+       AND ${NOT_EXTENSION_MEMBER('p.oid')}
+     ORDER BY 1, 2;`,
+    [schemas]
+  );
+
+  for (const fn of result.rows) {
+    const signature = `${fn.schema}.${fn.name}(${fn.arguments})`;
+    const pinnedPath = (fn.config as string[]).some(setting => setting.startsWith('search_path='));
+    findings.push({
+      severity: pinnedPath ? 'high' : 'critical',
+      rule: 'security-definer-exposed',
+      object: signature,
+      message: pinnedPath
+        ? 'Función SECURITY DEFINER ejecutable por anon: se ejecuta con los privilegios de su propietario e ignora RLS'
+        : 'Función SECURITY DEFINER ejecutable por anon y sin search_path fijo: además de ignorar RLS, se puede secuestrar con objetos en otro esquema',
+      recommendation: `REVOKE EXECUTE ON FUNCTION ${signature} FROM anon, public;${pinnedPath ? '' : ` y ALTER FUNCTION ${signature} SET search_path = '';`} o conviértela en SECURITY INVOKER`
+    });
+  }
+
+  return result.rows.length;
+};
+
+const auditViews = async (client: Queryable, schemas: string[], findings: AuditFinding[]): Promise<number> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, c.relkind::text AS kind,
+            COALESCE((SELECT o.option_value FROM pg_options_to_table(c.reloptions) o WHERE o.option_name = 'security_invoker'), 'false')
+              IN ('true', 'on', '1') AS security_invoker,
+            has_table_privilege('anon', c.oid, 'SELECT') AS anon_select,
+            has_table_privilege('authenticated', c.oid, 'SELECT') AS authenticated_select,
+            ARRAY(
+              SELECT DISTINCT dn.nspname || '.' || dc.relname
+              FROM pg_rewrite r
+              JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid AND d.refclassid = 'pg_class'::regclass
+              JOIN pg_class dc ON dc.oid = d.refobjid
+              JOIN pg_namespace dn ON dn.oid = dc.relnamespace
+              WHERE r.ev_class = c.oid AND dc.oid <> c.oid AND dc.relrowsecurity
+            ) AS rls_tables
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = ANY($1)
+       AND c.relkind IN ('v', 'm')
+       AND ${NOT_EXTENSION_MEMBER('c.oid')}
+     ORDER BY 1, 2;`,
+    [schemas]
+  );
+
+  for (const view of result.rows) {
+    const rlsTables: string[] = view.rls_tables;
+    const materialized = view.kind === 'm';
+    if (rlsTables.length === 0 || (!view.anon_select && !view.authenticated_select) || (!materialized && view.security_invoker)) {
+      continue;
+    }
+
+    const object = `${view.schema}.${view.name}`;
+    findings.push({
+      severity: view.anon_select ? 'high' : 'medium',
+      rule: 'view-bypasses-rls',
+      object,
+      message: `${materialized ? 'La vista materializada' : 'La vista'} lee ${rlsTables.join(', ')} con los privilegios de su propietario, así que ${view.anon_select ? 'anon' : 'authenticated'} ve filas que sus políticas RLS ocultarían`,
+      recommendation: materialized
+        ? `REVOKE SELECT ON ${object} FROM anon, authenticated; y expón los datos con una vista security_invoker o una función`
+        : `ALTER VIEW ${object} SET (security_invoker = true); (PostgreSQL 15+) o revoca SELECT a los roles de la API`
+    });
+  }
+
+  return result.rows.length;
+};
+
+// Revisar tablas, políticas, funciones y vistas de los esquemas expuestos por la API
+export const auditRLS = async (client: Queryable, schemas: string[]): Promise<RLSAudit> => {
+  const roles = await client.query('SELECT rolname FROM pg_roles WHERE rolname = ANY($1);', [API_ROLES]);
+  if (roles.rows.length < API_ROLES.length) {
+    throw new Error(`Faltan los roles de la API de Supabase (${API_ROLES.join(', ')}); no se puede auditar el acceso`);
+  }
+
+  const findings: AuditFinding[] = [];
+  const tables = await auditTables(client, schemas, findings);
+  await auditPolicies(client, schemas, findings);
+  const functions = await auditFunctions(client, schemas, findings);
+  const views = await auditViews(client, schemas, findings);
+
+  findings.sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.object.localeCompare(b.object));
+
+  const summary = { critical: 0, high: 0, medium: 0, low: 0, tables, functions, views };
+  for (const finding of findings) {
+    summary[finding.severity]++;
+  }
+
+  return { schemas, summary, findings };
+};
@@ -0,0 +1,230 @@
+import { Queryable } from './introspection.js';
+import { qualifiedName, quoteIdentifier } from './sql.js';
+
+export type RLSCommand = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type RLSAccessStatus = 'allow' | 'partial' | 'deny' | 'untested' | 'error';
+
+export interface SimulatedIdentity {
+  role: string;
+  userId: string | null;
+  claims: Record<string, unknown>;
+}
+
+export interface SimulationError {
+  message: string;
+  code?: string;
+}
+
+export interface RLSAccessCell {
+  status: RLSAccessStatus;
+  // Filas afectadas o visibles para el rol frente a las de la muestra
+  rows?: number;
+  of?: number;
+  error?: SimulationError;
+  note?: string;
+}
+
+export const RLS_COMMANDS: RLSCommand[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Errores de PostgreSQL que indican que el rol no tiene acceso (privilegios o políticas)
+const DENIED_CODES = new Set(['42501']);
+// Escritura rechazada por la transacción de solo lectura del modo SUPABASE_READ_ONLY
+const READ_ONLY_CODE = '25006';
+
+export const toSimulationError = (error: unknown): SimulationError => {
+  const pgError = error as Error & { code?: string };
+  return pgError.code ? { message: pgError.message, code: pgError.code } : { message: pgError.message };
+};
+
+// Rol y claims del JWT que PostgREST establecería para la petición
+export const resolveIdentity = async (
+  client: Queryable,
+  role: string,
+  extraClaims: Record<string, unknown> = {}
+): Promise<SimulatedIdentity> => {
+  if (UUID_REGEX.test(role)) {
+    const claims: Record<string, unknown> = { sub: role, role: 'authenticated', aud: 'authenticated' };
+    const authUsers = await client.query(`SELECT to_regclass('auth.users') IS NOT NULL AS exists;`);
+    if (authUsers.rows[0].exists) {
+      const user = await client.query(
+        'SELECT email, phone, raw_app_meta_data, raw_user_meta_data FROM auth.users WHERE id = $1;',
+        [role]
+      );
+      if (!user.rows[0]) {
+        throw new Error(`Usuario ${role} no encontrado en auth.users`);
+      }
+      const { email, phone, raw_app_meta_data: appMetadata, raw_user_meta_data: userMetadata } = user.rows[0];
+      Object.assign(claims, { email, phone, app_metadata: appMetadata ?? {}, user_metadata: userMetadata ?? {} });
+    }
+    return { role: 'authenticated', userId: role, claims: { ...claims, ...extraClaims } };
+  }
+
+  if (!/^[A-Za-z_][\w$]*$/.test(role)) {
+    throw new Error(`Rol inválido: ${role}; usa un nombre de rol o el UUID de un usuario`);
+  }
+  const exists = await client.query('SELECT 1 FROM pg_roles WHERE rolname = $1;', [role]);
+  if (exists.rows.length === 0) {
+    throw new Error(`El rol ${role} no existe`);
+  }
+  return { role, userId: null, claims: { role, ...extraClaims } };
+};
+
+// Ejecutar fn como el rol indicado dentro de un savepoint que siempre se revierte
+export const withSimulatedRole = async <T>(client: Queryable, identity: SimulatedIdentity, fn: () => Promise<T>): Promise<T> => {
+  await client.query('SAVEPOINT rls_simulation');
+  try {
+    // Los claims sueltos (request.jwt.claim.*) los usan versiones antiguas de auth.uid()
+    await client.query(
+      `SELECT set_config('request.jwt.claims', $1, true),
+              set_config('request.jwt.claim.sub', $2, true),
+              set_config('request.jwt.claim.role', $3, true);`,
+      [JSON.stringify(identity.claims), identity.userId ?? '', identity.role]
+    );
+    await client.query(`SET LOCAL ROLE ${quoteIdentifier(identity.role)}`);
+    return await fn();
+  } finally {
+    await client.query('ROLLBACK TO SAVEPOINT rls_simulation');
+  }
+};
+
+const errorCell = (error: unknown): RLSAccessCell => {
+  const simulationError = toSimulationError(error);
+  if (simulationError.code === READ_ONLY_CODE) {
+    return { status: 'untested', error: simulationError, note: 'Modo de solo lectura: las escrituras no se pueden simular' };
+  }
+  return { status: simulationError.code && DENIED_CODES.has(simulationError.code) ? 'deny' : 'error', error: simulationError };
+};
+
+const countedCell = (rows: number, of: number): RLSAccessCell => ({
+  status: rows === 0 ? 'deny' : rows < of ? 'partial' : 'allow',
+  rows,
+  of
+});
+
+export interface RLSTableSample {
+  schema: string;
+  table: string;
+  // Filas de la muestra, como texto de un array de tid para reutilizarlas como parámetro
+  ctids: string;
+  size: number;
+  // Columna usada en el UPDATE de prueba (SET col = col)
+  updateColumn: string | null;
+}
+
+// Muestra de filas elegida sin RLS, la misma para todos los roles
+export const sampleTable = async (client: Queryable, schema: string, table: string, limit: number): Promise<RLSTableSample> => {
+  const name = qualifiedName(schema, table);
+  const sample = await client.query(
+    `SELECT COALESCE(array_agg(ctid), '{}')::text AS ctids, count(*)::int AS size FROM (SELECT ctid FROM ${name} LIMIT $1) s;`,
+    [limit]
+  );
+  const column = await client.query(
+    `SELECT a.attname
+     FROM pg_attribute a
+     WHERE a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''
+     ORDER BY a.attnum
+     LIMIT 1;`,
+    [name]
+  );
+  return {
+    schema,
+    table,
+    ctids: sample.rows[0].ctids,
+    size: sample.rows[0].size,
+    updateColumn: column.rows[0]?.attname ?? null
+  };
+};
+
+// Sin una fila de ejemplo el INSERT solo se evalúa con los privilegios y las políticas
+const insertCellFromPolicies = async (client: Queryable, sample: RLSTableSample, identity: SimulatedIdentity): Promise<RLSAccessCell> => {
+  const name = qualifiedName(sample.schema, sample.table);
+  const result = await client.query(
+    `SELECT has_table_privilege($1, to_regclass($2), 'INSERT') AS privileged,
+            c.relrowsecurity AS rls_enabled,
+            r.rolbypassrls AS bypass,
+            (SELECT array_agg(COALESCE(p.with_check, p.qual, 'true'))
+             FROM pg_policies p
+             WHERE p.schemaname = $3 AND p.tablename = $4
+               AND p.permissive = 'PERMISSIVE'
+               AND p.cmd IN ('INSERT', 'ALL')
+               AND (p.roles && ARRAY[$1::name, 'public'::name])) AS checks
+     FROM pg_class c, pg_roles r
+     WHERE c.oid = to_regclass($2) AND r.rolname = $1;`,
+    [identity.role, name, sample.schema, sample.table]
+  );
+  const row = result.rows[0];
+  if (!row?.privileged) {
+    return { status: 'deny', note: `El rol ${identity.role} no tiene el privilegio INSERT` };
+  }
+  if (!row.rls_enabled || row.bypass) {
+    return { status: 'allow', note: 'Sin RLS para este rol: basta con el privilegio INSERT' };
+  }
+  const checks: string[] = row.checks ?? [];
+  if (checks.length === 0) {
+    return { status: 'deny', note: 'RLS habilitado sin políticas permisivas de INSERT para el rol' };
+  }
+  if (checks.includes('true')) {
+    return { status: 'allow', note: 'Una política permisiva admite cualquier fila' };
+  }
+  return { status: 'untested', note: `Depende de WITH CHECK (${checks.join(') OR (')}); pasa row para probar una fila concreta` };
+};
+
+// Acceso de un rol a cada comando sobre la tabla; cada prueba se revierte
+export const simulateTableAccess = async (
+  client: Queryable,
+  sample: RLSTableSample,
+  identity: SimulatedIdentity,
+  row?: Record<string, unknown>
+): Promise<Record<RLSCommand, RLSAccessCell>> => {
+  const name = qualifiedName(sample.schema, sample.table);
+  const attempt = async (run: () => Promise<RLSAccessCell>): Promise<RLSAccessCell> => {
+    try {
+      return await withSimulatedRole(client, identity, run);
+    } catch (error) {
+      return errorCell(error);
+    }
+  };
+  const emptyNote = 'La tabla está vacía: no hay filas con las que probar';
+
+  const select = await attempt(async () => {
+    const result = await client.query(`SELECT count(*)::int AS visible FROM ${name} WHERE ctid = ANY($1::tid[]);`, [sample.ctids]);
+    return sample.size === 0 ? { status: 'allow', rows: 0, of: 0, note: emptyNote } : countedCell(result.rows[0].visible, sample.size);
+  });
+
+  let insert: RLSAccessCell;
+  if (row) {
+    const columns = Object.keys(row);
+    insert = await attempt(async () => {
+      await client.query(
+        `INSERT INTO ${name} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')});`,
+        columns.map(col => {
+          const value = row[col];
+          return value !== null && typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value) : value;
+        })
+      );
+      return { status: 'allow', rows: 1, of: 1 };
+    });
+  } else {
+    insert = await insertCellFromPolicies(client, sample, identity);
+  }
+
+  const update = sample.size === 0 || !sample.updateColumn
+    ? { status: 'untested' as const, note: emptyNote }
+    : await attempt(async () => {
+      const column = quoteIdentifier(sample.updateColumn!);
+      const result = await client.query(`UPDATE ${name} SET ${column} = ${column} WHERE ctid = ANY($1::tid[]);`, [sample.ctids]);
+      return countedCell(result.rowCount ?? 0, sample.size);
+    });
+
+  const remove = sample.size === 0
+    ? { status: 'untested' as const, note: emptyNote }
+    : await attempt(async () => {
+      const result = await client.query(`DELETE FROM ${name} WHERE ctid = ANY($1::tid[]);`, [sample.ctids]);
+      return countedCell(result.rowCount ?? 0, sample.size);
+    });
+
+  return { SELECT: select, INSERT: insert, UPDATE: update, DELETE: remove };
+};
@@ -0,0 +1,128 @@
+import { RLSCommand } from './rls-simulation.js';
+import { quoteIdentifier, quoteLiteral } from './sql.js';
+
+export type RLSTemplate = 'owner-only' | 'public-read-owner-write' | 'team-membership' | 'role-claim' | 'tenant-isolation';
+
+export interface TemplatePolicy {
+  name: string;
+  command: RLSCommand;
+  roles: string[];
+  using: string | null;
+  withCheck: string | null;
+}
+
+export interface MembershipTable {
+  // Nombre cualificado y ya entrecomillado
+  table: string;
+  teamColumn: string;
+  userColumn: string;
+}
+
+export interface TemplateParams {
+  prefix: string;
+  ownerColumn: string;
+  teamColumn: string;
+  membership: MembershipTable | null;
+  claimPath: string[];
+  claimValues: string[];
+  tenantColumn: string;
+  // Tipo de la columna de tenant, al que se convierte el claim
+  tenantType: string;
+}
+
+export const DEFAULT_CLAIMS: Partial<Record<RLSTemplate, string>> = {
+  'role-claim': 'app_metadata.role',
+  'tenant-isolation': 'app_metadata.tenant_id'
+};
+
+// (SELECT ...) hace que PostgreSQL evalúe auth.uid() una vez por consulta y no por fila
+const CURRENT_USER_ID = '(SELECT auth.uid())';
+
+export const parseClaimPath = (claim: string): string[] => {
+  const path = claim.split('.');
+  if (path.some(segment => !/^[A-Za-z0-9_-]+$/.test(segment))) {
+    throw new Error(`Ruta de claim inválida: ${claim}; usa segmentos separados por puntos (p. ej. app_metadata.role)`);
+  }
+  return path;
+};
+
+const claimExpression = (path: string[]): string => `((SELECT auth.jwt()) #>> '{${path.join(',')}}')`;
+
+// Columnas de la tabla que cada plantilla necesita
+export const templateColumns = (template: RLSTemplate, params: TemplateParams): string[] => {
+  switch (template) {
+    case 'owner-only':
+    case 'public-read-owner-write':
+      return [params.ownerColumn];
+    case 'team-membership':
+      return [params.teamColumn];
+    case 'tenant-isolation':
+      return [params.tenantColumn];
+    case 'role-claim':
+      return [];
+  }
+};
+
+// Una política por comando con la misma condición en USING y WITH CHECK
+const perCommand = (prefix: string, suffix: string, roles: string[], condition: string): TemplatePolicy[] => [
+  { name: `${prefix}_${suffix}_select`, command: 'SELECT', roles, using: condition, withCheck: null },
+  { name: `${prefix}_${suffix}_insert`, command: 'INSERT', roles, using: null, withCheck: condition },
+  { name: `${prefix}_${suffix}_update`, command: 'UPDATE', roles, using: condition, withCheck: condition },
+  { name: `${prefix}_${suffix}_delete`, command: 'DELETE', roles, using: condition, withCheck: null }
+];
+
+export const buildTemplatePolicies = (template: RLSTemplate, params: TemplateParams): TemplatePolicy[] => {
+  const authenticated = ['authenticated'];
+
+  switch (template) {
+    case 'owner-only':
+      return perCommand(params.prefix, 'owner', authenticated, `${quoteIdentifier(params.ownerColumn)} = ${CURRENT_USER_ID}`);
+
+    case 'public-read-owner-write': {
+      const [, ...writes] = perCommand(params.prefix, 'owner', authenticated, `${quoteIdentifier(params.ownerColumn)} = ${CURRENT_USER_ID}`);
+      return [
+        { name: `${params.prefix}_public_select`, command: 'SELECT', roles: ['anon', 'authenticated'], using: 'true', withCheck: null },
+        ...writes
+      ];
+    }
+
+    case 'team-membership': {
+      if (!params.membership) {
+        throw new Error('La plantilla team-membership necesita membershipTable');
+      }
+      const { table, teamColumn, userColumn } = params.membership;
+      const condition = `${quoteIdentifier(params.teamColumn)} IN (SELECT ${quoteIdentifier(teamColumn)} FROM ${table} WHERE ${quoteIdentifier(userColumn)} = ${CURRENT_USER_ID})`;
+      return perCommand(params.prefix, 'team', authenticated, condition);
+    }
+
+    case 'role-claim': {
+      if (params.claimValues.length === 0) {
+        throw new Error('La plantilla role-claim necesita claimValues');
+      }
+      const claim = claimExpression(params.claimPath);
+      const condition = params.claimValues.length === 1
+        ? `${claim} = ${quoteLiteral(params.claimValues[0]!)}`
+        : `${claim} = ANY (ARRAY[${params.claimValues.map(quoteLiteral).join(', ')}])`;
+      return perCommand(params.prefix, 'role', authenticated, condition);
+    }
+
+    case 'tenant-isolation':
+      return perCommand(
+        params.prefix,
+        'tenant',
+        authenticated,
+        `${quoteIdentifier(params.tenantColumn)} = ${claimExpression(params.claimPath)}::${params.tenantType}`
+      );
+  }
+};
+
+export const templatePolicySQL = (table: string, policy: TemplatePolicy): string => {
+  let sql = `CREATE POLICY ${quoteIdentifier(policy.name)} ON ${table} FOR ${policy.command} TO ${policy.roles.join(', ')}`;
+  if (policy.using) {
+    sql += ` USING (${policy.using})`;
+  }
+  if (policy.withCheck) {
+    sql += ` WITH CHECK (${policy.withCheck})`;
+  }
+  return `${sql};`;
+};
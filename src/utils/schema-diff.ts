@@ -0,0 +1,659 @@
+import {
+  SchemaSnapshot,
+  DatabaseTable,
+  DatabaseColumn,
+  DatabaseView,
+  DatabaseFunction,
+  RLSPolicy,
+  TableIndex,
+  TableTrigger
+} from '../types/supabase.js';
+import { quoteIdentifier, quoteLiteral, qualifiedName } from './sql.js';
+
+export type SchemaObjectType = 'table' | 'column' | 'constraint' | 'index' | 'trigger' | 'policy' | 'rls' | 'comment' | 'view' | 'function';
+export type SchemaChangeAction = 'added' | 'removed' | 'changed';
+
+export interface SchemaChange {
+  objectType: SchemaObjectType;
+  action: SchemaChangeAction;
+  name: string;
+  table?: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface SchemaDiff {
+  identical: boolean;
+  summary: Record<SchemaChangeAction, number>;
+  changes: SchemaChange[];
+  warnings: string[];
+}
+
+export interface SchemaMigration {
+  diff: SchemaDiff;
+  up: string;
+  down: string;
+}
+
+// Restricción normalizada: la definición es la cláusula usada en ADD CONSTRAINT
+interface TableConstraint {
+  name: string;
+  kind: 'primary' | 'unique' | 'check' | 'foreign';
+  definition: string;
+}
+
+// Sentencias agrupadas por fase para respetar las dependencias entre objetos
+interface MigrationPlan {
+  drops: string[];
+  tableDrops: string[];
+  functionDrops: string[];
+  functionCreates: string[];
+  tableCreates: string[];
+  columnChanges: string[];
+  constraintCreates: string[];
+  foreignKeyCreates: string[];
+  viewCreates: string[];
+  triggerCreates: string[];
+  rlsChanges: string[];
+  policyCreates: string[];
+  comments: string[];
+}
+
+const createPlan = (): MigrationPlan => ({
+  drops: [],
+  tableDrops: [],
+  functionDrops: [],
+  functionCreates: [],
+  tableCreates: [],
+  columnChanges: [],
+  constraintCreates: [],
+  foreignKeyCreates: [],
+  viewCreates: [],
+  triggerCreates: [],
+  rlsChanges: [],
+  policyCreates: [],
+  comments: []
+});
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reescribir las referencias cualificadas "esquema." de una definición a otro esquema
+const retargetSQL = (sql: string, fromSchema: string, toSchema: string): string => {
+  if (fromSchema === toSchema) {
+    return sql;
+  }
+  const pattern = new RegExp(`(^|[^\\w$"])${escapeRegExp(quoteIdentifier(fromSchema))}\\.`, 'g');
+  return sql.replace(pattern, `$1${quoteIdentifier(toSchema)}.`);
+};
+
+// Proyectar una foto de esquema sobre otro nombre de esquema para poder compararlas
+export const retargetSnapshot = (snapshot: SchemaSnapshot, schema: string): SchemaSnapshot => {
+  if (snapshot.schema === schema) {
+    return snapshot;
+  }
+  const from = snapshot.schema;
+  const move = (sql: string) => retargetSQL(sql, from, schema);
+  const moveOptional = (sql: string | undefined) => (sql === undefined ? undefined : move(sql));
+
+  const tables = snapshot.tables.map((table): DatabaseTable => ({
+    ...table,
+    schema,
+    columns: table.columns.map(col => {
+      const moved: DatabaseColumn = { ...col };
+      if (col.defaultValue !== undefined) moved.defaultValue = move(col.defaultValue);
+      if (col.generated !== undefined) moved.generated = move(col.generated);
+      return moved;
+    }),
+    foreignKeys: (table.foreignKeys ?? []).map(fk => ({
+      ...fk,
+      ...(fk.referencedSchema === from ? { referencedSchema: schema } : {})
+    })),
+    uniqueConstraints: (table.uniqueConstraints ?? []).map(con => ({ ...con, definition: move(con.definition) })),
+    checkConstraints: (table.checkConstraints ?? []).map(con => ({ ...con, expression: move(con.expression), definition: move(con.definition) })),
+    indexes: (table.indexes ?? []).map(index => {
+      const moved: TableIndex = { ...index, definition: move(index.definition) };
+      const predicate = moveOptional(index.predicate);
+      if (predicate !== undefined) moved.predicate = predicate;
+      return moved;
+    }),
+    triggers: (table.triggers ?? []).map(trigger => ({ ...trigger, function: move(trigger.function), definition: move(trigger.definition) })),
+    policies: (table.policies ?? []).map(policy => {
+      const moved: RLSPolicy = { ...policy, schema };
+      const using = moveOptional(policy.using);
+      const withCheck = moveOptional(policy.withCheck);
+      if (using !== undefined) moved.using = using;
+      if (withCheck !== undefined) moved.withCheck = withCheck;
+      return moved;
+    })
+  }));
+
+  return {
+    schema,
+    tables,
+    views: snapshot.views.map(view => ({ ...view, schema, definition: move(view.definition) })),
+    functions: snapshot.functions.map(fn => ({ ...fn, schema, returns: move(fn.returns), definition: move(fn.definition) }))
+  };
+};
+
+const byKey = <T>(items: T[], key: (item: T) => string): Map<string, T> =>
+  new Map(items.map(item => [key(item), item]));
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const columnList = (columns: string[]): string => columns.map(quoteIdentifier).join(', ');
+
+const tableConstraints = (table: DatabaseTable): TableConstraint[] => {
+  const constraints: TableConstraint[] = [];
+
+  if (table.primaryKey && table.primaryKey.length > 0) {
+    constraints.push({
+      name: table.primaryKeyName ?? `${table.name}_pkey`,
+      kind: 'primary',
+      definition: `PRIMARY KEY (${columnList(table.primaryKey)})`
+    });
+  }
+  for (const con of table.uniqueConstraints ?? []) {
+    constraints.push({ name: con.name, kind: 'unique', definition: con.definition });
+  }
+  for (const con of table.checkConstraints ?? []) {
+    constraints.push({ name: con.name, kind: 'check', definition: con.definition });
+  }
+  for (const fk of table.foreignKeys ?? []) {
+    const referenced = qualifiedName(fk.referencedSchema ?? table.schema, fk.referencedTable);
+    constraints.push({
+      name: fk.name ?? `${table.name}_${fk.columns.join('_')}_fkey`,
+      kind: 'foreign',
+      definition: `FOREIGN KEY (${columnList(fk.columns)}) REFERENCES ${referenced} (${columnList(fk.referencedColumns)})`
+        + ` ON UPDATE ${fk.onUpdate ?? 'NO ACTION'} ON DELETE ${fk.onDelete ?? 'NO ACTION'}`
+    });
+  }
+
+  return constraints;
+};
+
+// Los índices que respaldan una clave primaria o única se gestionan con la restricción
+const standaloneIndexes = (table: DatabaseTable): TableIndex[] => {
+  const constraintNames = new Set(tableConstraints(table).map(con => con.name));
+  return (table.indexes ?? []).filter(index => !index.primary && !constraintNames.has(index.name));
+};
+
+export const columnDefinitionSQL = (column: DatabaseColumn): string => {
+  let definition = `${quoteIdentifier(column.name)} ${column.type}`;
+  if (column.identity) {
+    definition += ` GENERATED ${column.identity} AS IDENTITY`;
+  } else if (column.generated) {
+    definition += ` GENERATED ALWAYS AS (${column.generated}) STORED`;
+  } else if (column.defaultValue) {
+    definition += ` DEFAULT ${column.defaultValue}`;
+  }
+  if (!column.nullable) {
+    definition += ' NOT NULL';
+  }
+  return definition;
+};
+
+// Las columnas serial dependen de una secuencia que hay que crear antes
+const sequenceForDefault = (column: DatabaseColumn): string | null => {
+  const match = column.defaultValue?.match(/^nextval\('([^']+)'::regclass\)$/);
+  return match?.[1] ?? null;
+};
+
+const policySQL = (policy: RLSPolicy, table: string): string => {
+  let sql = `CREATE POLICY ${quoteIdentifier(policy.name)} ON ${table}`;
+  sql += policy.permissive ? ' AS PERMISSIVE' : ' AS RESTRICTIVE';
+  sql += ` FOR ${policy.command}`;
+  if (policy.roles.length > 0) {
+    sql += ` TO ${policy.roles.map(role => (role === 'public' ? 'PUBLIC' : quoteIdentifier(role))).join(', ')}`;
+  }
+  if (policy.using) {
+    sql += ` USING (${policy.using})`;
+  }
+  if (policy.withCheck) {
+    sql += ` WITH CHECK (${policy.withCheck})`;
+  }
+  return `${sql};`;
+};
+
+const policyShape = (policy: RLSPolicy) => ({
+  command: policy.command,
+  permissive: policy.permissive,
+  roles: [...policy.roles].sort(),
+  using: policy.using ?? null,
+  withCheck: policy.withCheck ?? null
+});
+
+const columnShape = (column: DatabaseColumn) => ({
+  type: column.type,
+  nullable: column.nullable,
+  defaultValue: column.defaultValue ?? null,
+  identity: column.identity ?? null,
+  generated: column.generated ?? null
+});
+
+const functionKey = (fn: DatabaseFunction): string => `${fn.name}(${fn.identityArguments})`;
+
+const functionSignature = (fn: DatabaseFunction): string =>
+  `${qualifiedName(fn.schema, fn.name)}(${fn.identityArguments})`;
+
+const dropFunctionSQL = (fn: DatabaseFunction): string => {
+  const keyword = fn.kind === 'procedure' ? 'PROCEDURE' : fn.kind === 'aggregate' ? 'AGGREGATE' : 'FUNCTION';
+  return `DROP ${keyword} ${functionSignature(fn)};`;
+};
+
+const createViewSQL = (view: DatabaseView): string => {
+  const keyword = view.materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+  const definition = view.definition.trim().replace(/;$/, '');
+  return `CREATE ${keyword} ${qualifiedName(view.schema, view.name)} AS\n${definition};`;
+};
+
+const dropViewSQL = (view: DatabaseView): string =>
+  `DROP ${view.materialized ? 'MATERIALIZED VIEW' : 'VIEW'} ${qualifiedName(view.schema, view.name)};`;
+
+const commentSQL = (target: string, comment: string | undefined): string =>
+  `COMMENT ON ${target} IS ${comment ? quoteLiteral(comment) : 'NULL'};`;
+
+const triggerSQL = (trigger: TableTrigger): string => `${trigger.definition.trim().replace(/;$/, '')};`;
+
+const indexSQL = (index: TableIndex): string => `${index.definition.trim().replace(/;$/, '')};`;
+
+// Crear una tabla completa (columnas, restricciones, índices, triggers, RLS y políticas)
+const planCreateTable = (plan: MigrationPlan, table: DatabaseTable) => {
+  const name = qualifiedName(table.schema, table.name);
+
+  for (const column of table.columns) {
+    const sequence = sequenceForDefault(column);
+    if (sequence) {
+      plan.tableCreates.push(`CREATE SEQUENCE IF NOT EXISTS ${sequence};`);
+    }
+  }
+
+  const columns = table.columns.map(column => `  ${columnDefinitionSQL(column)}`).join(',\n');
+  plan.tableCreates.push(`CREATE TABLE ${name} (\n${columns}\n);`);
+
+  for (const con of tableConstraints(table)) {
+    const target = con.kind === 'foreign' ? plan.foreignKeyCreates : plan.constraintCreates;
+    target.push(`ALTER TABLE ${name} ADD CONSTRAINT ${quoteIdentifier(con.name)} ${con.definition};`);
+  }
+  for (const index of standaloneIndexes(table)) {
+    plan.constraintCreates.push(indexSQL(index));
+  }
+  for (const trigger of table.triggers ?? []) {
+    plan.triggerCreates.push(triggerSQL(trigger));
+  }
+  if (table.rlsEnabled) {
+    plan.rlsChanges.push(`ALTER TABLE ${name} ENABLE ROW LEVEL SECURITY;`);
+  }
+  if (table.rlsForced) {
+    plan.rlsChanges.push(`ALTER TABLE ${name} FORCE ROW LEVEL SECURITY;`);
+  }
+  for (const policy of table.policies ?? []) {
+    plan.policyCreates.push(policySQL(policy, name));
+  }
+  if (table.comment) {
+    plan.comments.push(commentSQL(`TABLE ${name}`, table.comment));
+  }
+  for (const column of table.columns) {
+    if (column.comment) {
+      plan.comments.push(commentSQL(`COLUMN ${name}.${quoteIdentifier(column.name)}`, column.comment));
+    }
+  }
+};
+
+// Cambios de una columna existente; los que no se pueden expresar con ALTER quedan como aviso
+const planAlterColumn = (plan: MigrationPlan, warnings: string[], table: string, from: DatabaseColumn, to: DatabaseColumn) => {
+  const column = quoteIdentifier(to.name);
+  const alter = (clause: string) => plan.columnChanges.push(`ALTER TABLE ${table} ALTER COLUMN ${column} ${clause};`);
+
+  if ((from.generated ?? null) !== (to.generated ?? null)) {
+    warnings.push(`La expresión generada de ${table}.${column} cambió; hay que recrear la columna manualmente`);
+  }
+
+  if (from.identity && !to.identity) {
+    alter('DROP IDENTITY IF EXISTS');
+  }
+  if (from.type !== to.type) {
+    alter(`TYPE ${to.type} USING ${column}::${to.type}`);
+  }
+  if (!to.identity && !to.generated && (from.defaultValue ?? null) !== (to.defaultValue ?? null)) {
+    alter(to.defaultValue ? `SET DEFAULT ${to.defaultValue}` : 'DROP DEFAULT');
+  }
+  if (from.nullable !== to.nullable) {
+    alter(to.nullable ? 'DROP NOT NULL' : 'SET NOT NULL');
+  }
+  if (to.identity && !from.identity) {
+    if (from.defaultValue) {
+      alter('DROP DEFAULT');
+    }
+    alter(`ADD GENERATED ${to.identity} AS IDENTITY`);
+  } else if (to.identity && from.identity && to.identity !== from.identity) {
+    alter(`SET GENERATED ${to.identity}`);
+  }
+};
+
+const planTableChanges = (plan: MigrationPlan, changes: SchemaChange[], warnings: string[], from: DatabaseTable, to: DatabaseTable) => {
+  const table = qualifiedName(to.schema, to.name);
+
+  // Columnas
+  const fromColumns = byKey(from.columns, col => col.name);
+  const toColumns = byKey(to.columns, col => col.name);
+
+  for (const column of to.columns) {
+    const previous = fromColumns.get(column.name);
+    if (!previous) {
+      changes.push({ objectType: 'column', action: 'added', table: to.name, name: column.name, to: columnShape(column) });
+      const sequence = sequenceForDefault(column);
+      if (sequence) {
+        plan.columnChanges.push(`CREATE SEQUENCE IF NOT EXISTS ${sequence};`);
+      }
+      plan.columnChanges.push(`ALTER TABLE ${table} ADD COLUMN ${columnDefinitionSQL(column)};`);
+    } else if (!same(columnShape(previous), columnShape(column))) {
+      changes.push({ objectType: 'column', action: 'changed', table: to.name, name: column.name, from: columnShape(previous), to: columnShape(column) });
+      planAlterColumn(plan, warnings, table, previous, column);
+    }
+    if ((previous?.comment ?? null) !== (column.comment ?? null) && (previous || column.comment)) {
+      if (previous) {
+        changes.push({ objectType: 'comment', action: 'changed', table: to.name, name: column.name, from: previous.comment ?? null, to: column.comment ?? null });
+      }
+      plan.comments.push(commentSQL(`COLUMN ${table}.${quoteIdentifier(column.name)}`, column.comment));
+    }
+  }
+  for (const column of from.columns) {
+    if (!toColumns.has(column.name)) {
+      changes.push({ objectType: 'column', action: 'removed', table: to.name, name: column.name, from: columnShape(column) });
+      plan.columnChanges.push(`ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(column.name)};`);
+    }
+  }
+
+  // Restricciones
+  const fromConstraints = byKey(tableConstraints(from), con => con.name);
+  const toConstraints = byKey(tableConstraints(to), con => con.name);
+
+  for (const con of toConstraints.values()) {
+    const previous = fromConstraints.get(con.name);
+    if (previous && previous.definition === con.definition) {
+      continue;
+    }
+    changes.push({
+      objectType: 'constraint',
+      action: previous ? 'changed' : 'added',
+      table: to.name,
+      name: con.name,
+      ...(previous ? { from: previous.definition } : {}),
+      to: con.definition
+    });
+    if (previous) {
+      plan.drops.push(`ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(con.name)};`);
+    }
+    const target = con.kind === 'foreign' ? plan.foreignKeyCreates : plan.constraintCreates;
+    target.push(`ALTER TABLE ${table} ADD CONSTRAINT ${quoteIdentifier(con.name)} ${con.definition};`);
+  }
+  for (const con of fromConstraints.values()) {
+    if (!toConstraints.has(con.name)) {
+      changes.push({ objectType: 'constraint', action: 'removed', table: to.name, name: con.name, from: con.definition });
+      plan.drops.push(`ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(con.name)};`);
+    }
+  }
+
+  // Índices
+  const fromIndexes = byKey(standaloneIndexes(from), index => index.name);
+  const toIndexes = byKey(standaloneIndexes(to), index => index.name);
+
+  for (const index of toIndexes.values()) {
+    const previous = fromIndexes.get(index.name);
+    if (previous && previous.definition === index.definition) {
+      continue;
+    }
+    changes.push({
+      objectType: 'index',
+      action: previous ? 'changed' : 'added',
+      table: to.name,
+      name: index.name,
+      ...(previous ? { from: previous.definition } : {}),
+      to: index.definition
+    });
+    if (previous) {
+      plan.drops.push(`DROP INDEX ${qualifiedName(to.schema, index.name)};`);
+    }
+    plan.constraintCreates.push(indexSQL(index));
+  }
+  for (const index of fromIndexes.values()) {
+    if (!toIndexes.has(index.name)) {
+      changes.push({ objectType: 'index', action: 'removed', table: to.name, name: index.name, from: index.definition });
+      plan.drops.push(`DROP INDEX ${qualifiedName(to.schema, index.name)};`);
+    }
+  }
+
+  // Triggers
+  const fromTriggers = byKey(from.triggers ?? [], trigger => trigger.name);
+  const toTriggers = byKey(to.triggers ?? [], trigger => trigger.name);
+
+  for (const trigger of toTriggers.values()) {
+    const previous = fromTriggers.get(trigger.name);
+    if (previous && previous.definition === trigger.definition) {
+      continue;
+    }
+    changes.push({
+      objectType: 'trigger',
+      action: previous ? 'changed' : 'added',
+      table: to.name,
+      name: trigger.name,
+      ...(previous ? { from: previous.definition } : {}),
+      to: trigger.definition
+    });
+    if (previous) {
+      plan.drops.push(`DROP TRIGGER ${quoteIdentifier(trigger.name)} ON ${table};`);
+    }
+    plan.triggerCreates.push(triggerSQL(trigger));
+  }
+  for (const trigger of fromTriggers.values()) {
+    if (!toTriggers.has(trigger.name)) {
+      changes.push({ objectType: 'trigger', action: 'removed', table: to.name, name: trigger.name, from: trigger.definition });
+      plan.drops.push(`DROP TRIGGER ${quoteIdentifier(trigger.name)} ON ${table};`);
+    }
+  }
+
+  // Row Level Security
+  if (!!from.rlsEnabled !== !!to.rlsEnabled || !!from.rlsForced !== !!to.rlsForced) {
+    changes.push({
+      objectType: 'rls',
+      action: 'changed',
+      table: to.name,
+      name: to.name,
+      from: { enabled: !!from.rlsEnabled, forced: !!from.rlsForced },
+      to: { enabled: !!to.rlsEnabled, forced: !!to.rlsForced }
+    });
+    if (!!from.rlsEnabled !== !!to.rlsEnabled) {
+      plan.rlsChanges.push(`ALTER TABLE ${table} ${to.rlsEnabled ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY;`);
+    }
+    if (!!from.rlsForced !== !!to.rlsForced) {
+      plan.rlsChanges.push(`ALTER TABLE ${table} ${to.rlsForced ? 'FORCE' : 'NO FORCE'} ROW LEVEL SECURITY;`);
+    }
+  }
+
+  const fromPolicies = byKey(from.policies ?? [], policy => policy.name);
+  const toPolicies = byKey(to.policies ?? [], policy => policy.name);
+
+  for (const policy of toPolicies.values()) {
+    const previous = fromPolicies.get(policy.name);
+    if (previous && same(policyShape(previous), policyShape(policy))) {
+      continue;
+    }
+    changes.push({
+      objectType: 'policy',
+      action: previous ? 'changed' : 'added',
+      table: to.name,
+      name: policy.name,
+      ...(previous ? { from: policyShape(previous) } : {}),
+      to: policyShape(policy)
+    });
+    if (previous) {
+      plan.drops.push(`DROP POLICY ${quoteIdentifier(policy.name)} ON ${table};`);
+    }
+    plan.policyCreates.push(policySQL(policy, table));
+  }
+  for (const policy of fromPolicies.values()) {
+    if (!toPolicies.has(policy.name)) {
+      changes.push({ objectType: 'policy', action: 'removed', table: to.name, name: policy.name, from: policyShape(policy) });
+      plan.drops.push(`DROP POLICY ${quoteIdentifier(policy.name)} ON ${table};`);
+    }
+  }
+
+  if ((from.comment ?? null) !== (to.comment ?? null)) {
+    changes.push({ objectType: 'comment', action: 'changed', table: to.name, name: to.name, from: from.comment ?? null, to: to.comment ?? null });
+    plan.comments.push(commentSQL(`TABLE ${table}`, to.comment));
+  }
+};
+
+// Comparar dos fotos del mismo esquema y planificar las sentencias que llevan de "from" a "to"
+const planMigration = (from: SchemaSnapshot, to: SchemaSnapshot) => {
+  const plan = createPlan();
+  const changes: SchemaChange[] = [];
+  const warnings: string[] = [];
+
+  // Tablas
+  const fromTables = byKey(from.tables, table => table.name);
+  const toTables = byKey(to.tables, table => table.name);
+
+  for (const table of to.tables) {
+    const previous = fromTables.get(table.name);
+    if (previous) {
+      planTableChanges(plan, changes, warnings, previous, table);
+    } else {
+      changes.push({ objectType: 'table', action: 'added', name: table.name });
+      planCreateTable(plan, table);
+    }
+  }
+  for (const table of from.tables) {
+    if (toTables.has(table.name)) {
+      continue;
+    }
+    changes.push({ objectType: 'table', action: 'removed', name: table.name });
+    const name = qualifiedName(table.schema, table.name);
+    // Quitar antes las claves foráneas para que el orden de borrado no importe
+    for (const fk of tableConstraints(table).filter(con => con.kind === 'foreign')) {
+      plan.drops.push(`ALTER TABLE ${name} DROP CONSTRAINT ${quoteIdentifier(fk.name)};`);
+    }
+    plan.tableDrops.push(`DROP TABLE ${name};`);
+  }
+
+  // Vistas
+  const fromViews = byKey(from.views, view => view.name);
+  const toViews = byKey(to.views, view => view.name);
+
+  for (const view of to.views) {
+    const previous = fromViews.get(view.name);
+    if (previous && previous.materialized === view.materialized && previous.definition === view.definition) {
+      continue;
+    }
+    changes.push({
+      objectType: 'view',
+      action: previous ? 'changed' : 'added',
+      name: view.name,
+      ...(previous ? { from: previous.definition } : {}),
+      to: view.definition
+    });
+    if (previous) {
+      plan.drops.unshift(dropViewSQL(previous));
+    }
+    plan.viewCreates.push(createViewSQL(view));
+    if (view.comment) {
+      plan.comments.push(commentSQL(`${view.materialized ? 'MATERIALIZED VIEW' : 'VIEW'} ${qualifiedName(view.schema, view.name)}`, view.comment));
+    }
+  }
+  for (const view of from.views) {
+    if (!toViews.has(view.name)) {
+      changes.push({ objectType: 'view', action: 'removed', name: view.name, from: view.definition });
+      plan.drops.unshift(dropViewSQL(view));
+    }
+  }
+
+  // Funciones
+  const fromFunctions = byKey(from.functions, functionKey);
+  const toFunctions = byKey(to.functions, functionKey);
+
+  for (const fn of to.functions) {
+    const previous = fromFunctions.get(functionKey(fn));
+    if (previous && previous.definition === fn.definition && previous.returns === fn.returns) {
+      continue;
+    }
+    changes.push({
+      objectType: 'function',
+      action: previous ? 'changed' : 'added',
+      name: functionKey(fn),
+      ...(previous ? { from: previous.definition } : {}),
+      to: fn.definition
+    });
+    if (!fn.definition) {
+      warnings.push(`No se puede generar la definición de ${functionSignature(fn)} (${fn.kind}); hay que migrarla manualmente`);
+      continue;
+    }
+    // CREATE OR REPLACE no permite cambiar el tipo devuelto
+    if (previous && previous.returns !== fn.returns) {
+      plan.functionDrops.push(dropFunctionSQL(previous));
+    }
+    plan.functionCreates.push(`${fn.definition.trim().replace(/;$/, '')};`);
+  }
+  for (const fn of from.functions) {
+    if (!toFunctions.has(functionKey(fn))) {
+      changes.push({ objectType: 'function', action: 'removed', name: functionKey(fn), from: fn.definition });
+      plan.functionDrops.push(dropFunctionSQL(fn));
+    }
+  }
+
+  const statements = [
+    ...plan.drops,
+    ...plan.tableDrops,
+    ...plan.functionDrops,
+    // Las funciones pueden referenciar tablas que se crean más abajo
+    ...(plan.functionCreates.length > 0 ? ['SET LOCAL check_function_bodies = off;'] : []),
+    ...plan.functionCreates,
+    ...plan.tableCreates,
+    ...plan.columnChanges,
+    ...plan.constraintCreates,
+    ...plan.foreignKeyCreates,
+    ...plan.viewCreates,
+    ...plan.triggerCreates,
+    ...plan.rlsChanges,
+    ...plan.policyCreates,
+    ...plan.comments
+  ];
+
+  return { statements, changes, warnings };
+};
+
+const summarize = (changes: SchemaChange[]): Record<SchemaChangeAction, number> => {
+  const summary: Record<SchemaChangeAction, number> = { added: 0, removed: 0, changed: 0 };
+  for (const change of changes) {
+    summary[change.action]++;
+  }
+  return summary;
+};
+
+export const diffSchemas = (source: SchemaSnapshot, target: SchemaSnapshot): SchemaDiff => {
+  const { changes, warnings } = planMigration(source, retargetSnapshot(target, source.schema));
+
+  return {
+    identical: changes.length === 0,
+    summary: summarize(changes),
+    changes,
+    warnings
+  };
+};
+
+// Migración que transforma "source" en "target"; el SQL se aplica sobre el esquema de source
+export const buildSchemaMigration = (source: SchemaSnapshot, target: SchemaSnapshot): SchemaMigration => {
+  const desired = retargetSnapshot(target, source.schema);
+  const up = planMigration(source, desired);
+  const down = planMigration(desired, source);
+
+  return {
+    diff: {
+      identical: up.changes.length === 0,
+      summary: summarize(up.changes),
+      changes: up.changes,
+      warnings: Array.from(new Set([...up.warnings, ...down.warnings]))
+    },
+    up: up.statements.join('\n'),
+    down: down.statements.join('\n')
+  };
+};
@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseTable } from '../types/supabase.js';
+import { qualifiedName, quoteIdentifier } from './sql.js';
+
+export interface SeedFile {
+  name: string;
+  fileName: string;
+  path: string;
+  // null para los ficheros comunes a todos los entornos
+  environment: string | null;
+  kind: 'sql' | 'fixture';
+  schema?: string;
+  table?: string;
+}
+
+export interface UpsertStatement {
+  sql: string;
+  params: unknown[];
+}
+
+// Fixtures JSON: <esquema>.<tabla>.json o <tabla>.json (esquema public)
+const FIXTURE_FILE_REGEX = /^(?:([A-Za-z_][\w$]*)\.)?([A-Za-z_][\w$]*)\.json$/;
+
+// Límite de parámetros por sentencia de PostgreSQL
+const MAX_PARAMS = 65535;
+
+export const isValidEnvironment = (environment: string): boolean => /^[A-Za-z0-9_-]+$/.test(environment);
+
+const readSeedDirectory = (dir: string, environment: string | null): SeedFile[] => {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((entry): SeedFile | null => {
+      const filePath = path.join(dir, entry.name);
+      if (entry.name.endsWith('.sql')) {
+        return { name: entry.name.replace(/\.sql$/, ''), fileName: entry.name, path: filePath, environment, kind: 'sql' };
+      }
+      const match = entry.name.match(FIXTURE_FILE_REGEX);
+      if (match) {
+        const schema = match[1] ?? 'public';
+        const table = match[2]!;
+        return { name: `${schema}.${table}`, fileName: entry.name, path: filePath, environment, kind: 'fixture', schema, table };
+      }
+      return null;
+    })
+    .filter((file): file is SeedFile => file !== null);
+};
+
+// Ficheros comunes y los del entorno; supabase/seed.sql de Supabase CLI cuenta como común
+export const listSeedFiles = (seedsDir: string, environment: string): SeedFile[] => {
+  const files: SeedFile[] = [];
+
+  const cliSeed = path.join(path.dirname(seedsDir), 'seed.sql');
+  if (fs.existsSync(cliSeed)) {
+    files.push({ name: 'seed', fileName: 'seed.sql', path: cliSeed, environment: null, kind: 'sql' });
+  }
+
+  files.push(...readSeedDirectory(seedsDir, null));
+  files.push(...readSeedDirectory(path.join(seedsDir, environment), environment));
+
+  // Un fixture del entorno sustituye al común de la misma tabla
+  const environmentFixtures = new Set(files.filter(file => file.kind === 'fixture' && file.environment !== null).map(file => file.name));
+  return files.filter(file => file.kind === 'sql' || file.environment !== null || !environmentFixtures.has(file.name));
+};
+
+export const readFixture = (file: SeedFile): Record<string, unknown>[] => {
+  const parsed: unknown = JSON.parse(fs.readFileSync(file.path, 'utf8'));
+  if (!Array.isArray(parsed) || parsed.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error(`El fixture ${file.fileName} debe ser un array de objetos (una fila por objeto)`);
+  }
+  return parsed as Record<string, unknown>[];
+};
+
+export const fixtureFileName = (schema: string, table: string): string => `${schema}.${table}.json`;
+
+export const writeSeedFile = (seedsDir: string, environment: string | null, fileName: string, content: string, overwrite: boolean): string => {
+  const dir = environment ? path.join(seedsDir, environment) : seedsDir;
+  const filePath = path.join(dir, fileName);
+
+  if (!overwrite && fs.existsSync(filePath)) {
+    throw new Error(`El seed ${filePath} ya existe; usa overwrite para reemplazarlo`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(filePath, content.endsWith('\n') ? content : `${content}\n`, 'utf8');
+  return filePath;
+};
+
+// Ordenar las tablas para que las referenciadas por claves foráneas se carguen antes
+export const orderByForeignKeys = (tables: DatabaseTable[]): { order: DatabaseTable[]; cycles: string[] } => {
+  const key = (schema: string, name: string) => `${schema}.${name}`;
+  const byKey = new Map(tables.map(table => [key(table.schema, table.name), table]));
+  const dependencies = new Map(tables.map(table => [
+    key(table.schema, table.name),
+    new Set((table.foreignKeys ?? [])
+      .map(fk => key(fk.referencedSchema ?? table.schema, fk.referencedTable))
+      .filter(referenced => referenced !== key(table.schema, table.name) && byKey.has(referenced)))
+  ]));
+
+  const order: DatabaseTable[] = [];
+  const done = new Set<string>();
+  let progressed = true;
+
+  while (progressed) {
+    progressed = false;
+    for (const table of tables) {
+      const tableKey = key(table.schema, table.name);
+      if (done.has(tableKey)) {
+        continue;
+      }
+      if (Array.from(dependencies.get(tableKey) ?? []).every(dependency => done.has(dependency))) {
+        order.push(table);
+        done.add(tableKey);
+        progressed = true;
+      }
+    }
+  }
+
+  // Las tablas en un ciclo se cargan al final en el orden de los ficheros
+  const cycles = tables.filter(table => !done.has(key(table.schema, table.name)));
+  order.push(...cycles);
+
+  return { order, cycles: cycles.map(table => key(table.schema, table.name)) };
+};
+
+// INSERT ... ON CONFLICT (clave primaria) DO UPDATE, en lotes que no superan el límite de parámetros
+export const buildUpsertStatements = (table: DatabaseTable, rows: Record<string, unknown>[]): UpsertStatement[] => {
+  const primaryKey = table.primaryKey ?? [];
+  if (primaryKey.length === 0) {
+    throw new Error(`La tabla ${table.schema}.${table.name} no tiene clave primaria; no se puede cargar de forma idempotente`);
+  }
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columnsByName = new Map(table.columns.map(col => [col.name, col]));
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+  const unknown = columns.filter(col => !columnsByName.has(col));
+  if (unknown.length > 0) {
+    throw new Error(`Columnas inexistentes en ${table.schema}.${table.name}: ${unknown.join(', ')}`);
+  }
+  const generated = columns.filter(col => columnsByName.get(col)!.generated !== undefined);
+  if (generated.length > 0) {
+    throw new Error(`Las columnas generadas de ${table.schema}.${table.name} no se pueden insertar: ${generated.join(', ')}`);
+  }
+  const missingKey = primaryKey.filter(col => !columns.includes(col));
+  if (missingKey.length > 0) {
+    throw new Error(`Las filas de ${table.schema}.${table.name} deben incluir la clave primaria (${missingKey.join(', ')})`);
+  }
+
+  // Las columnas json/jsonb reciben el valor serializado; el resto tal cual (los arrays van como arrays de PostgreSQL)
+  const toParam = (column: string, value: unknown): unknown => {
+    const type = columnsByName.get(column)!.type;
+    if (value !== null && value !== undefined && (type === 'json' || type === 'jsonb')) {
+      return JSON.stringify(value);
+    }
+    return value ?? null;
+  };
+
+  const overriding = columns.some(col => columnsByName.get(col)!.identity === 'ALWAYS') ? ' OVERRIDING SYSTEM VALUE' : '';
+  const updates = columns.filter(col => !primaryKey.includes(col));
+  const conflict = updates.length > 0
+    ? `DO UPDATE SET ${updates.map(col => `${quoteIdentifier(col)} = EXCLUDED.${quoteIdentifier(col)}`).join(', ')}`
+    : 'DO NOTHING';
+  const batchSize = Math.max(1, Math.floor(MAX_PARAMS / columns.length));
+
+  const statements: UpsertStatement[] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const batch = rows.slice(start, start + batchSize);
+    const params: unknown[] = [];
+    const values = batch.map(row => `(${columns.map(col => {
+      // Las columnas ausentes en una fila toman su valor por defecto
+      if (!(col in row)) {
+        return 'DEFAULT';
+      }
+      params.push(toParam(col, row[col]));
+      return `$${params.length}`;
+    }).join(', ')})`);
+
+    statements.push({
+      sql: `INSERT INTO ${qualifiedName(table.schema, table.name)} (${columns.map(quoteIdentifier).join(', ')})${overriding}
+VALUES ${values.join(',\n  ')}
+ON CONFLICT (${primaryKey.map(quoteIdentifier).join(', ')}) ${conflict};`,
+      params
+    });
+  }
+
+  return statements;
+};
+
+// Ajustar las secuencias de columnas serial/identity tras insertar ids explícitos
+export const buildSequenceResets = (table: DatabaseTable, columns: string[]): UpsertStatement[] =>
+  table.columns
+    .filter(col => columns.includes(col.name) && (col.identity || /^nextval\(/.test(col.defaultValue ?? '')))
+    .map(col => ({
+      sql: `SELECT setval(pg_get_serial_sequence($1, $2), COALESCE(MAX(${quoteIdentifier(col.name)}), 0) + 1, false) FROM ${qualifiedName(table.schema, table.name)};`,
+      params: [qualifiedName(table.schema, table.name), col.name]
+    }));
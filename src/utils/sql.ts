@@ -0,0 +1,333 @@
+export type StatementClass = 'read' | 'write' | 'ddl' | 'privileged' | 'transaction';
+
+export interface ClassifiedStatement {
+  index: number;
+  statement: string;
+  command: string;
+  class: StatementClass;
+  reason: string;
+}
+
+// Clases de sentencia ordenadas de menor a mayor riesgo. 'transaction' no figura: ninguna herramienta
+// admite BEGIN/COMMIT/... porque romperían la transacción con la que se ejecuta la consulta
+export const STATEMENT_CLASSES: StatementClass[] = ['read', 'write', 'ddl', 'privileged'];
+
+// Dividir un script SQL en sentencias respetando comillas, dollar-quoting y comentarios
+export const splitSQLStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i]!;
+    const next = sql[i + 1];
+
+    // Comentario de línea
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end + 1;
+      current += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Comentario de bloque (admite anidamiento como PostgreSQL)
+    if (char === '/' && next === '*') {
+      let depth = 1;
+      let j = i + 2;
+      while (j < sql.length && depth > 0) {
+        if (sql[j] === '/' && sql[j + 1] === '*') {
+          depth++;
+          j += 2;
+        } else if (sql[j] === '*' && sql[j + 1] === '/') {
+          depth--;
+          j += 2;
+        } else {
+          j++;
+        }
+      }
+      current += sql.slice(i, j);
+      i = j;
+      continue;
+    }
+
+    // Literales de texto e identificadores entre comillas
+    if (char === '\'' || char === '"') {
+      const escapeWithBackslash = char === '\'' && /[eE]$/.test(current) && !/\w[eE]$/.test(current);
+      let j = i + 1;
+      while (j < sql.length) {
+        if (escapeWithBackslash && sql[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += sql.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    // Dollar-quoting: $$...$$ o $tag$...$tag$
+    if (char === '$') {
+      const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tagMatch && !/[A-Za-z0-9_]$/.test(current)) {
+        const tag = tagMatch[0];
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      if (stripSQLComments(current).trim()) {
+        statements.push(current.trim());
+      }
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (stripSQLComments(current).trim()) {
+    statements.push(current.trim());
+  }
+
+  return statements;
+};
+
+// Eliminar comentarios al inicio de la sentencia (los que preceden al primer token)
+export const stripSQLComments = (statement: string): string => {
+  let text = statement;
+  let previous = '';
+
+  while (text !== previous) {
+    previous = text;
+    text = text.replace(/^\s+/, '');
+    if (text.startsWith('--')) {
+      const end = text.indexOf('\n');
+      text = end === -1 ? '' : text.slice(end + 1);
+    } else if (text.startsWith('/*')) {
+      const end = text.indexOf('*/');
+      text = end === -1 ? '' : text.slice(end + 2);
+    }
+  }
+
+  return text;
+};
+
+// Palabras clave normalizadas de la sentencia (sin literales ni comentarios)
+const tokenize = (statement: string): string[] => {
+  const withoutLiterals = stripSQLComments(statement)
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$/g, ' ')
+    .replace(/'(?:[^']|'')*'/g, ' ')
+    .replace(/"(?:[^"]|"")*"/g, ' ident ');
+
+  return withoutLiterals
+    .toUpperCase()
+    .split(/[^A-Z0-9_]+/)
+    .filter(Boolean);
+};
+
+const PRIVILEGED_OBJECTS = new Set(['ROLE', 'USER', 'GROUP', 'DATABASE', 'EXTENSION', 'TABLESPACE', 'SUBSCRIPTION', 'PUBLICATION', 'SERVER', 'LANGUAGE', 'EVENT']);
+// Parámetros de sesión inocuos; SET/RESET de cualquier otro se trata como privilegiado
+const SAFE_SETTINGS = new Set([
+  'STATEMENT_TIMEOUT', 'LOCK_TIMEOUT', 'IDLE_IN_TRANSACTION_SESSION_TIMEOUT', 'APPLICATION_NAME', 'CLIENT_ENCODING',
+  'CLIENT_MIN_MESSAGES', 'DATESTYLE', 'INTERVALSTYLE', 'TIMEZONE', 'TIME', 'EXTRA_FLOAT_DIGITS', 'BYTEA_OUTPUT',
+  'WORK_MEM', 'CONSTRAINTS'
+]);
+const DDL_COMMANDS = new Set(['CREATE', 'ALTER', 'DROP', 'COMMENT', 'SECURITY', 'IMPORT', 'REINDEX', 'CLUSTER']);
+const WRITE_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'LOCK', 'CALL', 'REFRESH', 'VACUUM', 'ANALYZE', 'NOTIFY', 'LISTEN', 'UNLISTEN']);
+const TRANSACTION_COMMANDS = new Set(['BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT', 'SAVEPOINT', 'RELEASE', 'PREPARE']);
+const READ_COMMANDS = new Set(['SELECT', 'SHOW', 'VALUES', 'TABLE', 'FETCH', 'MOVE', 'CLOSE', 'DECLARE']);
+const EXPLAINABLE_COMMANDS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'VALUES', 'TABLE', 'WITH', 'CREATE', 'EXECUTE', 'DECLARE']);
+
+const classifyTokens = (tokens: string[], raw = ''): Omit<ClassifiedStatement, 'index' | 'statement'> => {
+  const [first = '', second = '', third = ''] = tokens;
+
+  if (!first) {
+    return { command: '', class: 'read', reason: 'Sentencia vacía' };
+  }
+
+  if (first === 'GRANT' || first === 'REVOKE' || first === 'REASSIGN' || first === 'LOAD' || first === 'CHECKPOINT' || first === 'DO') {
+    return { command: first, class: 'privileged', reason: `${first} modifica privilegios o ejecuta código arbitrario` };
+  }
+
+  if (first === 'SET' || first === 'RESET') {
+    const setting = second === 'LOCAL' || second === 'SESSION' ? third : second;
+    if (SAFE_SETTINGS.has(setting)) {
+      return { command: first, class: 'read', reason: 'Cambio de parámetro de sesión' };
+    }
+    return { command: `${first} ${setting}`.trim(), class: 'privileged', reason: `${first} ${setting} puede cambiar la identidad, el modo o el comportamiento de la sesión` };
+  }
+
+  if (first === 'DROP' && second === 'OWNED') {
+    return { command: 'DROP OWNED', class: 'privileged', reason: 'DROP OWNED elimina objetos de un rol completo' };
+  }
+
+  if (first === 'ALTER' && second === 'SYSTEM') {
+    return { command: 'ALTER SYSTEM', class: 'privileged', reason: 'ALTER SYSTEM modifica la configuración del servidor' };
+  }
+
+  if (first === 'ALTER' && second === 'DEFAULT') {
+    return { command: 'ALTER DEFAULT PRIVILEGES', class: 'privileged', reason: 'ALTER DEFAULT PRIVILEGES modifica privilegios' };
+  }
+
+  if (DDL_COMMANDS.has(first)) {
+    const object = second === 'OR' || second === 'UNIQUE' || second === 'TEMP' || second === 'TEMPORARY' || second === 'UNLOGGED'
+      ? tokens.slice(2).find(token => token !== 'REPLACE' && token !== 'TEMP' && token !== 'TEMPORARY') ?? ''
+      : second;
+    if (first !== 'COMMENT' && PRIVILEGED_OBJECTS.has(object)) {
+      return { command: `${first} ${object}`, class: 'privileged', reason: `${first} ${object} requiere privilegios de administración` };
+    }
+    return { command: `${first} ${object}`.trim(), class: 'ddl', reason: `${first} modifica la estructura de la base de datos` };
+  }
+
+  if (first === 'COPY') {
+    if (tokens.includes('PROGRAM') || /\b(TO|FROM)\s+'/i.test(raw)) {
+      return { command: 'COPY', class: 'privileged', reason: 'COPY con PROGRAM o ficheros accede al sistema de archivos del servidor' };
+    }
+    const direction = /^COPY\s*\(/i.test(raw) ? 'TO' : tokens.find(token => token === 'FROM' || token === 'TO');
+    if (direction === 'FROM') {
+      return { command: 'COPY FROM', class: 'write', reason: 'COPY FROM inserta datos' };
+    }
+    return { command: 'COPY TO', class: 'read', reason: 'COPY TO exporta datos' };
+  }
+
+  if (TRANSACTION_COMMANDS.has(first)) {
+    return { command: first, class: 'transaction', reason: 'El control de transacciones rompería la transacción que envuelve la consulta' };
+  }
+
+  if (WRITE_COMMANDS.has(first)) {
+    return { command: first, class: 'write', reason: `${first} modifica datos` };
+  }
+
+  if (first === 'EXPLAIN') {
+    const analyze = tokens.includes('ANALYZE') || tokens.includes('ANALYSE');
+    const innerStart = tokens.findIndex((token, idx) => idx > 0 && EXPLAINABLE_COMMANDS.has(token));
+    const inner = innerStart === -1 ? undefined : classifyTokens(tokens.slice(innerStart));
+    if (analyze && inner && inner.class !== 'read') {
+      return { command: `EXPLAIN ANALYZE ${inner.command}`, class: inner.class, reason: `EXPLAIN ANALYZE ejecuta realmente la sentencia: ${inner.reason}` };
+    }
+    return { command: 'EXPLAIN', class: 'read', reason: 'Plan de ejecución' };
+  }
+
+  if (first === 'WITH' || READ_COMMANDS.has(first)) {
+    const writeToken = tokens.find(token => token === 'INSERT' || token === 'UPDATE' || token === 'DELETE' || token === 'MERGE');
+    if (first === 'WITH' && writeToken) {
+      return { command: `WITH ${writeToken}`, class: 'write', reason: `CTE con ${writeToken} modifica datos` };
+    }
+    const intoIndex = tokens.indexOf('INTO');
+    const fromIndex = tokens.indexOf('FROM');
+    if (first === 'SELECT' && intoIndex !== -1 && (fromIndex === -1 || intoIndex < fromIndex)) {
+      return { command: 'SELECT INTO', class: 'ddl', reason: 'SELECT INTO crea una tabla nueva' };
+    }
+    const locking = tokens.findIndex((token, idx) => token === 'FOR' && ['UPDATE', 'SHARE', 'NO', 'KEY'].includes(tokens[idx + 1] ?? ''));
+    if (locking !== -1) {
+      return { command: `${first} FOR UPDATE`, class: 'write', reason: 'SELECT con bloqueo de filas' };
+    }
+    return { command: first, class: 'read', reason: 'Consulta de lectura' };
+  }
+
+  // Por defecto, cualquier comando desconocido se trata como privilegiado
+  return { command: first, class: 'privileged', reason: `Comando no reconocido: ${first}` };
+};
+
+export const classifyStatement = (statement: string, index = 0): ClassifiedStatement => ({
+  index,
+  statement,
+  ...classifyTokens(tokenize(statement), stripSQLComments(statement))
+});
+
+export const classifySQL = (sql: string): ClassifiedStatement[] =>
+  splitSQLStatements(sql).map((statement, index) => classifyStatement(statement, index));
+
+// Sentencias BEGIN/COMMIT/... propias que romperían la transacción que las envuelve
+export const findTransactionControl = (sql: string): ClassifiedStatement[] =>
+  classifySQL(sql).filter(statement => statement.class === 'transaction');
+
+export const isStatementAllowed = (statement: ClassifiedStatement, allowed: StatementClass[]): boolean =>
+  allowed.includes(statement.class);
+
+// Palabras reservadas que no pueden usarse como identificador sin comillas
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'both', 'case', 'cast',
+  'check', 'collate', 'column', 'constraint', 'create', 'current_catalog', 'current_date', 'current_role',
+  'current_time', 'current_timestamp', 'current_user', 'default', 'deferrable', 'desc', 'distinct', 'do',
+  'else', 'end', 'except', 'false', 'fetch', 'for', 'foreign', 'from', 'grant', 'group', 'having', 'in',
+  'initially', 'intersect', 'into', 'lateral', 'leading', 'limit', 'localtime', 'localtimestamp', 'not',
+  'null', 'offset', 'on', 'only', 'or', 'order', 'placing', 'primary', 'references', 'returning', 'select',
+  'session_user', 'some', 'symmetric', 'table', 'then', 'to', 'trailing', 'true', 'union', 'unique', 'user',
+  'using', 'variadic', 'when', 'where', 'window', 'with'
+]);
+
+// Citar un identificador solo cuando PostgreSQL no lo aceptaría tal cual
+export const quoteIdentifier = (identifier: string): string =>
+  /^[a-z_][a-z0-9_$]*$/.test(identifier) && !RESERVED_WORDS.has(identifier)
+    ? identifier
+    : `"${identifier.replace(/"/g, '""')}"`;
+
+export const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+export const qualifiedName = (schema: string, name: string): string =>
+  `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+
+// Identificadores tal como aparecen en el SQL (con o sin comillas, con o sin esquema)
+const IDENT = '(?:"(?:[^"]|"")+"|[A-Za-z_][\\w$]*)';
+const QNAME = `${IDENT}(?:\\s*\\.\\s*${IDENT})?`;
+
+// Expresión regular sin distinguir mayúsculas en la que IDENT y QNAME se sustituyen por identificadores
+export const sqlPattern = (source: string): RegExp => new RegExp(source.replace(/IDENT/g, IDENT).replace(/QNAME/g, QNAME), 'i');
+
+// Dividir por comas de primer nivel, sin entrar en paréntesis ni comillas
+export const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+};
+
+export const splitQualifiedName = (name: string): { schema: string | null; name: string } => {
+  const parts = name.match(new RegExp(IDENT, 'g')) ?? [name];
+  return parts.length > 1 ? { schema: parts[0]!, name: parts[1]! } : { schema: null, name: parts[0]! };
+};
+
+// Nombre real de un identificador: sin comillas se pliega a minúsculas
+export const unquoteIdentifier = (identifier: string): string =>
+  identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toLowerCase();
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { splitTopLevel } from './sql.js';
 
 export const validateInput = <T>(schema: z.ZodSchema<T>, data: unknown): T => {
   try {
@@ -40,4 +41,64 @@ export const isValidJSON = (jsonString: string): boolean => {
   } catch {
     return false;
   }
-};
\ No newline at end of file
+};
+
+// Tipos de PostgreSQL admitidos sin cualificar (incluye los de extensiones habituales en Supabase)
+const KNOWN_POSTGRES_TYPES = new Set([
+  'smallint', 'integer', 'int', 'int2', 'int4', 'int8', 'bigint', 'smallserial', 'serial', 'bigserial',
+  'serial2', 'serial4', 'serial8', 'real', 'float4', 'float8', 'double precision', 'numeric', 'decimal', 'money',
+  'boolean', 'bool', 'text', 'varchar', 'character varying', 'char', 'character', 'bpchar', 'citext', 'name',
+  'uuid', 'json', 'jsonb', 'xml', 'bytea', 'date', 'time', 'timetz', 'timestamp', 'timestamptz', 'interval',
+  'inet', 'cidr', 'macaddr', 'macaddr8', 'point', 'line', 'lseg', 'box', 'path', 'polygon', 'circle',
+  'tsvector', 'tsquery', 'bit', 'bit varying', 'varbit', 'int4range', 'int8range', 'numrange', 'tsrange',
+  'tstzrange', 'daterange', 'oid', 'regclass', 'vector', 'halfvec', 'geometry', 'geography'
+]);
+
+// Nombre (opcionalmente cualificado), modificadores, zona horaria y dimensiones de array
+const POSTGRES_TYPE_REGEX = /^([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)?(?:\s+[a-zA-Z_][a-zA-Z0-9_]*)*?)\s*(\(\s*\d+\s*(?:,\s*\d+\s*)?\))?(\s+with(?:out)?\s+time\s+zone)?((?:\s*\[\d*\])*)$/i;
+
+// Los tipos propios (enums, dominios) deben indicarse cualificados con su esquema
+export const sanitizePostgresType = (type: string): string => {
+  const trimmed = type.trim();
+  const match = trimmed.match(POSTGRES_TYPE_REGEX);
+  const baseType = match?.[1]?.toLowerCase().replace(/\s+/g, ' ');
+
+  if (!match || !baseType) {
+    throw new Error(`Tipo de PostgreSQL inválido: ${type}`);
+  }
+  if (!baseType.includes('.') && !KNOWN_POSTGRES_TYPES.has(baseType)) {
+    throw new Error(`Tipo de PostgreSQL desconocido: ${type}. Los tipos propios deben ir cualificados con su esquema (p. ej. public.mi_enum)`);
+  }
+  if (match[3] && !['time', 'timestamp'].includes(baseType)) {
+    throw new Error(`Tipo de PostgreSQL inválido: ${type}`);
+  }
+  return trimmed;
+};
+
+// Argumentos de identidad de una función ("integer, text" o "IN id bigint, VARIADIC text[]"):
+// cada argumento admite modo y nombre opcionales seguidos de un tipo válido
+export const sanitizeFunctionArguments = (args: string): string =>
+  splitTopLevel(args)
+    .map(arg => {
+      const [, mode, rest] = arg.match(/^(?:(IN|OUT|INOUT|VARIADIC)\s+)?([\s\S]*)$/i)!;
+      const prefix = mode ? `${mode.toUpperCase()} ` : '';
+      try {
+        return `${prefix}${sanitizePostgresType(rest!)}`;
+      } catch (error) {
+        const named = rest!.match(/^(\S+)\s+(\S[\s\S]*)$/);
+        if (!named || !isValidSQLIdentifier(named[1]!)) {
+          throw error;
+        }
+        return `${prefix}${named[1]} ${sanitizePostgresType(named[2]!)}`;
+      }
+    })
+    .join(', ');
+
+// Expresiones libres (DEFAULT, CHECK, USING): no pueden cerrar la sentencia ni abrir comentarios
+export const sanitizeSQLExpression = (expression: string): string => {
+  const trimmed = expression.trim();
+  if (!trimmed || /;|--|\/\*/.test(trimmed)) {
+    throw new Error(`Expresión SQL inválida: ${expression}`);
+  }
+  return trimmed;
+};